@@ -0,0 +1,154 @@
+import { Shipi18n, decodeAndroidText, parseAndroidStrings, protectAndroidText, serializeAndroidStrings } from '../index';
+
+const STRINGS_XML = `<?xml version="1.0" encoding="utf-8"?>
+<!-- Main app strings -->
+<resources xmlns:xliff="urn:oasis:names:tc:xliff:document:1.2">
+    <string name="app_name" translatable="false">Acme</string>
+    <!-- Shown on the home screen -->
+    <string name="welcome">Welcome, <xliff:g id="user">%1$s</xliff:g>!</string>
+    <string name="hint">Don\\'t forget to <b>save</b></string>
+    <string-array name="planets">
+        <item>Mercury</item>
+        <item>Venus</item>
+    </string-array>
+    <plurals name="files">
+        <item quantity="one">%d file</item>
+        <item quantity="other">%d files</item>
+    </plurals>
+</resources>
+`;
+
+describe('parseAndroidStrings', () => {
+  it('parses strings, arrays, plurals, comments and translatable="false"', () => {
+    const resources = parseAndroidStrings(STRINGS_XML);
+
+    expect(resources.map((resource) => [resource.type, resource.name])).toEqual([
+      ['string', 'app_name'],
+      ['string', 'welcome'],
+      ['string', 'hint'],
+      ['string-array', 'planets'],
+      ['plurals', 'files'],
+    ]);
+    expect(resources[0].translatable).toBe(false);
+    expect(resources[0].comment).toBeUndefined();
+    expect(resources[1].comment).toBe('Shown on the home screen');
+    expect(resources[3].value).toEqual(['Mercury', 'Venus']);
+    expect(resources[4].value).toEqual({ one: '%d file', other: '%d files' });
+  });
+});
+
+describe('protectAndroidText', () => {
+  it('decodes escapes and protects inline markup', () => {
+    const { text, restore } = protectAndroidText('Don\\\'t forget to <b>save</b> &amp; "quit"');
+
+    expect(text).toBe("Don't forget to {{tag_0}}save{{tag_1}} & \"quit\"");
+    expect(restore("N'oublie pas d'{{tag_0}}enregistrer{{tag_1}} & \"quitter\"")).toBe(
+      "N\\'oublie pas d\\'<b>enregistrer</b> &amp; \\\"quitter\\\""
+    );
+    expect(decodeAndroidText('"  spaced  "')).toBe('  spaced  ');
+    expect(decodeAndroidText('<![CDATA[<b>Tom & Jerry</b>]]>')).toBe('<b>Tom & Jerry</b>');
+  });
+
+  it('protects markup inside a CDATA value and writes it back as CDATA', () => {
+    const { text, restore } = protectAndroidText('<![CDATA[<a href="x">Terms & conditions</a>]]>');
+
+    expect(text).toBe('{{tag_0}}Terms & conditions{{tag_1}}');
+    expect(restore("{{tag_0}}Términos y condiciones de l'app{{tag_1}}")).toBe(
+      "<![CDATA[<a href=\"x\">Términos y condiciones de l\\'app</a>]]>"
+    );
+  });
+});
+
+describe('serializeAndroidStrings', () => {
+  it('rewrites plurals with the target language quantities and drops untranslatable strings', () => {
+    const xml = serializeAndroidStrings(STRINGS_XML, 'ru', {
+      files: { one: '%d файл', few: '%d файла', other: '%d файлов' },
+    });
+
+    expect(xml).not.toContain('app_name');
+    expect(xml).toContain('<!-- Shown on the home screen -->');
+    expect(xml).toContain(
+      [
+        '<plurals name="files">',
+        '        <item quantity="one">%d файл</item>',
+        '        <item quantity="few">%d файла</item>',
+        '        <item quantity="many">%d файлов</item>',
+        '        <item quantity="other">%d файлов</item>',
+        '    </plurals>',
+      ].join('\n')
+    );
+  });
+});
+
+describe('translateAndroidStrings', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('translates resources and keeps comments and markup', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        es: {
+          welcome: '¡Bienvenido, {{tag_0}}!',
+          hint: "No olvides {{tag_0}}guardar{{tag_1}}",
+          planets: { 0: 'Mercurio', 1: 'Venus' },
+          files_one: '%d archivo',
+          files_many: '%d de archivos',
+          files_other: '%d archivos',
+        },
+      }),
+    });
+
+    const result = await client.translateAndroidStrings({
+      content: STRINGS_XML,
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.parse(body.text)).toEqual({
+      welcome: 'Welcome, {{tag_0}}!',
+      hint: "Don't forget to {{tag_0}}save{{tag_1}}",
+      planets: { 0: 'Mercury', 1: 'Venus' },
+      files_one: '%d file',
+      files_other: '%d files',
+    });
+    expect(body.contextAnnotations).toEqual({ welcome: 'Shown on the home screen' });
+
+    const xml = result.translations.es!;
+    expect(xml).toContain('<!-- Main app strings -->');
+    expect(xml).not.toContain('app_name');
+    expect(xml).toContain('<string name="welcome">¡Bienvenido, <xliff:g id="user">%1$s</xliff:g>!</string>');
+    expect(xml).toContain('<string name="hint">No olvides <b>guardar</b></string>');
+    expect(xml).toContain('<item>Mercurio</item>');
+    expect(xml).toContain('<item quantity="many">%d de archivos</item>');
+    expect(parseAndroidStrings(xml).map((resource) => resource.name)).toEqual(['welcome', 'hint', 'planets', 'files']);
+  });
+
+  it('round-trips CDATA values', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ es: { terms: 'Lee los {{tag_0}}términos{{tag_1}}' } }),
+    });
+
+    const result = await client.translateAndroidStrings({
+      content: '<resources>\n    <string name="terms"><![CDATA[Read the <a href="/terms">terms</a>]]></string>\n</resources>\n',
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.parse(body.text)).toEqual({ terms: 'Read the {{tag_0}}terms{{tag_1}}' });
+    expect(result.translations.es).toContain(
+      '<string name="terms"><![CDATA[Lee los <a href="/terms">términos</a>]]></string>'
+    );
+  });
+});
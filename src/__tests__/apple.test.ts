@@ -0,0 +1,160 @@
+import { Shipi18n, parseAppleStrings, parseStringsdict, serializeAppleStrings, serializeStringsdict } from '../index';
+
+const STRINGS = `/* Title of the welcome screen */
+"Welcome" = "Welcome, %@!";
+
+// Shown when uploading
+"upload.progress" = "Uploaded %1$@ of %2$@ \\"files\\"";
+
+"empty" = "Nothing here\\nyet";
+`;
+
+const STRINGSDICT = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+    <key>%d files remaining</key>
+    <dict>
+        <key>NSStringLocalizedFormatKey</key>
+        <string>%#@files@ remaining</string>
+        <key>files</key>
+        <dict>
+            <key>NSStringFormatSpecTypeKey</key>
+            <string>NSStringPluralRuleType</string>
+            <key>NSStringFormatValueTypeKey</key>
+            <string>d</string>
+            <key>one</key>
+            <string>%d file</string>
+            <key>other</key>
+            <string>%d files</string>
+        </dict>
+    </dict>
+</dict>
+</plist>
+`;
+
+describe('parseAppleStrings', () => {
+  it('parses entries with comments and escapes', () => {
+    expect(parseAppleStrings(STRINGS)).toEqual([
+      { key: 'Welcome', value: 'Welcome, %@!', comment: 'Title of the welcome screen' },
+      { key: 'upload.progress', value: 'Uploaded %1$@ of %2$@ "files"', comment: 'Shown when uploading' },
+      { key: 'empty', value: 'Nothing here\nyet' },
+    ]);
+  });
+
+  it('rewrites values in place', () => {
+    const output = serializeAppleStrings(STRINGS, ['Bienvenue, %@ !', undefined, 'Rien "ici"']);
+
+    expect(output).toContain('/* Title of the welcome screen */\n"Welcome" = "Bienvenue, %@ !";');
+    expect(output).toContain('"upload.progress" = "Uploaded %1$@ of %2$@ \\"files\\"";');
+    expect(output).toContain('"empty" = "Rien \\"ici\\"";');
+  });
+});
+
+describe('stringsdict', () => {
+  it('parses format keys and plural variables', () => {
+    expect(parseStringsdict(STRINGSDICT)).toEqual([
+      {
+        key: '%d files remaining',
+        format: '%#@files@ remaining',
+        variables: [{ name: 'files', forms: { one: '%d file', other: '%d files' } }],
+      },
+    ]);
+  });
+
+  it('writes the target language plural categories', () => {
+    const output = serializeStringsdict(STRINGSDICT, 'pl', [
+      {
+        format: '%#@files@ pozostało',
+        variables: { files: { one: '%d plik', few: '%d pliki', many: '%d plików', other: '%d pliku' } },
+      },
+    ]);
+
+    expect(output).toContain('<string>%#@files@ pozostało</string>');
+    expect(output).toContain('<key>NSStringFormatValueTypeKey</key>\n            <string>d</string>');
+    expect(parseStringsdict(output)[0].variables[0].forms).toEqual({
+      one: '%d plik',
+      few: '%d pliki',
+      many: '%d plików',
+      other: '%d pliku',
+    });
+  });
+});
+
+describe('translateAppleStrings', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('translates .strings files with comments as context', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        fr: { str0: 'Bienvenue, %@ !', str1: '%1$@ sur %2$@ « fichiers » envoyés', str2: 'Rien\npour le moment' },
+      }),
+    });
+
+    const result = await client.translateAppleStrings({
+      content: STRINGS,
+      sourceLanguage: 'en',
+      targetLanguages: ['fr'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.parse(body.text)).toEqual({
+      str0: 'Welcome, %@!',
+      str1: 'Uploaded %1$@ of %2$@ "files"',
+      str2: 'Nothing here\nyet',
+    });
+    expect(body.contextAnnotations).toEqual({ str0: 'Title of the welcome screen', str1: 'Shown when uploading' });
+
+    expect(result.translations.fr).toBe(`/* Title of the welcome screen */
+"Welcome" = "Bienvenue, %@ !";
+
+// Shown when uploading
+"upload.progress" = "%1$@ sur %2$@ « fichiers » envoyés";
+
+"empty" = "Rien\\npour le moment";
+`);
+  });
+
+  it('detects .stringsdict files and translates format keys and plural variants', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        ru: {
+          entry0: {
+            format: 'Осталось {{tag_0}}',
+            var_files_one: '%d файл',
+            var_files_few: '%d файла',
+            var_files_many: '%d файлов',
+            var_files_other: '%d файла',
+          },
+        },
+      }),
+    });
+
+    const result = await client.translateAppleStrings({
+      content: STRINGSDICT,
+      sourceLanguage: 'en',
+      targetLanguages: ['ru'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.parse(body.text)).toEqual({
+      entry0: { format: '{{tag_0}} remaining', var_files_one: '%d file', var_files_other: '%d files' },
+    });
+    expect(body.contextAnnotations['entry0.format']).toBe('%d files remaining');
+
+    const [entry] = parseStringsdict(result.translations.ru!);
+    expect(entry.format).toBe('Осталось %#@files@');
+    expect(Object.keys(entry.variables[0].forms)).toEqual(['one', 'few', 'many', 'other']);
+  });
+});
@@ -0,0 +1,199 @@
+import { Shipi18n, createBatches, mergeTranslationResults } from '../index';
+
+describe('createBatches', () => {
+  it('returns a single batch when content fits the limits', () => {
+    const content = { a: 'A', b: { c: 'C' } };
+    expect(createBatches(content)).toEqual([content]);
+  });
+
+  it('splits by key count', () => {
+    const batches = createBatches({ a: 'A', b: 'B', c: 'C', d: 'D', e: 'E' }, { maxKeys: 2 });
+    expect(batches).toEqual([{ a: 'A', b: 'B' }, { c: 'C', d: 'D' }, { e: 'E' }]);
+  });
+
+  it('splits by byte size', () => {
+    const long = 'x'.repeat(60);
+    const batches = createBatches({ a: long, b: long, c: 'short' }, { maxBytes: 100 });
+    expect(batches).toEqual([{ a: long }, { b: long, c: 'short' }]);
+  });
+
+  it('keeps namespaces together when grouping by namespace', () => {
+    const content = {
+      common: { a: 'A', b: 'B' },
+      checkout: { c: 'C', d: 'D' },
+    };
+
+    expect(createBatches(content, { maxKeys: 3 })).toEqual([
+      { common: { a: 'A', b: 'B' }, checkout: { c: 'C' } },
+      { checkout: { d: 'D' } },
+    ]);
+    expect(createBatches(content, { maxKeys: 3, groupByNamespace: true })).toEqual([
+      { common: { a: 'A', b: 'B' } },
+      { checkout: { c: 'C', d: 'D' } },
+    ]);
+  });
+
+  it('splits an oversized namespace without mixing in other namespaces', () => {
+    const content = {
+      big: { a: 'A', b: 'B', c: 'C' },
+      small: { d: 'D' },
+    };
+
+    expect(createBatches(content, { maxKeys: 2, groupByNamespace: true })).toEqual([
+      { big: { a: 'A', b: 'B' } },
+      { big: { c: 'C' } },
+      { small: { d: 'D' } },
+    ]);
+  });
+
+  it('keeps keys containing dots as single keys', () => {
+    expect(createBatches({ 'errors.required': 'R', form: { 'a.b': 'X' } }, { maxKeys: 1 })).toEqual([
+      { 'errors.required': 'R' },
+      { form: { 'a.b': 'X' } },
+    ]);
+  });
+});
+
+describe('mergeTranslationResults', () => {
+  it('deep-merges languages and combines metadata', () => {
+    const merged = mergeTranslationResults([
+      {
+        es: { common: { a: 'A-es' } },
+        skipped: { count: 1, keys: ['brand'] },
+        contextEnhanced: { count: 1, keys: ['common.a'] },
+        warnings: [{ type: 'legal_content', message: 'one' }],
+        fallbackInfo: {
+          used: true,
+          languagesFallbackToSource: ['fr'],
+          regionalFallbacks: {},
+          keysFallback: { es: ['common.x'] },
+        },
+        namespaceInfo: { detected: true, count: 1, namespaces: [{ name: 'common', keyCount: 1 }] },
+      },
+      {
+        es: { common: { b: 'B-es' }, checkout: { c: 'C-es' } },
+        skipped: { count: 2, keys: ['states.CA', 'states.NY'] },
+        warnings: [{ type: 'legal_content', message: 'two' }],
+        fallbackInfo: {
+          used: true,
+          languagesFallbackToSource: ['fr'],
+          regionalFallbacks: { 'pt-BR': 'pt' },
+          keysFallback: { es: ['checkout.y'] },
+        },
+        namespaceInfo: {
+          detected: true,
+          count: 2,
+          namespaces: [{ name: 'common', keyCount: 1 }, { name: 'checkout', keyCount: 1 }],
+        },
+      },
+    ]);
+
+    expect(merged.es).toEqual({ common: { a: 'A-es', b: 'B-es' }, checkout: { c: 'C-es' } });
+    expect(merged.skipped).toEqual({ count: 3, keys: ['brand', 'states.CA', 'states.NY'] });
+    expect(merged.contextEnhanced).toEqual({ count: 1, keys: ['common.a'] });
+    expect(merged.warnings).toHaveLength(2);
+    expect(merged.fallbackInfo).toEqual({
+      used: true,
+      languagesFallbackToSource: ['fr'],
+      regionalFallbacks: { 'pt-BR': 'pt' },
+      keysFallback: { es: ['common.x', 'checkout.y'] },
+    });
+    expect(merged.namespaceInfo).toEqual({
+      detected: true,
+      count: 2,
+      namespaces: [{ name: 'common', keyCount: 2 }, { name: 'checkout', keyCount: 1 }],
+    });
+  });
+});
+
+describe('translateJSON batching', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn().mockImplementation((_url: string, options: { body: string }) => {
+      const body = JSON.parse(options.body);
+      const batch = JSON.parse(body.text);
+      const translated = JSON.parse(JSON.stringify(batch).replace(/"([A-Z])"/g, '"$1-es"'));
+      return Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({
+          es: translated,
+          contextEnhanced: {
+            count: Object.keys(body.contextAnnotations).length,
+            keys: Object.keys(body.contextAnnotations),
+          },
+        }),
+      });
+    });
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('sends one request per batch and merges the results', async () => {
+    const result = await client.translateJSON({
+      content: { a: 'A', b: 'B', c: 'C' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+      groupByNamespace: 'false',
+      contextAnnotations: { c: 'letter' },
+      batching: { maxKeys: 2 },
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(result.translations.es).toEqual({ a: 'A-es', b: 'B-es', c: 'C-es' });
+    expect(result.contextEnhanced).toEqual({ count: 1, keys: ['c'] });
+
+    const firstBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(firstBody.contextAnnotations).toEqual({});
+  });
+
+  it('returns the same shape for dotted keys whether or not content is batched', async () => {
+    const content = { 'errors.required': 'R', errors: { min: 'M' } };
+    const request = (batching: { maxKeys: number } | false) =>
+      client.translateJSON({ content, sourceLanguage: 'en', targetLanguages: ['es'], batching });
+
+    const batched = await request({ maxKeys: 1 });
+    const single = await request(false);
+
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect(batched.translations.es).toEqual({ 'errors.required': 'R-es', errors: { min: 'M-es' } });
+    expect(batched.translations.es).toEqual(single.translations.es);
+  });
+
+  it('limits the number of requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const original = (global.fetch as jest.Mock).getMockImplementation()!;
+    (global.fetch as jest.Mock).mockImplementation(async (...args: unknown[]) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return original(...args);
+    });
+
+    await client.translateJSON({
+      content: { a: 'A', b: 'B', c: 'C', d: 'D', e: 'E' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+      batching: { maxKeys: 1, concurrency: 2 },
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(5);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('sends a single request when batching is disabled', async () => {
+    await client.translateJSON({
+      content: { a: 'A', b: 'B', c: 'C' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+      batching: false,
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
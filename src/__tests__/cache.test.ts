@@ -0,0 +1,273 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileCache, MemoryCache, Shipi18n, createCacheKey } from '../index';
+
+const okResponse = (body: unknown) => ({
+  ok: true,
+  json: () => Promise.resolve(body),
+});
+
+describe('MemoryCache', () => {
+  it('evicts the least recently used entry', () => {
+    const cache = new MemoryCache({ maxEntries: 2 });
+    cache.set('a', 'A');
+    cache.set('b', 'B');
+    cache.get('a');
+    cache.set('c', 'C');
+
+    expect(cache.get('a')).toBe('A');
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe('C');
+    expect(cache.size).toBe(2);
+  });
+
+  it('deletes entries', () => {
+    const cache = new MemoryCache();
+    cache.set('a', 'A');
+    cache.delete('a');
+    expect(cache.get('a')).toBeUndefined();
+  });
+});
+
+describe('FileCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'shipi18n-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists entries on flush and reloads them', async () => {
+    const file = path.join(dir, 'cache.json');
+    const cache = new FileCache(file);
+
+    expect(await cache.get('a')).toBeUndefined();
+    await cache.set('a', 'A');
+    await cache.flush();
+
+    const reloaded = new FileCache(file);
+    expect(await reloaded.get('a')).toBe('A');
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))).toEqual({ a: 'A' });
+  });
+});
+
+describe('createCacheKey', () => {
+  it('distinguishes options and context', () => {
+    const base = {
+      text: 'Close',
+      sourceLanguage: 'en',
+      targetLanguage: 'es',
+      htmlHandling: 'none',
+      preservePlaceholders: true,
+    };
+
+    expect(createCacheKey(base)).toBe(createCacheKey({ ...base }));
+    expect(createCacheKey(base)).not.toBe(createCacheKey({ ...base, context: 'button' }));
+    expect(createCacheKey(base)).not.toBe(createCacheKey({ ...base, htmlHandling: 'strip' }));
+    expect(createCacheKey(base)).not.toBe(createCacheKey({ ...base, targetLanguage: 'fr' }));
+  });
+});
+
+describe('translateJSON with cache', () => {
+  let client: Shipi18n;
+  let cache: MemoryCache;
+
+  beforeEach(() => {
+    cache = new MemoryCache();
+    client = new Shipi18n({ apiKey: 'test-key', cache });
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('serves hits locally and only requests misses', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(okResponse({ es: { greeting: 'Hola', nav: { home: 'Inicio' } } }))
+      .mockResolvedValueOnce(okResponse({ es: { farewell: 'Adiós' } }));
+
+    const first = await client.translateJSON({
+      content: { greeting: 'Hello', nav: { home: 'Home' } },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+    expect(first.cache).toEqual({ hits: 0, misses: 2 });
+
+    const second = await client.translateJSON({
+      content: { greeting: 'Hello', nav: { home: 'Home' }, farewell: 'Goodbye' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+    expect(JSON.parse(body.text)).toEqual({ farewell: 'Goodbye' });
+    expect(second.translations.es).toEqual({ greeting: 'Hola', nav: { home: 'Inicio' }, farewell: 'Adiós' });
+    expect(second.cache).toEqual({ hits: 2, misses: 1 });
+  });
+
+  it('makes no request when everything is cached', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(okResponse({ es: { greeting: 'Hola' } }));
+
+    const options = { content: { greeting: 'Hello' }, sourceLanguage: 'en', targetLanguages: ['es'] };
+    await client.translateJSON(options);
+    const result = await client.translateJSON(options);
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(result.translations.es).toEqual({ greeting: 'Hola' });
+    expect(result.cache).toEqual({ hits: 1, misses: 0 });
+  });
+
+  it('serves keys containing dots from the cache', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(
+      okResponse({ es: { 'nav.home': 'Inicio', nav: { about: 'Acerca de' } } })
+    );
+
+    const options = {
+      content: { 'nav.home': 'Home', nav: { about: 'About' } },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    };
+    await client.translateJSON(options);
+    const result = await client.translateJSON(options);
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(result.translations.es).toEqual({ 'nav.home': 'Inicio', nav: { about: 'Acerca de' } });
+    expect(result.cache).toEqual({ hits: 2, misses: 0 });
+  });
+
+  it('makes no request when only values without text are left', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(okResponse({ es: { greeting: 'Hola', max: 5, enabled: true } }));
+
+    const options = {
+      content: { greeting: 'Hello', max: 5, enabled: true },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    };
+    await client.translateJSON(options);
+    const result = await client.translateJSON(options);
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(result.translations.es).toEqual({ greeting: 'Hola', max: 5, enabled: true });
+    expect(result.fallbackInfo?.used).toBeFalsy();
+  });
+
+  it('keys entries on context annotations', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(okResponse({ es: { close: 'Cerca' } }))
+      .mockResolvedValueOnce(okResponse({ es: { close: 'Cerrar' } }));
+
+    await client.translateJSON({ content: { close: 'Close' }, sourceLanguage: 'en', targetLanguages: ['es'] });
+    const result = await client.translateJSON({
+      content: { close: 'Close' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+      contextAnnotations: { close: 'button - dismiss window' },
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(result.translations.es).toEqual({ close: 'Cerrar' });
+  });
+
+  it('does not cache skipped keys', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(
+      okResponse({ es: { brand: 'Acme', greeting: 'Hola' }, skipped: { count: 1, keys: ['brand'] } })
+    );
+
+    await client.translateJSON({
+      content: { brand: 'Acme', greeting: 'Hello' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+      skipKeys: ['brand'],
+    });
+
+    expect(cache.size).toBe(1);
+  });
+
+  it('requests each language only for the keys it misses', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(okResponse({ es: { greeting: 'Hola', farewell: 'Adiós' } }))
+      .mockResolvedValueOnce(okResponse({ fr: { greeting: 'Bonjour', farewell: 'Au revoir' } }));
+
+    await client.translateJSON({
+      content: { greeting: 'Hello', farewell: 'Goodbye' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+    const result = await client.translateJSON({
+      content: { greeting: 'Hello', farewell: 'Goodbye' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'fr'],
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+    expect(JSON.parse(body.targetLanguages)).toEqual(['fr']);
+    expect(JSON.parse(body.text)).toEqual({ greeting: 'Hello', farewell: 'Goodbye' });
+    expect(result.translations).toEqual({
+      es: { greeting: 'Hola', farewell: 'Adiós' },
+      fr: { greeting: 'Bonjour', farewell: 'Au revoir' },
+    });
+    expect(result.cache).toEqual({ hits: 2, misses: 2 });
+  });
+
+  it('does not cache translations that fail placeholder validation', async () => {
+    (global.fetch as jest.Mock).mockImplementation(() =>
+      Promise.resolve(okResponse({ es: { welcome: 'Bienvenido', greeting: 'Hola {{nombre}}' } }))
+    );
+
+    const options = {
+      content: { welcome: 'Welcome', greeting: 'Hello {{name}}' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+      placeholderValidation: 'fallback' as const,
+    };
+    const first = await client.translateJSON(options);
+    await client.translateJSON(options);
+
+    expect(first.translations.es).toEqual({ welcome: 'Bienvenido', greeting: 'Hello {{name}}' });
+    expect(cache.size).toBe(1);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body).text)).toEqual({
+      greeting: 'Hello {{name}}',
+    });
+  });
+});
+
+describe('translateText with cache', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key', cache: new MemoryCache() });
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('requests only uncached strings and keeps the original order', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(okResponse({ es: [{ original: 'Hello', translated: 'Hola' }] }))
+      .mockResolvedValueOnce(okResponse({ es: [{ original: 'Goodbye', translated: 'Adiós' }] }));
+
+    await client.translateText({ content: 'Hello', sourceLanguage: 'en', targetLanguages: ['es'] });
+    const result = await client.translateText({
+      content: ['Goodbye', 'Hello'],
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+    expect(body.text).toBe('Goodbye');
+    expect(result.translations.es).toEqual([
+      { original: 'Goodbye', translated: 'Adiós' },
+      { original: 'Hello', translated: 'Hola' },
+    ]);
+    expect(result.cache).toEqual({ hits: 1, misses: 1 });
+  });
+});
@@ -0,0 +1,161 @@
+import { LanguageCatalog, Shipi18n, Shipi18nError, getTextDirection } from '../index';
+
+const LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'sv', name: 'Swedish' },
+];
+
+const languagesResponse = () => ({ ok: true, json: () => Promise.resolve({ languages: LANGUAGES }) });
+
+describe('LanguageCatalog', () => {
+  it('describes languages and finds them by code or name', async () => {
+    const catalog = new LanguageCatalog(async () => ({ languages: LANGUAGES }));
+
+    await expect(catalog.get('es')).resolves.toEqual({
+      code: 'es',
+      name: 'Spanish',
+      nativeName: 'español',
+      direction: 'ltr',
+      pluralCategories: ['one', 'many', 'other'],
+    });
+    await expect(catalog.get('ar')).resolves.toMatchObject({ direction: 'rtl', nativeName: 'العربية' });
+    await expect(catalog.get('pt_br')).resolves.toMatchObject({ code: 'pt-BR' });
+    await expect(catalog.get('spanish')).resolves.toMatchObject({ code: 'es' });
+    await expect(catalog.get('Español')).resolves.toMatchObject({ code: 'es' });
+    await expect(catalog.get('tlh')).resolves.toBeUndefined();
+  });
+
+  it('caches the list for the TTL and shares concurrent loads', async () => {
+    jest.useFakeTimers();
+    try {
+      const load = jest.fn().mockResolvedValue({ languages: LANGUAGES });
+      const catalog = new LanguageCatalog(load, { ttl: 1000 });
+
+      await Promise.all([catalog.list(), catalog.list()]);
+      await catalog.get('es');
+      expect(load).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1001);
+      await catalog.list();
+      expect(load).toHaveBeenCalledTimes(2);
+
+      catalog.clear();
+      await catalog.list();
+      expect(load).toHaveBeenCalledTimes(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('retries loading after a failure', async () => {
+    const load = jest.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue({ languages: LANGUAGES });
+    const catalog = new LanguageCatalog(load);
+
+    await expect(catalog.list()).rejects.toThrow('offline');
+    await expect(catalog.list()).resolves.toHaveLength(LANGUAGES.length);
+  });
+
+  it('rejects an aborted caller without failing the others sharing the load', async () => {
+    let resolveLoad!: (value: { languages: typeof LANGUAGES }) => void;
+    const load = jest.fn(() => new Promise<{ languages: typeof LANGUAGES }>((resolve) => (resolveLoad = resolve)));
+    const catalog = new LanguageCatalog(load);
+    const controller = new AbortController();
+
+    const aborted = catalog.list({ signal: controller.signal });
+    const other = catalog.list();
+    controller.abort();
+    resolveLoad({ languages: LANGUAGES });
+
+    await expect(aborted).rejects.toMatchObject({ code: 'ABORTED' });
+    await expect(other).resolves.toHaveLength(LANGUAGES.length);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(load.mock.calls[0]).toEqual([{}]);
+  });
+
+  it('suggests close matches by name and code', async () => {
+    const catalog = new LanguageCatalog(async () => ({ languages: LANGUAGES }));
+
+    await expect(catalog.suggest('sp')).resolves.toEqual(['es', 'sv']);
+    await expect(catalog.suggest('Portu')).resolves.toEqual(['pt-BR']);
+  });
+
+  it('accepts tags covered by a supported parent and rejects the rest', async () => {
+    const catalog = new LanguageCatalog(async () => ({ languages: LANGUAGES }));
+
+    await expect(catalog.assertSupported(['es-MX', 'pt_BR'])).resolves.toBeUndefined();
+
+    const error = await catalog.assertSupported(['es', 'sp', 'tlh']).catch((caught) => caught);
+    expect(error).toBeInstanceOf(Shipi18nError);
+    expect(error).toMatchObject({
+      code: 'UNSUPPORTED_LANGUAGE',
+      statusCode: 400,
+      message: 'Unsupported language: "sp" (did you mean es, sv?), "tlh"',
+      suggestions: { sp: ['es', 'sv'], tlh: [] },
+    });
+  });
+});
+
+describe('getTextDirection', () => {
+  it.each([
+    ['ar', 'rtl'],
+    ['he', 'rtl'],
+    ['fa-IR', 'rtl'],
+    ['ur', 'rtl'],
+    ['pa-Arab', 'rtl'],
+    ['pa', 'ltr'],
+    ['en', 'ltr'],
+  ])('%s is %s', (language, direction) => {
+    expect(getTextDirection(language)).toBe(direction);
+  });
+});
+
+describe('languageValidation', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('rejects unknown target languages before translating', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(languagesResponse());
+    const client = new Shipi18n({ apiKey: 'test-key', languageValidation: true });
+
+    await expect(
+      client.translateJSON({ content: { greeting: 'Hello' }, sourceLanguage: 'en', targetLanguages: ['sp'] })
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_LANGUAGE', suggestions: { sp: ['es', 'sv'] } });
+    await expect(
+      client.translateText({ content: 'Hello', sourceLanguage: 'en', targetLanguages: ['sp'] })
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_LANGUAGE' });
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toMatch(/\/api\/languages$/);
+  });
+
+  it('translates supported languages after one catalog request', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(languagesResponse())
+      .mockResolvedValue({ ok: true, json: () => Promise.resolve({ es: { greeting: 'Hola' } }) });
+    const client = new Shipi18n({ apiKey: 'test-key', languageValidation: true });
+
+    const options = { content: { greeting: 'Hello' }, sourceLanguage: 'en', targetLanguages: ['es'] };
+    await client.translateJSON(options);
+    const result = await client.translateJSON(options);
+
+    expect(result.translations.es).toEqual({ greeting: 'Hola' });
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not fetch the catalog unless enabled', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, json: () => Promise.resolve({ sp: { greeting: '?' } }) });
+    const client = new Shipi18n({ apiKey: 'test-key' });
+
+    await client.translateJSON({ content: { greeting: 'Hello' }, sourceLanguage: 'en', targetLanguages: ['sp'] });
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { checkLocales, findMissingKeys } from '../index';
+
+describe('findMissingKeys', () => {
+  it('finds undefined, null and empty values, recursing into objects', () => {
+    const source = { a: 'A', b: 'B', c: 'C', nested: { x: 'X', y: 'Y' }, gone: { z: 'Z' } };
+    const translation = { a: 'a', b: null, c: '', nested: { x: 'x' } };
+
+    expect(findMissingKeys(source, translation)).toEqual(['b', 'c', 'nested.y', 'gone']);
+  });
+});
+
+describe('checkLocales', () => {
+  const source = {
+    title: 'Welcome, {{name}}',
+    brand: 'Acme',
+    version: '2.0',
+    nav: { home: 'Home', about: 'About' },
+    items_one: '{{count}} item',
+    items_other: '{{count}} items',
+  };
+
+  it('passes complete translations', () => {
+    const report = checkLocales(source, {
+      de: {
+        title: 'Willkommen, {{name}}',
+        brand: 'Acme',
+        version: '2.0',
+        nav: { home: 'Startseite', about: 'Über uns' },
+        items_one: '{{count}} Artikel',
+        items_other: '{{count}} Artikel',
+      },
+    }, { skipKeys: ['brand'] });
+
+    expect(report.status).toBe('pass');
+    expect(report.exitCode).toBe(0);
+    expect(report.languages.de.issues).toEqual([]);
+  });
+
+  it('reports every issue type with a failing status', () => {
+    const report = checkLocales(source, {
+      sv: {
+        title: 'Välkommen, {{namn}}',
+        brand: 'Acme',
+        version: '2.0',
+        nav: 'Hem',
+        items_one: '',
+        items_other: '{{count}} artiklar',
+        legacy: 'Gammal',
+      },
+    });
+
+    const issues = report.languages.sv.issues;
+    expect(issues.map((issue) => [issue.type, issue.key, issue.severity])).toEqual([
+      ['type_mismatch', 'nav', 'error'],
+      ['empty', 'items_one', 'error'],
+      ['extra', 'legacy', 'warning'],
+      ['placeholder_mismatch', 'title', 'error'],
+      ['untranslated', 'brand', 'warning'],
+    ]);
+    expect(issues.find((issue) => issue.type === 'placeholder_mismatch')?.details).toEqual({
+      missing: ['{{name}}'],
+      extra: ['{{namn}}'],
+    });
+    expect(report.status).toBe('fail');
+    expect(report.exitCode).toBe(1);
+    expect(report.counts).toEqual({
+      missing: 0,
+      extra: 1,
+      untranslated: 1,
+      empty: 1,
+      type_mismatch: 1,
+      placeholder_mismatch: 1,
+    });
+  });
+
+  it('applies each language plural rules', () => {
+    const report = checkLocales(source, {
+      ja: { title: 'ようこそ、{{name}}', nav: { home: 'ホーム', about: '概要' }, items_other: '{{count}} 件' },
+      ru: {
+        title: 'Добро пожаловать, {{name}}',
+        nav: { home: 'Главная', about: 'О нас' },
+        items_one: '{{count}} элемент',
+        items_few: '{{count}} элемента',
+        items_other: '{{count}} элементов',
+      },
+    }, { skipKeys: ['brand', 'version'] });
+
+    expect(report.languages.ja.issues).toEqual([]);
+    expect(report.languages.ru.issues).toEqual([
+      {
+        type: 'missing',
+        key: 'items_many',
+        severity: 'error',
+        message: 'Missing plural form "many" for "items" in ru',
+      },
+    ]);
+  });
+
+  it('fails on warnings in strict mode and honors severity overrides', () => {
+    const translations = { nl: { ...source, nav: { home: 'Start', about: 'Over ons' }, title: 'Welkom, {{name}}' } };
+
+    expect(checkLocales(source, translations).status).toBe('warn');
+    expect(checkLocales(source, translations).exitCode).toBe(0);
+    expect(checkLocales(source, translations, { strict: true }).exitCode).toBe(1);
+    expect(checkLocales(source, translations, { severity: { untranslated: 'off' } }).status).toBe('pass');
+  });
+});
@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EXIT_CODES, getExitCode, parseArgs, runCli } from '../cli';
+import { Shipi18nError } from '../errors';
+
+describe('parseArgs', () => {
+  it('parses positionals, value flags, boolean flags and negations', () => {
+    expect(parseArgs(['translate', 'en.json', '-t', 'es,fr', '--from=en', '--json', '--no-pluralization'])).toEqual({
+      positionals: ['translate', 'en.json'],
+      flags: { to: 'es,fr', from: 'en', json: true, pluralization: false },
+    });
+  });
+
+  it('rejects unknown options and missing values', () => {
+    expect(() => parseArgs(['--skip-key', 'a'])).toThrow('Unknown option: --skip-key');
+    expect(() => parseArgs(['--to'])).toThrow('Option --to requires a value');
+  });
+});
+
+describe('getExitCode', () => {
+  it('maps error codes to exit codes', () => {
+    expect(getExitCode(new Shipi18nError('', 401, 'INVALID_API_KEY'))).toBe(EXIT_CODES.AUTH);
+    expect(getExitCode(new Shipi18nError('', 429, 'RATE_LIMITED'))).toBe(EXIT_CODES.RATE_LIMITED);
+    expect(getExitCode(new Shipi18nError('', 402, 'QUOTA_EXCEEDED'))).toBe(EXIT_CODES.QUOTA);
+    expect(getExitCode(new Shipi18nError('', 408, 'TIMEOUT'))).toBe(EXIT_CODES.NETWORK);
+    expect(getExitCode(new Shipi18nError('', 500, 'API_ERROR'))).toBe(EXIT_CODES.API);
+    expect(getExitCode(new Error('boom'))).toBe(EXIT_CODES.FAILURE);
+  });
+});
+
+describe('runCli', () => {
+  let dir: string;
+  let stdout: string;
+  let stderr: string;
+
+  const run = (argv: string[], env: Record<string, string> = { SHIPI18N_API_KEY: 'env-key' }) =>
+    runCli(argv, {
+      env,
+      cwd: dir,
+      stdout: (text) => (stdout += text),
+      stderr: (text) => (stderr += text),
+    });
+
+  const write = (file: string, content: unknown) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shipi18n-cli-'));
+    stdout = '';
+    stderr = '';
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('translates a file with the API key from the environment and passes option flags', async () => {
+    write('en.json', { title: 'Hello', brand: 'Acme' });
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ es: { title: 'Hola', brand: 'Acme' } }),
+    });
+
+    const code = await run([
+      'translate', 'en.json', '--from', 'en', '--to', 'es',
+      '--skip-keys', 'brand', '--skip-paths', 'legal.*', '--html-handling', 'strip', '--output', 'out/{lng}.json',
+    ]);
+
+    expect(code).toBe(EXIT_CODES.OK);
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(init.headers['x-api-key']).toBe('env-key');
+    expect(body).toMatchObject({ skipKeys: ['brand'], skipPaths: ['legal.*'], htmlHandling: 'strip' });
+    expect(JSON.parse(fs.readFileSync(path.join(dir, 'out/es.json'), 'utf8'))).toEqual({ title: 'Hola', brand: 'Acme' });
+    expect(stdout).toBe(`wrote ${path.join('out', 'es.json')}\n`);
+  });
+
+  it('reads the API key from a config file and prints languages as JSON', async () => {
+    write('.shipi18nrc.json', { apiKey: 'config-key' });
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ languages: [{ code: 'es', name: 'Spanish' }] }),
+    });
+
+    const code = await run(['languages', '--json'], {});
+
+    expect(code).toBe(EXIT_CODES.OK);
+    expect((global.fetch as jest.Mock).mock.calls[0][1].headers['x-api-key']).toBe('config-key');
+    expect(JSON.parse(stdout)).toEqual([{ code: 'es', name: 'Spanish' }]);
+  });
+
+  it('exits with the code mapped from API errors', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      json: () => Promise.resolve({ message: 'Invalid API key', code: 'INVALID_API_KEY' }),
+    });
+
+    const code = await run(['languages']);
+
+    expect(code).toBe(EXIT_CODES.AUTH);
+    expect(stderr).toBe('Error [INVALID_API_KEY]: Invalid API key\n');
+  });
+
+  it('writes source content and warns with --on-error fallback', async () => {
+    write('en.json', { title: 'Hello' });
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 402,
+      statusText: 'Payment Required',
+      json: () => Promise.resolve({ message: 'Quota exceeded', code: 'QUOTA_EXCEEDED' }),
+    });
+
+    const code = await run(['translate', 'en.json', '-s', 'en', '-t', 'es', '-o', '{lng}.json', '--on-error', 'fallback']);
+
+    expect(code).toBe(EXIT_CODES.OK);
+    expect(JSON.parse(fs.readFileSync(path.join(dir, 'es.json'), 'utf8'))).toEqual({ title: 'Hello' });
+    expect(stdout).toContain('warning: Translation failed, using fallback content: Quota exceeded\n');
+  });
+
+  it('reports missing API keys and usage errors', async () => {
+    write('en.json', { title: 'Hello' });
+
+    expect(await run(['translate', 'en.json', '--from', 'en', '--to', 'es'], {})).toBe(EXIT_CODES.AUTH);
+    expect(await run(['translate', 'en.json', '--from', 'en'])).toBe(EXIT_CODES.USAGE);
+    expect(await run(['publish'])).toBe(EXIT_CODES.USAGE);
+    expect(stderr).toContain('Error [USAGE]: Unknown command: publish');
+  });
+
+  it('syncs a locales directory', async () => {
+    write('locales/en/common.json', { title: 'Hello' });
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ de: { common: { title: 'Hallo' } } }),
+    });
+
+    const code = await run(['sync', '--dir', 'locales', '--from', 'en', '--to', 'de']);
+
+    expect(code).toBe(EXIT_CODES.OK);
+    expect(JSON.parse(fs.readFileSync(path.join(dir, 'locales/de/common.json'), 'utf8'))).toEqual({ title: 'Hallo' });
+    expect(stdout).toBe(`created   ${path.join('de', 'common.json')} (1 translated, 0 kept)\n`);
+  });
+
+  it('passes check with warnings unless --strict is set', async () => {
+    write('locales/en.json', { title: 'Hello', brand: 'Acme' });
+    write('locales/fr.json', { title: 'Bonjour', brand: 'Acme' });
+    const argv = ['check', '--dir', 'locales', '--layout', '{lng}.json', '--from', 'en', '--to', 'fr'];
+
+    expect(await run(argv, {})).toBe(EXIT_CODES.OK);
+    expect(stdout).toBe('warn  fr.json\n  warning "brand" is identical to the source\n');
+    expect(await run([...argv, '--strict'], {})).toBe(EXIT_CODES.FAILURE);
+    expect(await run([...argv, '--strict', '--skip-keys', 'brand'], {})).toBe(EXIT_CODES.OK);
+  });
+
+  it('checks locale files offline and fails on errors', async () => {
+    write('locales/en.json', { title: 'Hello', body: 'Text' });
+    write('locales/fr.json', { title: 'Bonjour' });
+
+    const code = await run(['check', '--dir', 'locales', '--layout', '{lng}.json', '--from', 'en', '--to', 'fr', '--json'], {});
+
+    expect(code).toBe(EXIT_CODES.FAILURE);
+    expect(global.fetch).not.toHaveBeenCalled();
+    const report = JSON.parse(stdout);
+    expect(report.ok).toBe(false);
+    expect(report.files).toHaveLength(1);
+    expect(report.files[0]).toMatchObject({ file: 'fr.json', language: 'fr', status: 'fail', counts: { missing: 1 } });
+    expect(report.files[0].issues[0]).toMatchObject({ type: 'missing', key: 'body' });
+  });
+
+  it('fails check with a usage error when no source files are found', async () => {
+    write('locales/fr.json', { title: 'Bonjour' });
+
+    const code = await run(['check', '--dir', 'locales', '--layout', '{lng}/{ns}.json', '--from', 'en', '--to', 'fr'], {});
+
+    expect(code).toBe(EXIT_CODES.USAGE);
+    expect(stdout).toBe('');
+    expect(stderr).toContain('No en locale files found in');
+  });
+});
@@ -0,0 +1,93 @@
+import { Shipi18n, estimateJSON } from '../index';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+describe('estimateJSON', () => {
+  const content = {
+    greeting: 'Hello',
+    farewell: 'Goodbye',
+    nav: { home: 'Home', back: 'Hello' },
+    brand: 'Acme',
+    states: { CA: 'California', NY: 'New York' },
+    tags: ['new', 'sale'],
+    count: 3,
+    empty: '',
+  };
+
+  it('lists the keys that would be sent and skips matched paths', () => {
+    const estimate = estimateJSON({
+      content,
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+      skipKeys: ['brand'],
+      skipPaths: ['states.*'],
+    });
+
+    expect(estimate.keys).toEqual(['greeting', 'farewell', 'nav.home', 'nav.back', 'tags']);
+    expect(estimate.skippedKeys).toEqual(['brand', 'states.CA', 'states.NY']);
+  });
+
+  it('dedupes identical strings and counts characters', () => {
+    const estimate = estimateJSON({ content, sourceLanguage: 'en', targetLanguages: ['es', 'fr'], skipKeys: ['brand'], skipPaths: ['states.*'] });
+
+    // Hello, Goodbye, Home, new, sale ("Hello" appears twice)
+    expect(estimate.uniqueStrings).toBe(5);
+    expect(estimate.characters.perLanguage).toBe(5 + 7 + 4 + 5 + 3 + 4);
+    expect(estimate.characters.unique).toBe(5 + 7 + 4 + 3 + 4);
+    expect(estimate.characters.total).toBe(estimate.characters.perLanguage * 2);
+    expect(estimate.totalKeys).toBe(10);
+    expect(estimate.totalUniqueStrings).toBe(10);
+  });
+
+  it('counts the base language added for regional variants', () => {
+    const estimate = estimateJSON({ content: { a: 'A' }, sourceLanguage: 'en', targetLanguages: ['pt-BR', 'es'] });
+
+    expect(estimate.targetLanguages).toEqual(expect.arrayContaining(['pt', 'pt-BR', 'es']));
+    expect(estimate.targetLanguages).toHaveLength(3);
+    expect(estimate.totalKeys).toBe(3);
+
+    const noRegional = estimateJSON({
+      content: { a: 'A' },
+      sourceLanguage: 'en',
+      targetLanguages: ['pt-BR'],
+      fallback: { regionalFallback: false },
+    });
+    expect(noRegional.targetLanguages).toEqual(['pt-BR']);
+  });
+
+  it('accepts JSON string content', () => {
+    const estimate = estimateJSON({ content: '{"a":{"b":"Text"}}', sourceLanguage: 'en', targetLanguages: ['de'] });
+    expect(estimate.keys).toEqual(['a.b']);
+  });
+});
+
+describe('dryRun', () => {
+  const shipi18n = new Shipi18n({ apiKey: 'test-key' });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('returns an estimate without calling the API', async () => {
+    const result = await shipi18n.translateJSON({
+      content: { greeting: 'Hello', brand: 'Acme' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'fr'],
+      skipKeys: ['brand'],
+      dryRun: true,
+    });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(result.translations).toEqual({});
+    expect(result.estimate?.keys).toEqual(['greeting']);
+    expect(result.estimate?.totalKeys).toBe(2);
+  });
+
+  it('is available as a client method', () => {
+    const estimate = shipi18n.estimateJSON({ content: { a: 'A', b: 'B' }, sourceLanguage: 'en', targetLanguages: ['ja'] });
+
+    expect(estimate.totalKeys).toBe(2);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
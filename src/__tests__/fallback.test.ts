@@ -0,0 +1,161 @@
+import { Shipi18n, planFallbacks } from '../index';
+
+const respond = (body: unknown) =>
+  (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(body) });
+
+const requestedLanguages = (call = 0) =>
+  JSON.parse(JSON.parse((global.fetch as jest.Mock).mock.calls[call][1].body).targetLanguages);
+
+describe('planFallbacks', () => {
+  it('chains the regional base, fallbackLanguage and the source', () => {
+    expect(planFallbacks(['pt-BR', 'fr'], 'en', { fallbackLanguage: 'en-GB' })).toEqual({
+      requestLanguages: ['pt', 'pt-BR', 'fr', 'en-GB'],
+      chains: { 'pt-BR': ['pt', 'en-GB', 'en'], fr: ['en-GB', 'en'] },
+    });
+  });
+
+  it('uses explicit chains instead of the regional base', () => {
+    const plan = planFallbacks(['es-MX'], 'en', { chains: { 'es-MX': ['es-419', 'es'] }, fallbackToSource: false });
+
+    expect(plan.chains).toEqual({ 'es-MX': ['es-419', 'es'] });
+    expect(plan.requestLanguages).toEqual(['es', 'es-MX', 'es-419']);
+  });
+
+  it('drops the target itself and duplicate spellings from chains', () => {
+    const plan = planFallbacks(['pt-BR'], 'en', { chains: { 'pt-BR': ['pt_BR', 'pt', 'PT'] }, regionalFallback: false });
+
+    expect(plan.chains['pt-BR']).toEqual(['pt', 'en']);
+  });
+});
+
+describe('fallback chains', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('requests fallbackLanguage and fills missing keys from it', async () => {
+    respond({
+      'en-AU': { greeting: "G'day" },
+      'en-GB': { greeting: 'Hello', colour: 'Colour' },
+    });
+
+    const result = await client.translateJSON({
+      content: { greeting: 'Hello', colour: 'Color', title: 'Title' },
+      sourceLanguage: 'en',
+      targetLanguages: ['en-AU'],
+      fallback: { fallbackLanguage: 'en-GB', regionalFallback: false },
+    });
+
+    expect(requestedLanguages()).toEqual(['en-AU', 'en-GB']);
+    expect(result.translations).toEqual({ 'en-AU': { greeting: "G'day", colour: 'Colour', title: 'Title' } });
+    expect(result.fallbackInfo?.keysFallback).toEqual({ 'en-AU': ['colour', 'title'] });
+    expect(result.fallbackInfo?.keysFallbackFrom).toEqual({ 'en-AU': { colour: 'en-GB', title: 'en' } });
+  });
+
+  it('follows explicit chains for missing languages and keys', async () => {
+    respond({
+      'es-419': { nav: { home: 'Inicio' } },
+      es: { nav: { home: 'Inicio (ES)', about: 'Acerca de' } },
+    });
+
+    const result = await client.translateJSON({
+      content: { nav: { home: 'Home', about: 'About' } },
+      sourceLanguage: 'en',
+      targetLanguages: ['es-MX'],
+      fallback: { chains: { 'es-MX': ['es-419', 'es'] } },
+    });
+
+    expect(result.translations['es-MX']).toEqual({ nav: { home: 'Inicio', about: 'Acerca de' } });
+    expect(result.fallbackInfo).toMatchObject({
+      used: true,
+      languagesFallbackToSource: [],
+      regionalFallbacks: { 'es-MX': 'es-419' },
+      keysFallbackFrom: { 'es-MX': { 'nav.about': 'es' } },
+    });
+  });
+
+  it('leaves languages missing when the chain has no content', async () => {
+    respond({ es: { greeting: 'Hola' } });
+
+    const result = await client.translateJSON({
+      content: { greeting: 'Hello' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'fr'],
+      fallback: { fallbackToSource: false },
+    });
+
+    expect(result.translations).toEqual({ es: { greeting: 'Hola' } });
+    expect(result.fallbackInfo).toBeUndefined();
+  });
+
+  describe('translateText', () => {
+    it('falls back to the source for missing languages and lines', async () => {
+      respond({ es: [{ original: 'Hello', translated: 'Hola' }] });
+
+      const result = await client.translateText({
+        content: ['Hello', 'Goodbye'],
+        sourceLanguage: 'en',
+        targetLanguages: ['es', 'fr'],
+      });
+
+      expect(result.translations.es).toEqual([
+        { original: 'Hello', translated: 'Hola' },
+        { original: 'Goodbye', translated: 'Goodbye' },
+      ]);
+      expect(result.translations.fr).toEqual([
+        { original: 'Hello', translated: 'Hello' },
+        { original: 'Goodbye', translated: 'Goodbye' },
+      ]);
+      expect(result.fallbackInfo).toMatchObject({
+        languagesFallbackToSource: ['fr'],
+        keysFallback: { es: ['Goodbye'] },
+      });
+    });
+
+    it('requests the regional base and uses its translations', async () => {
+      respond({
+        'pt-BR': [{ original: 'Hello', translated: 'Oi' }],
+        pt: [
+          { original: 'Hello', translated: 'Olá' },
+          { original: 'Goodbye', translated: 'Adeus' },
+        ],
+      });
+
+      const result = await client.translateText({
+        content: 'Hello\nGoodbye',
+        sourceLanguage: 'en',
+        targetLanguages: ['pt-BR'],
+      });
+
+      expect(requestedLanguages()).toEqual(['pt', 'pt-BR']);
+      expect(result.translations).toEqual({
+        'pt-BR': [
+          { original: 'Hello', translated: 'Oi' },
+          { original: 'Goodbye', translated: 'Adeus' },
+        ],
+      });
+      expect(result.fallbackInfo?.keysFallbackFrom).toEqual({ 'pt-BR': { Goodbye: 'pt' } });
+    });
+
+    it('skips fallbacks when fallbackToSource is disabled', async () => {
+      respond({ es: [{ original: 'Hello', translated: 'Hola' }] });
+
+      const result = await client.translateText({
+        content: ['Hello', 'Goodbye'],
+        sourceLanguage: 'en',
+        targetLanguages: ['es'],
+        fallback: { fallbackToSource: false },
+      });
+
+      expect(result.translations.es).toEqual([{ original: 'Hello', translated: 'Hola' }]);
+      expect(result.fallbackInfo).toBeUndefined();
+    });
+  });
+});
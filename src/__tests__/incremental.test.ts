@@ -0,0 +1,131 @@
+import { Shipi18n, diffSourceContent } from '../index';
+
+describe('diffSourceContent', () => {
+  it('reports added, changed, removed and unchanged keys', () => {
+    const changes = diffSourceContent(
+      { greeting: 'Hello', nav: { home: 'Home', about: 'About' }, old: 'Old' },
+      { greeting: 'Hello', nav: { home: 'Homepage', contact: 'Contact' } }
+    );
+
+    expect(changes).toEqual({
+      added: ['nav.contact'],
+      changed: ['nav.home'],
+      removed: ['nav.about', 'old'],
+      unchanged: ['greeting'],
+    });
+  });
+
+  it('treats a key turning from object into string as removed and added', () => {
+    const changes = diffSourceContent({ title: { short: 'T' } }, { title: 'Title' });
+
+    expect(changes.added).toEqual(['title']);
+    expect(changes.removed).toEqual(['title.short']);
+  });
+});
+
+describe('translateJSONIncremental', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('sends only the delta and merges it into previous outputs', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        es: { nav: { home: 'Inicio', contact: 'Contacto' } },
+      }),
+    });
+
+    const result = await client.translateJSONIncremental({
+      previousContent: { greeting: 'Hello', nav: { home: 'Home', about: 'About' } },
+      previousTranslations: {
+        es: { greeting: 'Hola (edited)', nav: { home: 'Casa', about: 'Acerca de' } },
+      },
+      content: { greeting: 'Hello', nav: { home: 'Homepage', contact: 'Contact' } },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.parse(body.text)).toEqual({ nav: { home: 'Homepage', contact: 'Contact' } });
+
+    expect(result.translations.es).toEqual({
+      greeting: 'Hola (edited)',
+      nav: { home: 'Inicio', contact: 'Contacto' },
+    });
+    expect(result.changes.removed).toEqual(['nav.about']);
+    expect(result.translatedKeys.es).toEqual(['nav.contact', 'nav.home']);
+  });
+
+  it('translates every key for a language without previous output', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        es: { b: 'B-es' },
+        fr: { a: 'A-fr', b: 'B-fr' },
+      }),
+    });
+
+    const result = await client.translateJSONIncremental({
+      previousContent: { a: 'A' },
+      previousTranslations: { es: { a: 'A-es' } },
+      content: { a: 'A', b: 'B' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'fr'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.parse(body.text)).toEqual({ a: 'A', b: 'B' });
+    expect(result.translations).toEqual({
+      es: { a: 'A-es', b: 'B-es' },
+      fr: { a: 'A-fr', b: 'B-fr' },
+    });
+  });
+
+  it('leaves out fallback content, so dropped languages and keys are requested again', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        es: { b: 'B-es' },
+      }),
+    });
+
+    const result = await client.translateJSONIncremental({
+      previousContent: { a: 'A', b: 'B' },
+      previousTranslations: { es: { a: 'A-es', b: 'B-es-old' }, fr: { a: 'A-fr', b: 'B-fr-old' } },
+      content: { a: 'A', b: 'B2', c: 'C' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'fr'],
+    });
+
+    expect(result.delta?.fallbackInfo?.languagesFallbackToSource).toEqual(['fr']);
+    expect(result.translations).toEqual({
+      es: { a: 'A-es', b: 'B-es' },
+      fr: { a: 'A-fr' },
+    });
+  });
+
+  it('makes no request when nothing changed, but still prunes removed keys', async () => {
+    const previousTranslations = { es: { a: 'A-es', gone: 'Ido' } };
+
+    const result = await client.translateJSONIncremental({
+      previousContent: { a: 'A', gone: 'Gone' },
+      previousTranslations,
+      content: { a: 'A' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(result.translations.es).toEqual({ a: 'A-es' });
+    expect(result.delta).toBeUndefined();
+    expect(previousTranslations.es).toEqual({ a: 'A-es', gone: 'Ido' });
+  });
+});
@@ -148,7 +148,7 @@ describe('translateText', () => {
       targetLanguages: ['es'],
     });
 
-    expect(result.es).toEqual([{ original: 'Hello', translated: 'Hola' }]);
+    expect(result.translations.es).toEqual([{ original: 'Hello', translated: 'Hola' }]);
     const [, options] = (global.fetch as jest.Mock).mock.calls[0];
     const body = JSON.parse(options.body);
     expect(body.text).toBe('Hello');
@@ -172,7 +172,7 @@ describe('translateText', () => {
       targetLanguages: ['es'],
     });
 
-    expect(result.es).toHaveLength(2);
+    expect(result.translations.es).toHaveLength(2);
     const [, options] = (global.fetch as jest.Mock).mock.calls[0];
     const body = JSON.parse(options.body);
     expect(body.text).toBe('Hello\nGoodbye');
@@ -578,8 +578,8 @@ describe('Fallback language strategy', () => {
         fallback: { fallbackToSource: true },
       });
 
-      expect(result.es).toEqual({ greeting: 'Hola', farewell: 'Adiós' });
-      expect(result.fr).toEqual(sourceContent);
+      expect(result.translations.es).toEqual({ greeting: 'Hola', farewell: 'Adiós' });
+      expect(result.translations.fr).toEqual(sourceContent);
       expect(result.fallbackInfo).toBeDefined();
       expect((result.fallbackInfo as any).languagesFallbackToSource).toContain('fr');
     });
@@ -601,7 +601,7 @@ describe('Fallback language strategy', () => {
         fallback: { fallbackToSource: true },
       });
 
-      expect(result.es).toEqual({
+      expect(result.translations.es).toEqual({
         greeting: 'Hola',
         farewell: 'Goodbye', // filled from source
         title: 'Welcome', // filled from source
@@ -633,8 +633,8 @@ describe('Fallback language strategy', () => {
         fallback: { fallbackToSource: true },
       });
 
-      expect((result.es as any).common.farewell).toBe('Goodbye');
-      expect((result.es as any).checkout.cancel).toBe('Cancel');
+      expect((result.translations.es as any).common.farewell).toBe('Goodbye');
+      expect((result.translations.es as any).checkout.cancel).toBe('Cancel');
     });
 
     it('does not add fallbackInfo when no fallbacks used', async () => {
@@ -671,8 +671,8 @@ describe('Fallback language strategy', () => {
         fallback: { fallbackToSource: false },
       });
 
-      expect(result.es).toEqual({ greeting: 'Hola' });
-      expect(result.fr).toBeUndefined();
+      expect(result.translations.es).toEqual({ greeting: 'Hola' });
+      expect(result.translations.fr).toBeUndefined();
     });
   });
 
@@ -695,7 +695,7 @@ describe('Fallback language strategy', () => {
         fallback: { regionalFallback: true },
       });
 
-      expect(result['pt-BR']).toEqual({ greeting: 'Olá' });
+      expect(result.translations['pt-BR']).toEqual({ greeting: 'Olá' });
       expect((result.fallbackInfo as any).regionalFallbacks['pt-BR']).toBe('pt');
     });
 
@@ -714,7 +714,7 @@ describe('Fallback language strategy', () => {
         fallback: { regionalFallback: true },
       });
 
-      expect(result['zh-TW']).toEqual({ greeting: '你好' });
+      expect(result.translations['zh-TW']).toEqual({ greeting: '你好' });
     });
 
     it('adds base language to API request when regional variant requested', async () => {
@@ -777,7 +777,7 @@ describe('Fallback language strategy', () => {
       });
 
       // pt-BR should be missing (no regional fallback, no source fallback)
-      expect(result['pt-BR']).toBeUndefined();
+      expect(result.translations['pt-BR']).toBeUndefined();
     });
   });
 
@@ -802,7 +802,7 @@ describe('Fallback language strategy', () => {
       });
 
       // fr should fall back to source content
-      expect(result.fr).toEqual({ greeting: 'Hello' });
+      expect(result.translations.fr).toEqual({ greeting: 'Hello' });
     });
   });
 
@@ -823,7 +823,7 @@ describe('Fallback language strategy', () => {
         fallback: { fallbackToSource: true, regionalFallback: true },
       });
 
-      expect(result['pt-BR']).toEqual({ greeting: 'Olá' });
+      expect(result.translations['pt-BR']).toEqual({ greeting: 'Olá' });
       expect((result.fallbackInfo as any).regionalFallbacks['pt-BR']).toBe('pt');
       expect((result.fallbackInfo as any).languagesFallbackToSource).not.toContain('pt-BR');
     });
@@ -843,7 +843,7 @@ describe('Fallback language strategy', () => {
         fallback: { fallbackToSource: true, regionalFallback: true },
       });
 
-      expect(result['pt-BR']).toEqual({ greeting: 'Hello' });
+      expect(result.translations['pt-BR']).toEqual({ greeting: 'Hello' });
       expect((result.fallbackInfo as any).languagesFallbackToSource).toContain('pt-BR');
     });
 
@@ -867,16 +867,16 @@ describe('Fallback language strategy', () => {
       });
 
       // es: complete translation
-      expect(result.es).toEqual({ greeting: 'Hola', farewell: 'Adiós' });
+      expect(result.translations.es).toEqual({ greeting: 'Hola', farewell: 'Adiós' });
 
       // fr: missing key filled from source
-      expect(result.fr).toEqual({ greeting: 'Bonjour', farewell: 'Goodbye' });
+      expect(result.translations.fr).toEqual({ greeting: 'Bonjour', farewell: 'Goodbye' });
 
       // de: entire language falls back to source
-      expect(result.de).toEqual({ greeting: 'Hello', farewell: 'Goodbye' });
+      expect(result.translations.de).toEqual({ greeting: 'Hello', farewell: 'Goodbye' });
 
       // pt-BR: regional fallback to pt
-      expect(result['pt-BR']).toEqual({ greeting: 'Olá', farewell: 'Adeus' });
+      expect(result.translations['pt-BR']).toEqual({ greeting: 'Olá', farewell: 'Adeus' });
 
       // Verify fallback info
       const fallbackInfo = result.fallbackInfo as any;
@@ -901,7 +901,7 @@ describe('Fallback language strategy', () => {
         // No fallback option specified - should use defaults
       });
 
-      expect(result.es).toEqual({ greeting: 'Hello' });
+      expect(result.translations.es).toEqual({ greeting: 'Hello' });
     });
 
     it('enables regionalFallback by default', async () => {
@@ -919,7 +919,7 @@ describe('Fallback language strategy', () => {
         // No fallback option specified - should use defaults
       });
 
-      expect(result['pt-BR']).toEqual({ greeting: 'Olá' });
+      expect(result.translations['pt-BR']).toEqual({ greeting: 'Olá' });
     });
   });
 });
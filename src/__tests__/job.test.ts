@@ -0,0 +1,150 @@
+import { JobLanguageEvent, JobProgressEvent, Shipi18n } from '../index';
+
+/** Translate every string by prefixing the language code */
+function respond(init: { body: string }) {
+  const body = JSON.parse(init.body);
+  const content = JSON.parse(body.text);
+  const result: Record<string, unknown> = {};
+
+  for (const lang of JSON.parse(body.targetLanguages) as string[]) {
+    result[lang] = JSON.parse(JSON.stringify(content), (_key, value) =>
+      typeof value === 'string' ? `${lang}:${value}` : value
+    );
+  }
+
+  return { ok: true, json: () => Promise.resolve(result) };
+}
+
+describe('createJob', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn((_url, init) => Promise.resolve(respond(init))) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('sends one request per language and emits language and progress events', async () => {
+    const job = client.createJob({
+      content: { greeting: 'Hello' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'fr', 'de'],
+      concurrency: 1,
+    });
+
+    const languages: string[] = [];
+    const progress: JobProgressEvent[] = [];
+    job.on('language', ({ language }) => languages.push(language));
+    job.on('progress', (event) => progress.push(event));
+
+    const result = await job.done();
+
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect(languages).toEqual(['es', 'fr', 'de']);
+    expect(progress.map((event) => event.completed)).toEqual([1, 2, 3]);
+    expect(progress[2]).toEqual({ unit: 'language', completed: 3, failed: 0, total: 3 });
+    expect(result.translations).toEqual({
+      es: { greeting: 'es:Hello' },
+      fr: { greeting: 'fr:Hello' },
+      de: { greeting: 'de:Hello' },
+    });
+  });
+
+  it('yields each language from the async iterator as it completes', async () => {
+    const job = client.createJob({
+      content: { greeting: 'Hello' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'ja'],
+    });
+
+    const yielded: Array<JobLanguageEvent> = [];
+    for await (const event of job) {
+      yielded.push(event);
+    }
+
+    expect(yielded.map((event) => [event.language, event.translation])).toEqual([
+      ['es', { greeting: 'es:Hello' }],
+      ['ja', { greeting: 'ja:Hello' }],
+    ]);
+  });
+
+  it('keeps going when a language fails and reports the error', async () => {
+    (global.fetch as jest.Mock).mockImplementation((_url, init) => {
+      const body = JSON.parse(init.body);
+      if (body.targetLanguages.includes('fr')) {
+        return Promise.resolve({
+          ok: false,
+          status: 400,
+          statusText: 'Bad Request',
+          json: () => Promise.resolve({ code: 'INVALID_LANGUAGE', message: 'Unsupported' }),
+        });
+      }
+      return Promise.resolve(respond(init));
+    });
+
+    const job = client.createJob({
+      content: { greeting: 'Hello' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'fr', 'de'],
+    });
+
+    const errors: string[] = [];
+    job.on('error', ({ language }) => errors.push(language!));
+
+    const yielded: string[] = [];
+    await expect(
+      (async () => {
+        for await (const { language } of job) {
+          yielded.push(language);
+        }
+      })()
+    ).rejects.toThrow('Unsupported');
+
+    expect(errors).toEqual(['fr']);
+    expect(yielded.sort()).toEqual(['de', 'es']);
+    await expect(job.done()).rejects.toThrow('Unsupported');
+  });
+
+  it('emits warnings with their language', async () => {
+    const job = client.createJob({
+      content: { greeting: 'Hello {{name}}' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ es: { greeting: 'Hola' } }),
+    });
+
+    const warnings: Array<[string | undefined, string]> = [];
+    job.on('warning', ({ language, warning }) => warnings.push([language, warning.type]));
+    await job.done();
+
+    expect(warnings).toEqual([['es', 'placeholder_mismatch']]);
+  });
+
+  it('fans out per batch and completes languages when every batch is done', async () => {
+    const job = client.createJob({
+      content: { a: 'A', b: 'B', c: 'C' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'fr'],
+      fanOut: 'batch',
+      batching: { maxKeys: 2 },
+    });
+
+    const batches: Array<[number, string[]]> = [];
+    const languages: string[] = [];
+    job.on('batch', ({ index, keys }) => batches.push([index, keys]));
+    job.on('language', ({ language }) => languages.push(language));
+
+    const result = await job.done();
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(batches.sort()).toEqual([[0, ['a', 'b']], [1, ['c']]]);
+    expect(languages).toEqual(['es', 'fr']);
+    expect(result.translations.fr).toEqual({ a: 'fr:A', b: 'fr:B', c: 'fr:C' });
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  Shipi18n,
+  canonicalizeLanguageTag,
+  getLanguageFallbacks,
+  isWellFormedLanguageTag,
+  processRegionalLanguages,
+  validateLanguageTags,
+} from '../index';
+
+describe('canonicalizeLanguageTag', () => {
+  it.each([
+    ['pt_BR', 'pt-BR'],
+    ['PT-br', 'pt-BR'],
+    ['zh-hant-tw', 'zh-Hant-TW'],
+    ['sr_latn', 'sr-Latn'],
+    ['en', 'en'],
+  ])('%s → %s', (tag, canonical) => {
+    expect(canonicalizeLanguageTag(tag)).toBe(canonical);
+  });
+
+  it('leaves malformed tags readable', () => {
+    expect(canonicalizeLanguageTag('not_a_tag!')).toBe('not-a-tag!');
+    expect(isWellFormedLanguageTag('not_a_tag!')).toBe(false);
+    expect(isWellFormedLanguageTag('es_419')).toBe(true);
+  });
+});
+
+describe('getLanguageFallbacks', () => {
+  it.each([
+    ['zh-Hant-TW', ['zh-Hant', 'zh']],
+    ['sr-Latn-RS', ['sr-Latn', 'sr']],
+    ['es-MX', ['es-419', 'es']],
+    ['en-DE', ['en-150', 'en']],
+    ['pt-AO', ['pt-PT', 'pt']],
+    ['en-US-u-ca-gregory', ['en-US', 'en']],
+    ['fr', []],
+  ])('%s', (tag, chain) => {
+    expect(getLanguageFallbacks(tag)).toEqual(chain);
+  });
+});
+
+describe('processRegionalLanguages', () => {
+  it('requests the base language only, without duplicating spellings', () => {
+    expect(processRegionalLanguages(['es', 'zh-Hant-TW', 'pt_BR', 'PT'], true)).toEqual({
+      processedTargets: ['es', 'zh', 'zh-Hant-TW', 'pt_BR', 'PT'],
+      regionalMap: { 'zh-Hant-TW': 'zh-Hant', pt_BR: 'pt' },
+      regionalChains: { 'zh-Hant-TW': ['zh-Hant', 'zh'], pt_BR: ['pt'] },
+    });
+  });
+
+  it('requests every parent, broadest first, when asked to', () => {
+    expect(processRegionalLanguages(['zh-Hant-TW', 'es-MX'], true, true).processedTargets).toEqual([
+      'zh',
+      'zh-Hant',
+      'zh-Hant-TW',
+      'es',
+      'es-419',
+      'es-MX',
+    ]);
+  });
+
+  it('adds nothing when regional fallback is disabled', () => {
+    expect(processRegionalLanguages(['zh-Hant-TW'], false).processedTargets).toEqual(['zh-Hant-TW']);
+  });
+});
+
+describe('validateLanguageTags', () => {
+  it('reports support and the closest supported parent', () => {
+    expect(validateLanguageTags(['pt_BR', 'es-MX', 'tlh', 'x!'], ['en', 'es', 'pt-BR'])).toEqual([
+      { tag: 'pt_BR', canonical: 'pt-BR', wellFormed: true, supported: true },
+      { tag: 'es-MX', canonical: 'es-MX', wellFormed: true, supported: false, fallback: 'es' },
+      { tag: 'tlh', canonical: 'tlh', wellFormed: true, supported: false },
+      { tag: 'x!', canonical: 'x!', wellFormed: false, supported: false },
+    ]);
+  });
+});
+
+describe('language tags in requests', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  const respond = (body: unknown) =>
+    (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(body) });
+
+  const requestBody = () => JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+
+  it('sends canonical tags and returns the caller spelling', async () => {
+    respond({ pt: { greeting: 'Olá' }, 'pt-BR': { greeting: 'Oi' }, de: { greeting: 'Hallo' } });
+
+    const result = await client.translateJSON({
+      content: { greeting: 'Hello', title: 'Title' },
+      sourceLanguage: 'EN',
+      targetLanguages: ['pt_BR', 'DE'],
+    });
+
+    expect(requestBody().sourceLanguage).toBe('en');
+    expect(JSON.parse(requestBody().targetLanguages)).toEqual(['pt', 'pt-BR', 'de']);
+    expect(result.translations).toEqual({
+      pt_BR: { greeting: 'Oi', title: 'Title' },
+      DE: { greeting: 'Hallo', title: 'Title' },
+    });
+    expect(result.fallbackInfo?.keysFallback).toEqual({ pt_BR: ['title'], DE: ['title'] });
+  });
+
+  it('requests only the base language of a CLDR parent chain', async () => {
+    respond({ es: { greeting: 'Hola' } });
+
+    const result = await client.translateJSON({
+      content: { greeting: 'Hello' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es-MX'],
+    });
+
+    expect(JSON.parse(requestBody().targetLanguages)).toEqual(['es', 'es-MX']);
+    expect(result.translations['es-MX']).toEqual({ greeting: 'Hola' });
+    expect(result.fallbackInfo?.regionalFallbacks).toEqual({ 'es-MX': 'es' });
+  });
+
+  it('falls back through the script subtag when parents are requested', async () => {
+    respond({ 'zh-Hant': { greeting: '您好' }, zh: { greeting: '你好' } });
+
+    const result = await client.translateJSON({
+      content: { greeting: 'Hello' },
+      sourceLanguage: 'en',
+      targetLanguages: ['zh-Hant-TW'],
+      fallback: { requestParentLanguages: true },
+    });
+
+    expect(JSON.parse(requestBody().targetLanguages)).toEqual(['zh', 'zh-Hant', 'zh-Hant-TW']);
+    expect(result.translations['zh-Hant-TW']).toEqual({ greeting: '您好' });
+    expect(result.fallbackInfo?.regionalFallbacks).toEqual({ 'zh-Hant-TW': 'zh-Hant' });
+  });
+
+  it('returns text translations in the caller spelling', async () => {
+    respond({ 'es-MX': [{ original: 'Hello', translated: 'Hola' }] });
+
+    const result = await client.translateText({
+      content: 'Hello',
+      sourceLanguage: 'en',
+      targetLanguages: ['es_mx'],
+      fallback: { regionalFallback: false },
+    });
+
+    expect(result.translations).toEqual({ es_mx: [{ original: 'Hello', translated: 'Hola' }] });
+  });
+
+  it('validates tags against getLanguages', async () => {
+    respond({ languages: [{ code: 'es', name: 'Spanish' }] });
+
+    await expect(client.validateLanguages(['es_419'])).resolves.toEqual([
+      { tag: 'es_419', canonical: 'es-419', wellFormed: true, supported: false, fallback: 'es' },
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import { Middleware, RequestLogEntry, Shipi18n, headersMiddleware, loggingMiddleware } from '../index';
+
+const okResponse = (body: unknown, status = 200) =>
+  ({
+    ok: status < 400,
+    status,
+    statusText: status < 400 ? 'OK' : 'Error',
+    json: () => Promise.resolve(body),
+  }) as unknown as Response;
+
+const options = {
+  content: { greeting: 'Hello' },
+  sourceLanguage: 'en',
+  targetLanguages: ['es'],
+};
+
+describe('custom fetch and middleware', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('uses the configured fetch instead of the global one', async () => {
+    const customFetch = jest.fn().mockResolvedValue(okResponse({ es: { greeting: 'Hola' } }));
+    const client = new Shipi18n({ apiKey: 'test-key', fetch: customFetch });
+
+    const result = await client.translateJSON(options);
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(customFetch).toHaveBeenCalledWith(
+      'https://ydjkwckq3f.execute-api.us-east-1.amazonaws.com/api/translate',
+      expect.objectContaining({ method: 'POST', headers: expect.objectContaining({ 'x-api-key': 'test-key' }) })
+    );
+    expect(result.translations.es).toEqual({ greeting: 'Hola' });
+  });
+
+  it('runs middleware in order and lets them change the request', async () => {
+    const customFetch = jest.fn().mockResolvedValue(okResponse({ languages: [] }));
+    const calls: string[] = [];
+    const first: Middleware = async (ctx, next) => {
+      calls.push('first:before');
+      ctx.url = ctx.url.replace('https://ydjkwckq3f.execute-api.us-east-1.amazonaws.com', 'https://proxy.internal');
+      const response = await next();
+      calls.push('first:after');
+      return response;
+    };
+    const second: Middleware = async (ctx, next) => {
+      calls.push(`second:${ctx.endpoint}`);
+      return next();
+    };
+
+    const client = new Shipi18n({ apiKey: 'test-key', fetch: customFetch, middleware: [first, second] });
+    await client.getLanguages();
+
+    expect(calls).toEqual(['first:before', 'second:/api/languages', 'first:after']);
+    expect(customFetch.mock.calls[0][0]).toBe('https://proxy.internal/api/languages');
+  });
+
+  it('lets a middleware short-circuit the request', async () => {
+    const stub: Middleware = async () => okResponse({ es: { greeting: 'Stubbed' } });
+    const client = new Shipi18n({ apiKey: 'test-key', middleware: [stub] });
+
+    const result = await client.translateJSON(options);
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(result.translations.es).toEqual({ greeting: 'Stubbed' });
+  });
+
+  it('turns error responses from middleware into Shipi18nError', async () => {
+    const stub: Middleware = async () => okResponse({ code: 'QUOTA_EXCEEDED', message: 'Quota exceeded' }, 402);
+    const client = new Shipi18n({ apiKey: 'test-key', middleware: [stub] });
+
+    await expect(client.translateJSON(options)).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED', statusCode: 402 });
+  });
+
+  it('adds headers with headersMiddleware', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(okResponse({ languages: [] }));
+    let counter = 0;
+    const client = new Shipi18n({
+      apiKey: 'test-key',
+      middleware: [headersMiddleware({ 'x-team': 'web' }), headersMiddleware(() => ({ 'x-trace-id': `t${++counter}` }))],
+    });
+
+    await client.getLanguages();
+    await client.getLanguages();
+
+    const headers = (global.fetch as jest.Mock).mock.calls.map(([, init]) => init.headers);
+    expect(headers[0]).toMatchObject({ 'x-team': 'web', 'x-trace-id': 't1' });
+    expect(headers[1]).toMatchObject({ 'x-trace-id': 't2' });
+  });
+
+  it('logs each attempt with loggingMiddleware', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(okResponse({}, 503))
+      .mockResolvedValueOnce(okResponse({ es: { greeting: 'Hola' } }));
+    const entries: RequestLogEntry[] = [];
+    const client = new Shipi18n({
+      apiKey: 'test-key',
+      retry: { maxAttempts: 2, baseDelay: 1, jitter: false },
+      middleware: [loggingMiddleware((entry) => entries.push(entry))],
+    });
+
+    await client.translateJSON(options);
+
+    expect(entries.map(({ method, status, attempt }) => [method, status, attempt])).toEqual([
+      ['POST', 503, 1],
+      ['POST', 200, 2],
+    ]);
+    expect(JSON.stringify(entries)).not.toContain('test-key');
+  });
+
+  it('logs network errors', async () => {
+    (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('socket hang up'));
+    const entries: RequestLogEntry[] = [];
+    const client = new Shipi18n({ apiKey: 'test-key', middleware: [loggingMiddleware((entry) => entries.push(entry))] });
+
+    await expect(client.getLanguages()).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    expect(entries[0].error?.message).toBe('socket hang up');
+  });
+});
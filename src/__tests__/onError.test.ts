@@ -0,0 +1,82 @@
+import { MemoryCache, Shipi18n, Shipi18nError } from '../index';
+
+const errorResponse = (status: number, code: string, message: string) => ({
+  ok: false,
+  status,
+  statusText: 'Error',
+  json: () => Promise.resolve({ code, message }),
+});
+
+const options = {
+  content: { greeting: 'Hello', nav: { home: 'Home' } },
+  sourceLanguage: 'en',
+  targetLanguages: ['es', 'pt-BR'],
+};
+
+describe("onError: 'fallback'", () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key', retry: { maxAttempts: 2, baseDelay: 1, jitter: false } });
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('throws by default', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(errorResponse(402, 'QUOTA_EXCEEDED', 'Quota exceeded'));
+
+    await expect(client.translateJSON(options)).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+  });
+
+  it('resolves with source content after retries are exhausted', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(errorResponse(503, 'SERVICE_UNAVAILABLE', 'Service unavailable'));
+
+    const result = await client.translateJSON({ ...options, onError: 'fallback' });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(result.translations).toEqual({ es: options.content, 'pt-BR': options.content });
+    expect(result.fallbackInfo?.languagesFallbackToSource).toEqual(['es', 'pt-BR']);
+    expect(result.error).toBeInstanceOf(Shipi18nError);
+    expect(result.error?.code).toBe('SERVICE_UNAVAILABLE');
+    expect(result.warnings).toEqual([
+      {
+        type: 'api_error',
+        message: 'Translation failed, using fallback content: Service unavailable',
+        details: { code: 'SERVICE_UNAVAILABLE', statusCode: 503 },
+      },
+    ]);
+  });
+
+  it('fills from the source even when fallbackToSource is disabled', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(errorResponse(401, 'INVALID_API_KEY', 'Invalid API key'));
+
+    const result = await client.translateJSON({ ...options, onError: 'fallback', fallback: { fallbackToSource: false } });
+
+    expect(result.translations.es).toEqual(options.content);
+  });
+
+  it('uses cached fallback languages before the source', async () => {
+    const cached = new Shipi18n({ apiKey: 'test-key', cache: new MemoryCache() });
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ pt: { greeting: 'Olá', nav: { home: 'Início' } } }) })
+      .mockResolvedValueOnce(errorResponse(500, 'API_ERROR', 'Internal error'));
+
+    await cached.translateJSON({ ...options, targetLanguages: ['pt'] });
+    const result = await cached.translateJSON({ ...options, targetLanguages: ['pt-BR'], onError: 'fallback' });
+
+    expect(result.translations['pt-BR']).toEqual({ greeting: 'Olá', nav: { home: 'Início' } });
+    expect(result.fallbackInfo?.regionalFallbacks).toEqual({ 'pt-BR': 'pt' });
+  });
+
+  it('still rejects when the caller aborts', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      client.translateJSON({ ...options, onError: 'fallback' }, { signal: controller.signal })
+    ).rejects.toMatchObject({ code: 'ABORTED' });
+  });
+});
@@ -0,0 +1,139 @@
+import { Shipi18n, comparePlaceholders, extractPlaceholders } from '../index';
+
+describe('extractPlaceholders', () => {
+  it('extracts i18next interpolation and nesting', () => {
+    expect(extractPlaceholders('Hello {{name}}, {{count, number}} new $t(common.messages)')).toEqual([
+      '{{name}}',
+      '{{count}}',
+      '$t(common.messages)',
+    ]);
+  });
+
+  it('extracts printf placeholders', () => {
+    expect(extractPlaceholders('%s has %d items, %1$s %2$@ at 100%%')).toEqual(['%s', '%d', '%1$s', '%2$@']);
+  });
+
+  it('does not mistake a percent sign followed by text for a placeholder', () => {
+    expect(extractPlaceholders('Save 100% off today')).toEqual([]);
+  });
+
+  it('extracts ICU arguments, including those inside branches', () => {
+    expect(
+      extractPlaceholders('{gender, select, male {Welcome, Mr. {name}} other {Welcome, {name}}}')
+    ).toEqual(['{gender}', '{name}', '{name}']);
+    expect(extractPlaceholders('{count, plural, one {# item} other {# items}}')).toEqual(['{count}']);
+    expect(extractPlaceholders('Total: {amount, number, ::currency/EUR}')).toEqual(['{amount}']);
+  });
+
+  it('ignores literal braces', () => {
+    expect(extractPlaceholders('Use {curly text} or } alone')).toEqual([]);
+  });
+});
+
+describe('comparePlaceholders', () => {
+  it('accepts reordered placeholders', () => {
+    expect(comparePlaceholders('{a} and {b}', '{b} y {a}')).toBeUndefined();
+  });
+
+  it('reports missing and extra tokens', () => {
+    expect(comparePlaceholders('Hi {{name}}, %d new', 'Hola {{nombre}}, %d nuevos')).toEqual({
+      missing: ['{{name}}'],
+      extra: ['{{nombre}}'],
+    });
+  });
+
+  const EN_PLURAL = '{count, plural, one {{name} has # file} other {{name} has # files}}';
+
+  it('accepts plural branches repeating placeholders for more categories (ru)', () => {
+    expect(
+      comparePlaceholders(
+        EN_PLURAL,
+        '{count, plural, one {У {name} # файл} few {У {name} # файла} many {У {name} # файлов} other {У {name} # файла}}'
+      )
+    ).toBeUndefined();
+  });
+
+  it('accepts plural branches repeating placeholders for more categories (ar)', () => {
+    expect(
+      comparePlaceholders(
+        EN_PLURAL,
+        '{count, plural, zero {{name} ليس لديه ملفات} one {{name} لديه ملف} two {{name} لديه ملفان} ' +
+          'few {{name} لديه # ملفات} many {{name} لديه # ملفًا} other {{name} لديه # ملف}}'
+      )
+    ).toBeUndefined();
+  });
+
+  it('still reports placeholders missing from every branch', () => {
+    expect(
+      comparePlaceholders(EN_PLURAL, '{count, plural, one {# файл} few {# файла} many {# файлов} other {# файла}}')
+    ).toEqual({ missing: ['{name}'], extra: [] });
+  });
+});
+
+describe('translateJSON placeholder validation', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        es: { greeting: 'Hola {{nombre}}', items: '{{count}} artículos' },
+      }),
+    });
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  const options = {
+    content: { greeting: 'Hello {{name}}', items: '{{count}} items' },
+    sourceLanguage: 'en',
+    targetLanguages: ['es'],
+  };
+
+  it('warns about mismatched placeholders by default', async () => {
+    const result = await client.translateJSON(options);
+
+    expect(result.warnings).toEqual([
+      {
+        type: 'placeholder_mismatch',
+        message: 'Placeholder mismatch in "greeting" (es): missing {{name}}; unexpected {{nombre}}',
+        details: { key: 'greeting', language: 'es', missing: ['{{name}}'], extra: ['{{nombre}}'] },
+      },
+    ]);
+    expect(result.translations.es?.greeting).toBe('Hola {{nombre}}');
+    expect(result.fallbackInfo).toBeUndefined();
+  });
+
+  it('falls back to the source value when configured', async () => {
+    const result = await client.translateJSON({ ...options, placeholderValidation: 'fallback' });
+
+    expect(result.translations.es).toEqual({ greeting: 'Hello {{name}}', items: '{{count}} artículos' });
+    expect(result.fallbackInfo?.keysFallback).toEqual({ es: ['greeting'] });
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('keeps plural translations with more categories than the source', async () => {
+    const ru =
+      '{count, plural, one {# файл для {name}} few {# файла для {name}} many {# файлов для {name}} other {# файла для {name}}}';
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, json: () => Promise.resolve({ ru: { files: ru } }) });
+
+    const result = await client.translateJSON({
+      content: { files: '{count, plural, one {# file for {name}} other {# files for {name}}}' },
+      sourceLanguage: 'en',
+      targetLanguages: ['ru'],
+      placeholderValidation: 'fallback',
+    });
+
+    expect(result.translations.ru).toEqual({ files: ru });
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('can be turned off', async () => {
+    const result = await client.translateJSON({ ...options, placeholderValidation: 'off' });
+
+    expect(result.warnings).toBeUndefined();
+  });
+});
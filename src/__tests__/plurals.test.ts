@@ -0,0 +1,126 @@
+import {
+  Shipi18n,
+  fillMissingPlurals,
+  findPluralGroups,
+  getPluralCategories,
+  validatePlurals,
+} from '../index';
+
+describe('getPluralCategories', () => {
+  it('returns CLDR categories in canonical order', () => {
+    expect(getPluralCategories('en')).toEqual(['one', 'other']);
+    expect(getPluralCategories('ru')).toEqual(['one', 'few', 'many', 'other']);
+    expect(getPluralCategories('ar')).toEqual(['zero', 'one', 'two', 'few', 'many', 'other']);
+    expect(getPluralCategories('ja')).toEqual(['other']);
+    expect(getPluralCategories('en', 'ordinal')).toEqual(['one', 'two', 'few', 'other']);
+  });
+
+  it('returns undefined for invalid language tags', () => {
+    expect(getPluralCategories('not a tag')).toBeUndefined();
+  });
+});
+
+describe('findPluralGroups', () => {
+  it('finds cardinal and ordinal groups by their _other key', () => {
+    expect(
+      findPluralGroups({
+        cart: { items_one: '{{count}} item', items_other: '{{count}} items' },
+        place_ordinal_one: '{{count}}st',
+        place_ordinal_other: '{{count}}th',
+        lonely_one: 'no other form',
+      })
+    ).toEqual([
+      { key: 'cart.items', type: 'cardinal' },
+      { key: 'place', type: 'ordinal' },
+    ]);
+  });
+});
+
+describe('validatePlurals', () => {
+  const source = { items_one: '{{count}} item', items_other: '{{count}} items' };
+
+  it('reports missing categories', () => {
+    expect(validatePlurals(source, { items_one: 'a', items_other: 'b' }, 'ru')).toEqual([
+      { key: 'items', type: 'cardinal', language: 'ru', missing: ['few', 'many'], superfluous: [] },
+    ]);
+  });
+
+  it('reports superfluous categories but allows _zero', () => {
+    expect(validatePlurals(source, { items_zero: 'none', items_one: 'a', items_other: 'b' }, 'ja')).toEqual([
+      { key: 'items', type: 'cardinal', language: 'ja', missing: [], superfluous: ['one'] },
+    ]);
+  });
+
+  it('validates ordinal groups with ordinal rules', () => {
+    const ordinalSource = { place_ordinal_one: '1st', place_ordinal_other: 'nth' };
+    expect(validatePlurals(ordinalSource, { place_ordinal_other: 'n-e' }, 'fr')).toEqual([
+      { key: 'place', type: 'ordinal', language: 'fr', missing: ['one'], superfluous: [] },
+    ]);
+  });
+
+  it('accepts complete groups', () => {
+    expect(validatePlurals(source, { items_one: 'a', items_other: 'b' }, 'de')).toEqual([]);
+  });
+});
+
+describe('fillMissingPlurals', () => {
+  it('fills missing categories from _other', () => {
+    const translation: Record<string, unknown> = { items_one: 'a', items_other: 'b' };
+    const filled = fillMissingPlurals({ items_one: 'x', items_other: 'y' }, translation, 'pl');
+
+    expect(filled).toEqual(['items_few', 'items_many']);
+    expect(translation).toEqual({ items_one: 'a', items_other: 'b', items_few: 'b', items_many: 'b' });
+  });
+});
+
+describe('translateI18next plural validation', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        ru: { items_one: '{{count}} элемент', items_other: '{{count}} элементов' },
+      }),
+    });
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  const options = {
+    content: { items_one: '{{count}} item', items_other: '{{count}} items' },
+    sourceLanguage: 'en',
+    targetLanguages: ['ru'],
+  };
+
+  it('warns about missing plural categories', async () => {
+    const result = await client.translateI18next(options);
+
+    expect(result.warnings).toEqual([
+      {
+        type: 'plural_mismatch',
+        message: 'Plural forms of "items" (ru): missing few, many',
+        details: { key: 'items', type: 'cardinal', language: 'ru', missing: ['few', 'many'], superfluous: [] },
+      },
+    ]);
+  });
+
+  it('fills missing categories when configured', async () => {
+    const result = await client.translateI18next({ ...options, pluralValidation: 'fill' });
+
+    expect(result.translations.ru).toMatchObject({
+      items_few: '{{count}} элементов',
+      items_many: '{{count}} элементов',
+    });
+    expect(result.fallbackInfo?.keysFallback).toEqual({ ru: ['items_few', 'items_many'] });
+  });
+
+  it('skips validation when pluralization is disabled', async () => {
+    const result = await client.translateJSON({ ...options, enablePluralization: false });
+
+    expect(result.warnings).toBeUndefined();
+  });
+});
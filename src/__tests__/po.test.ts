@@ -0,0 +1,154 @@
+import {
+  Shipi18n,
+  getPluralFormCategories,
+  getPluralFormsHeader,
+  parsePo,
+  serializePo,
+} from '../index';
+
+const POT = `# Messages for Acme
+# Copyright (C) Acme
+msgid ""
+msgstr ""
+"Project-Id-Version: acme 1.0\\n"
+"Content-Type: text/plain; charset=UTF-8\\n"
+
+#. Shown on the dashboard
+#: src/app.js:10
+msgid "Hello, %s!"
+msgstr ""
+
+# Translator: keep it short
+#: src/menu.js:4 src/menu.js:9
+#, fuzzy
+msgctxt "menu"
+msgid "Open"
+msgstr ""
+
+#: src/cart.js:12
+#, c-format
+msgid "%d item"
+msgid_plural "%d items"
+msgstr[0] ""
+msgstr[1] ""
+
+msgid ""
+"First line\\n"
+"Second \\"quoted\\" line"
+msgstr ""
+
+#~ msgid "Removed"
+#~ msgstr "Entfernt"
+`;
+
+describe('parsePo', () => {
+  it('parses headers, comments, context, plurals and obsolete entries', () => {
+    const file = parsePo(POT);
+
+    expect(file.headerComments).toEqual(['Messages for Acme', 'Copyright (C) Acme']);
+    expect(file.headers).toEqual({
+      'Project-Id-Version': 'acme 1.0',
+      'Content-Type': 'text/plain; charset=UTF-8',
+    });
+    expect(file.entries).toHaveLength(5);
+    expect(file.entries[0]).toMatchObject({
+      msgid: 'Hello, %s!',
+      extractedComments: ['Shown on the dashboard'],
+      references: ['src/app.js:10'],
+    });
+    expect(file.entries[1]).toMatchObject({
+      msgctxt: 'menu',
+      msgid: 'Open',
+      translatorComments: ['Translator: keep it short'],
+      references: ['src/menu.js:4', 'src/menu.js:9'],
+      flags: ['fuzzy'],
+    });
+    expect(file.entries[2]).toMatchObject({ msgid: '%d item', msgidPlural: '%d items', msgstr: ['', ''] });
+    expect(file.entries[3].msgid).toBe('First line\nSecond "quoted" line');
+    expect(file.entries[4].obsolete).toEqual(['#~ msgid "Removed"', '#~ msgstr "Entfernt"']);
+  });
+
+  it('round-trips through serializePo', () => {
+    const file = parsePo(POT);
+    expect(parsePo(serializePo(file))).toEqual(file);
+  });
+});
+
+describe('gettext plural forms', () => {
+  it('provides Plural-Forms headers', () => {
+    expect(getPluralFormsHeader('de')).toBe('nplurals=2; plural=(n != 1);');
+    expect(getPluralFormsHeader('fr')).toBe('nplurals=2; plural=(n > 1);');
+    expect(getPluralFormsHeader('ja')).toBe('nplurals=1; plural=0;');
+  });
+
+  it('maps msgstr indexes to CLDR categories', () => {
+    expect(getPluralFormCategories('de')).toEqual(['one', 'other']);
+    expect(getPluralFormCategories('ru')).toEqual(['one', 'few', 'many']);
+    expect(getPluralFormCategories('ja')).toEqual(['other']);
+  });
+});
+
+describe('translatePO', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        ru: {
+          msg0: 'Привет, %s!',
+          msg1: 'Открыть',
+          msg2_one: '%d товар',
+          msg2_few: '%d товара',
+          msg2_many: '%d товаров',
+          msg2_other: '%d товара',
+          msg3: 'Первая строка\nВторая "строка"',
+        },
+      }),
+    });
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('sends messages with context and writes a PO file per language', async () => {
+    const result = await client.translatePO({
+      content: POT,
+      sourceLanguage: 'en',
+      targetLanguages: ['ru'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.parse(body.text)).toEqual({
+      msg0: 'Hello, %s!',
+      msg1: 'Open',
+      msg2_one: '%d item',
+      msg2_other: '%d items',
+      msg3: 'First line\nSecond "quoted" line',
+    });
+    expect(body.contextAnnotations).toEqual({ msg0: 'Shown on the dashboard', msg1: 'menu' });
+
+    const po = parsePo(result.translations.ru!);
+    expect(po.headers.Language).toBe('ru');
+    expect(po.headers['Plural-Forms']).toBe(getPluralFormsHeader('ru'));
+    expect(po.headers['Project-Id-Version']).toBe('acme 1.0');
+    expect(po.entries[0]).toMatchObject({ msgstr: ['Привет, %s!'], references: ['src/app.js:10'] });
+    expect(po.entries[1]).toMatchObject({ msgctxt: 'menu', msgstr: ['Открыть'], flags: [] });
+    expect(po.entries[1].translatorComments).toEqual(['Translator: keep it short']);
+    expect(po.entries[2]).toMatchObject({ msgstr: ['%d товар', '%d товара', '%d товаров'], flags: ['c-format'] });
+    expect(po.entries[4].obsolete).toBeDefined();
+  });
+
+  it('marks entries fuzzy when requested', async () => {
+    const result = await client.translatePO({
+      content: POT,
+      sourceLanguage: 'en',
+      targetLanguages: ['ru'],
+      markFuzzy: true,
+    });
+
+    expect(parsePo(result.translations.ru!).entries[0].flags).toEqual(['fuzzy']);
+  });
+});
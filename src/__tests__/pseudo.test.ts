@@ -0,0 +1,125 @@
+import { Shipi18n, isPseudoLocale, pseudoLocalize, pseudoLocalizeJSON } from '../index';
+
+describe('pseudoLocalize', () => {
+  it('accents, expands and brackets text', () => {
+    expect(pseudoLocalize('Hello')).toBe('[Ĥéļļö ~~]');
+    expect(pseudoLocalize('Save changes', { expansion: 0.5, brackets: ['⟦', '⟧'] })).toBe('⟦Šáṽé çĥáñĝéš ~~~~~~⟧');
+    expect(pseudoLocalize('Hello', { accents: false, expansion: 0, brackets: false })).toBe('Hello');
+  });
+
+  it('leaves placeholders, HTML tags and entities untouched', () => {
+    expect(pseudoLocalize('Hi {{name}}, you have %d <b>new</b> {count} &amp; %1$s', { expansion: 0 })).toBe(
+      '[Ĥí {{name}}, ýöú ĥáṽé %d <b>ñéŵ</b> {count} &amp; %1$s]'
+    );
+  });
+
+  it('translates ICU sub-messages but not their syntax', () => {
+    expect(
+      pseudoLocalize('{count, plural, =0 {No files} one {# file} other {# files in {folder}}}', { expansion: 0 })
+    ).toBe('[{count, plural, =0 {Ñö ƒíļéš} one {# ƒíļé} other {# ƒíļéš íñ {folder}}}]');
+    expect(pseudoLocalize('{gender, select, female {She has #} other {They}}', { expansion: 0 })).toBe(
+      '[{gender, select, female {Šĥé ĥáš #} other {Ţĥéý}}]'
+    );
+  });
+
+  it('counts only translatable text for expansion', () => {
+    expect(pseudoLocalize('{{name}}')).toBe('[{{name}}]');
+    expect(pseudoLocalize('Hi {{name}}', { expansion: 1 })).toBe('[Ĥí {{name}} ~~~]');
+  });
+
+  it('mirrors text with right-to-left overrides', () => {
+    expect(pseudoLocalize('Hi {{name}}', { accents: false, expansion: 0, brackets: false, mirror: true })).toBe(
+      '\u202EHi \u202C{{name}}'
+    );
+  });
+
+  it('keeps malformed ICU as-is after the header', () => {
+    expect(pseudoLocalize('{n, plural, one', { expansion: 0 })).toBe('[{n, plural, one]');
+  });
+});
+
+describe('pseudoLocalizeJSON', () => {
+  it('transforms every string except skipped keys and values', () => {
+    const content = {
+      nav: { home: 'Home', links: ['About', 'https://example.com'] },
+      brand: 'Acme',
+      legal: { terms: 'Terms' },
+      count: 3,
+    };
+
+    expect(
+      pseudoLocalizeJSON(content, { expansion: 0, skipKeys: ['brand'], skipPaths: ['legal.*'], skipValues: ['url'] })
+    ).toEqual({
+      nav: { home: '[Ĥöɱé]', links: ['[Áƀöúţ]', 'https://example.com'] },
+      brand: 'Acme',
+      legal: { terms: 'Terms' },
+      count: 3,
+    });
+    expect(content.nav.home).toBe('Home');
+  });
+
+  it('keeps keys that contain dots as single keys', () => {
+    expect(pseudoLocalizeJSON({ 'a.b': 'x', a: { c: 'y' } }, { accents: false, expansion: 0 })).toEqual({
+      'a.b': '[x]',
+      a: { c: '[y]' },
+    });
+  });
+});
+
+describe('pseudo locales', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('recognizes en-XA and ar-XB in any spelling', () => {
+    expect(isPseudoLocale('en_xa')).toBe(true);
+    expect(isPseudoLocale('ar-XB')).toBe(true);
+    expect(isPseudoLocale('en')).toBe(false);
+  });
+
+  it('produces pseudo targets locally and sends the rest to the API', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ es: { greeting: 'Hola', brand: 'Acme' } }),
+    });
+    const client = new Shipi18n({ apiKey: 'test-key' });
+
+    const result = await client.translateJSON({
+      content: { greeting: 'Hello', brand: 'Acme' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'en-XA', 'ar-XB'],
+      skipKeys: ['brand'],
+    });
+
+    expect(JSON.parse(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).targetLanguages)).toEqual(['es']);
+    expect(result.translations).toEqual({
+      es: { greeting: 'Hola', brand: 'Acme' },
+      'en-XA': { greeting: '[Ĥéļļö ~~]', brand: 'Acme' },
+      'ar-XB': { greeting: '\u202EHello\u202C', brand: 'Acme' },
+    });
+  });
+
+  it('works without an API key or network with pseudoLocalization', async () => {
+    const client = new Shipi18n({ pseudoLocalization: { expansion: 0 } });
+
+    const json = await client.translateJSON({ content: { a: 'Yes' }, sourceLanguage: 'en', targetLanguages: ['fr'] });
+    const text = await client.translateText({ content: 'Yes\nNo', sourceLanguage: 'en', targetLanguages: ['de'] });
+
+    expect(json.translations).toEqual({ fr: { a: '[Ýéš]' } });
+    expect(text.translations).toEqual({
+      de: [
+        { original: 'Yes', translated: '[Ýéš]' },
+        { original: 'No', translated: '[Ñö]' },
+      ],
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('still requires an API key otherwise', () => {
+    expect(() => new Shipi18n({})).toThrow('API key is required');
+  });
+});
@@ -0,0 +1,121 @@
+import { Shipi18n, Shipi18nError } from '../index';
+
+const okResponse = (body: unknown) => ({
+  ok: true,
+  json: () => Promise.resolve(body),
+});
+
+/** A fetch that never responds, rejecting like the real one when its signal aborts */
+const hangingFetch = () =>
+  jest.fn(
+    (_url: string, init: { signal: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => {
+          const error = new Error('The operation was aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      })
+  );
+
+const options = {
+  content: { greeting: 'Hello' },
+  sourceLanguage: 'en',
+  targetLanguages: ['es'],
+};
+
+describe('request options', () => {
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('fails with ABORTED when the caller aborts, without retrying', async () => {
+    global.fetch = hangingFetch() as unknown as typeof fetch;
+    const client = new Shipi18n({ apiKey: 'test-key', retry: { maxAttempts: 3, baseDelay: 1 } });
+    const controller = new AbortController();
+
+    const promise = client.translateJSON(options, { signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not send a request when the signal is already aborted', async () => {
+    global.fetch = jest.fn();
+    const client = new Shipi18n({ apiKey: 'test-key' });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.getLanguages({ signal: controller.signal })).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('stops waiting between retries when aborted', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable',
+      json: () => Promise.resolve({}),
+    });
+    const controller = new AbortController();
+    const client = new Shipi18n({
+      apiKey: 'test-key',
+      retry: { maxAttempts: 3, baseDelay: 60000, jitter: false, onRetry: () => controller.abort() },
+    });
+
+    await expect(client.translateJSON(options, { signal: controller.signal })).rejects.toMatchObject({
+      code: 'ABORTED',
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses a per-call timeout and reports it as TIMEOUT', async () => {
+    global.fetch = hangingFetch() as unknown as typeof fetch;
+    const client = new Shipi18n({ apiKey: 'test-key', timeout: 60000 });
+
+    const error = await client.getLanguages({ timeout: 5 }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(Shipi18nError);
+    expect(error.code).toBe('TIMEOUT');
+  });
+
+  it('sends extra headers and the idempotency key', async () => {
+    global.fetch = jest.fn().mockResolvedValueOnce(okResponse({ es: { greeting: 'Hola' } }));
+    const client = new Shipi18n({ apiKey: 'test-key' });
+
+    await client.translateJSON(options, { headers: { 'x-request-id': 'abc' }, idempotencyKey: 'job-42' });
+
+    const init = (global.fetch as jest.Mock).mock.calls[0][1];
+    expect(init.headers).toMatchObject({
+      'x-api-key': 'test-key',
+      'x-request-id': 'abc',
+      'Idempotency-Key': 'job-42',
+    });
+  });
+
+  it('suffixes the idempotency key per batch', async () => {
+    global.fetch = jest.fn().mockResolvedValue(okResponse({ es: {} }));
+    const client = new Shipi18n({ apiKey: 'test-key' });
+
+    await client.translateJSON(
+      { ...options, content: { a: 'A', b: 'B' }, batching: { maxKeys: 1, concurrency: 1 } },
+      { idempotencyKey: 'job-42' }
+    );
+
+    const keys = (global.fetch as jest.Mock).mock.calls.map(([, init]) => init.headers['Idempotency-Key']);
+    expect(keys).toEqual(['job-42:1', 'job-42:2']);
+  });
+
+  it('passes request options through file-format methods', async () => {
+    global.fetch = jest.fn().mockResolvedValueOnce(okResponse({ de: { greeting: 'Hallo' } }));
+    const client = new Shipi18n({ apiKey: 'test-key' });
+
+    await client.translateYAML(
+      { content: 'en:\n  greeting: Hello\n', sourceLanguage: 'en', targetLanguages: ['de'] },
+      { headers: { 'x-trace': '1' } }
+    );
+
+    expect((global.fetch as jest.Mock).mock.calls[0][1].headers['x-trace']).toBe('1');
+  });
+});
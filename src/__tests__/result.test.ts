@@ -0,0 +1,76 @@
+import { Shipi18n, TranslateJSONResult } from '../index';
+
+describe('typed translation results', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('separates translations from metadata', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        es: { greeting: 'Hola', nav: { home: 'Inicio' } },
+        warnings: [{ type: 'legal_content', message: 'Legal content detected' }],
+        skipped: { count: 0, keys: [] },
+        namespaceInfo: { detected: true, count: 1, namespaces: [{ name: 'nav', keyCount: 1 }] },
+      }),
+    });
+
+    const content = { greeting: 'Hello', nav: { home: 'Home' } };
+    const result = await client.translateJSON({
+      content,
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+
+    // Structure of the source is preserved in the result type
+    const typed: TranslateJSONResult<typeof content, 'es'> = result;
+    expect(typed.translations.es?.nav.home).toBe('Inicio');
+    expect(result.warnings?.[0].type).toBe('legal_content');
+    expect(result.skipped).toEqual({ count: 0, keys: [] });
+    expect(result.namespaceInfo?.count).toBe(1);
+    expect(Object.keys(result)).toEqual(['translations', 'warnings', 'skipped', 'namespaceInfo']);
+  });
+
+  it('only includes requested languages in translations', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ pt: { greeting: 'Olá' } }),
+    });
+
+    const result = await client.translateJSON({
+      content: { greeting: 'Hello' },
+      sourceLanguage: 'en',
+      targetLanguages: ['pt-BR'],
+    });
+
+    expect(Object.keys(result.translations)).toEqual(['pt-BR']);
+    expect(result.legacy.pt).toEqual({ greeting: 'Olá' });
+  });
+
+  it('exposes the legacy shape through a non-enumerable accessor', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ es: [{ original: 'Hello', translated: 'Hola' }] }),
+    });
+
+    const result = await client.translateText({
+      content: 'Hello',
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+
+    expect(result.translations.es?.[0].translated).toBe('Hola');
+    expect(result.legacy.es).toEqual([{ original: 'Hello', translated: 'Hola' }]);
+    expect(JSON.parse(JSON.stringify(result))).toEqual({
+      translations: { es: [{ original: 'Hello', translated: 'Hola' }] },
+    });
+  });
+});
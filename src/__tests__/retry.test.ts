@@ -0,0 +1,177 @@
+import {
+  Shipi18n,
+  Shipi18nError,
+  getRetryDelay,
+  isRetryableError,
+  parseRetryAfter,
+} from '../index';
+
+const errorResponse = (status: number, body: Record<string, unknown> = {}, headers: Record<string, string> = {}) => ({
+  ok: false,
+  status,
+  statusText: 'Error',
+  headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+  json: () => Promise.resolve(body),
+});
+
+const okResponse = (body: unknown) => ({
+  ok: true,
+  json: () => Promise.resolve(body),
+});
+
+const translate = (client: Shipi18n) =>
+  client.translateJSON({
+    content: { greeting: 'Hello' },
+    sourceLanguage: 'en',
+    targetLanguages: ['es'],
+  });
+
+describe('retry policy', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('does not retry when no retry policy is configured', async () => {
+    const client = new Shipi18n({ apiKey: 'test-key' });
+    (global.fetch as jest.Mock).mockResolvedValueOnce(errorResponse(503));
+
+    await expect(translate(client)).rejects.toThrow(Shipi18nError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries RATE_LIMITED responses until success', async () => {
+    const onRetry = jest.fn();
+    const client = new Shipi18n({
+      apiKey: 'test-key',
+      retry: { maxAttempts: 3, baseDelay: 1, jitter: false, onRetry },
+    });
+
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(errorResponse(429, { code: 'RATE_LIMITED', message: 'Slow down' }))
+      .mockResolvedValueOnce(errorResponse(502))
+      .mockResolvedValueOnce(okResponse({ es: { greeting: 'Hola' } }));
+
+    const result = await translate(client);
+
+    expect(result.translations.es).toEqual({ greeting: 'Hola' });
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[0][0]).toMatchObject({ attempt: 1, maxAttempts: 3, delay: 1 });
+    expect(onRetry.mock.calls[0][0].error.code).toBe('RATE_LIMITED');
+    expect(onRetry.mock.calls[1][0]).toMatchObject({ attempt: 2, delay: 2 });
+  });
+
+  it('retries network errors and timeouts', async () => {
+    const client = new Shipi18n({ apiKey: 'test-key', retry: { baseDelay: 1 } });
+    const abortError = new Error('aborted');
+    abortError.name = 'AbortError';
+
+    (global.fetch as jest.Mock)
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockRejectedValueOnce(abortError)
+      .mockResolvedValueOnce(okResponse({ es: { greeting: 'Hola' } }));
+
+    await expect(translate(client)).resolves.toMatchObject({ translations: { es: { greeting: 'Hola' } } });
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws the last error once attempts are exhausted', async () => {
+    const client = new Shipi18n({ apiKey: 'test-key', retry: { maxAttempts: 2, baseDelay: 1 } });
+
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(errorResponse(500, { message: 'first' }))
+      .mockResolvedValueOnce(errorResponse(500, { message: 'second' }));
+
+    await expect(translate(client)).rejects.toThrow('second');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    [401, 'INVALID_API_KEY'],
+    [402, 'QUOTA_EXCEEDED'],
+    [400, 'HTTP_ERROR'],
+  ])('never retries %i %s', async (status, code) => {
+    const client = new Shipi18n({
+      apiKey: 'test-key',
+      retry: { baseDelay: 1, retryOnStatus: [status], retryOnCodes: [code] },
+    });
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce(errorResponse(status, { code }));
+
+    await expect(translate(client)).rejects.toMatchObject({ code });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('honors the Retry-After header', async () => {
+    const onRetry = jest.fn();
+    const client = new Shipi18n({ apiKey: 'test-key', retry: { baseDelay: 5000, onRetry } });
+
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(errorResponse(429, { code: 'RATE_LIMITED' }, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(okResponse({ es: {} }));
+
+    await translate(client);
+
+    expect(onRetry.mock.calls[0][0].delay).toBe(0);
+    expect(onRetry.mock.calls[0][0].error.retryAfter).toBe(0);
+  });
+
+  it('throws instead of retrying early when Retry-After exceeds maxDelay', async () => {
+    const onRetry = jest.fn();
+    const client = new Shipi18n({ apiKey: 'test-key', retry: { maxDelay: 1000, onRetry } });
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce(
+      errorResponse(429, { code: 'RATE_LIMITED' }, { 'retry-after': '60' })
+    );
+
+    await expect(translate(client)).rejects.toMatchObject({ code: 'RATE_LIMITED', retryAfter: 60000 });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+});
+
+describe('retry helpers', () => {
+  it('classifies retryable errors', () => {
+    expect(isRetryableError(new Shipi18nError('x', 429, 'RATE_LIMITED'))).toBe(true);
+    expect(isRetryableError(new Shipi18nError('x', 503, 'HTTP_ERROR'))).toBe(true);
+    expect(isRetryableError(new Shipi18nError('x', 500, 'NETWORK_ERROR'))).toBe(true);
+    expect(isRetryableError(new Shipi18nError('x', 404, 'HTTP_ERROR'))).toBe(false);
+    expect(isRetryableError(new Shipi18nError('x', 429, 'QUOTA_EXCEEDED'))).toBe(false);
+    expect(isRetryableError(new Shipi18nError('x', 503, 'HTTP_ERROR'), { retryOnStatus: [], retryOnCodes: [] })).toBe(false);
+  });
+
+  it('backs off exponentially up to maxDelay', () => {
+    const error = new Shipi18nError('x', 503);
+    const options = { baseDelay: 100, maxDelay: 350, jitter: false };
+
+    expect(getRetryDelay(1, error, options)).toBe(100);
+    expect(getRetryDelay(2, error, options)).toBe(200);
+    expect(getRetryDelay(3, error, options)).toBe(350);
+  });
+
+  it('waits exactly as long as Retry-After asks', () => {
+    const error = new Shipi18nError('x', 429, 'RATE_LIMITED');
+    error.retryAfter = 2000;
+
+    expect(getRetryDelay(1, error, { baseDelay: 100, maxDelay: 2000 })).toBe(2000);
+    expect(isRetryableError(error, { maxDelay: 2000 })).toBe(true);
+    expect(isRetryableError(error, { maxDelay: 1999 })).toBe(false);
+  });
+
+  it('keeps jittered delays within half of the exponential delay', () => {
+    const delay = getRetryDelay(2, new Shipi18nError('x', 503), { baseDelay: 100 });
+    expect(delay).toBeGreaterThanOrEqual(100);
+    expect(delay).toBeLessThanOrEqual(200);
+  });
+
+  it('parses Retry-After seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('not a date')).toBeUndefined();
+    expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(55000);
+  });
+});
@@ -199,3 +199,115 @@ describe('Shipi18n Error Handling', () => {
     ).rejects.toThrow(Shipi18nError)
   })
 })
+
+describe('Client-side skipping', () => {
+  let client: Shipi18n
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-api-key' })
+    jest.clearAllMocks()
+  })
+
+  test('strips skipped values from the payload and re-inserts them in every language', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        es: { greeting: 'Hola', config: { title: 'Configuración' } },
+        fr: { greeting: 'Bonjour', config: { title: 'Configuration' } },
+      }),
+    })
+
+    const result = await client.translateJSON({
+      content: {
+        greeting: 'Hello',
+        config: { api: { secret: 's3cr3t', region: 'eu' }, title: 'Settings' },
+        brandName: 'Acme',
+      },
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'fr'],
+      skipKeys: ['brandName'],
+      skipPaths: ['config.*.secret', '**.region'],
+    })
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(JSON.parse(body.text)).toEqual({ greeting: 'Hello', config: { title: 'Settings' } })
+    expect(body.text).not.toContain('s3cr3t')
+
+    expect(result.translations.es).toEqual({
+      greeting: 'Hola',
+      config: { api: { secret: 's3cr3t', region: 'eu' }, title: 'Configuración' },
+      brandName: 'Acme',
+    })
+    // Source key order is kept
+    expect(Object.keys(result.translations.fr!.config as object)).toEqual(['api', 'title'])
+    expect(result.skipped).toEqual({
+      count: 3,
+      keys: ['config.api.secret', 'config.api.region', 'brandName'],
+    })
+    expect(result.fallbackInfo).toBeUndefined()
+  })
+
+  test('strips skipped keys that contain dots without nesting them on restore', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ es: { greeting: 'Hola' } }),
+    })
+
+    const result = await client.translateJSON({
+      content: { greeting: 'Hello', 'api.secret': 's3cr3t' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+      skipKeys: ['api.secret'],
+    })
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(mockFetch.mock.calls[0][1].body).not.toContain('s3cr3t')
+    expect(JSON.parse(body.text)).toEqual({ greeting: 'Hello' })
+    expect(result.translations.es).toEqual({ greeting: 'Hola', 'api.secret': 's3cr3t' })
+    expect(result.skipped?.keys).toEqual(['api.secret'])
+  })
+
+  test('skips values matching presets and regexes', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ de: { title: 'Titel' } }),
+    })
+
+    const result = await client.translateJSON({
+      content: {
+        title: 'Title',
+        docs: 'https://example.com/docs',
+        support: 'help@example.com',
+        accent: '#FF8800',
+        sku: 'SKU-1234',
+      },
+      sourceLanguage: 'en',
+      targetLanguages: ['de'],
+      skipValues: ['url', 'email', 'hexColor', /^SKU-\d+$/],
+    })
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(JSON.parse(body.text)).toEqual({ title: 'Title' })
+    expect(result.translations.de).toEqual({
+      title: 'Titel',
+      docs: 'https://example.com/docs',
+      support: 'help@example.com',
+      accent: '#FF8800',
+      sku: 'SKU-1234',
+    })
+    expect(result.skipped?.keys).toEqual(['docs', 'support', 'accent', 'sku'])
+  })
+
+  test('does not call the API when every key is skipped', async () => {
+    const result = await client.translateJSON({
+      content: { homepage: 'https://example.com' },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+      skipValues: ['url'],
+    })
+
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(result.translations.es).toEqual({ homepage: 'https://example.com' })
+    expect(result.fallbackInfo).toBeUndefined()
+  })
+})
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Shipi18n } from '../index';
+
+/** Stubbed API: prefixes every string with the language code */
+function mockTranslationAPI(options: { namespaceFiles?: boolean } = {}) {
+  (global.fetch as jest.Mock).mockImplementation((_url: string, init: { body: string }) => {
+    const body = JSON.parse(init.body);
+    const content = JSON.parse(body.text);
+    const languages: string[] = JSON.parse(body.targetLanguages);
+
+    const translate = (value: unknown, lang: string): unknown =>
+      typeof value === 'string'
+        ? `[${lang}] ${value}`
+        : Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, translate(v, lang)]));
+
+    const response: Record<string, unknown> = {};
+    for (const lang of languages) {
+      response[lang] = translate(content, lang);
+    }
+    if (options.namespaceFiles) {
+      response.namespaceFiles = Object.fromEntries(
+        Object.keys(content).map((ns) => [
+          ns,
+          Object.fromEntries(languages.map((lang) => [lang, translate(content[ns], lang)])),
+        ])
+      );
+    }
+
+    return Promise.resolve({ ok: true, json: () => Promise.resolve(response) });
+  });
+}
+
+describe('syncLocales', () => {
+  let client: Shipi18n;
+  let dir: string;
+
+  const write = (file: string, content: unknown) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), `${JSON.stringify(content, null, 2)}\n`);
+  };
+  const read = (file: string) => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shipi18n-sync-'));
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates namespace files for the {lng}/{ns}.json layout', async () => {
+    mockTranslationAPI({ namespaceFiles: true });
+    write('en/common.json', { hello: 'Hello', nav: { home: 'Home' } });
+    write('en/auth.json', { login: 'Log in' });
+
+    const { files } = await client.syncLocales({
+      dir,
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'fr'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(body.exportPerNamespace).toBe(true);
+    expect(body.groupByNamespace).toBe('true');
+    expect(JSON.parse(body.text)).toEqual({ auth: { login: 'Log in' }, common: { hello: 'Hello', nav: { home: 'Home' } } });
+
+    expect(read('es/common.json')).toEqual({ hello: '[es] Hello', nav: { home: '[es] Home' } });
+    expect(read('fr/auth.json')).toEqual({ login: '[fr] Log in' });
+    expect(files.map((file) => [file.file, file.status])).toEqual([
+      [path.join('es', 'auth.json'), 'created'],
+      [path.join('fr', 'auth.json'), 'created'],
+      [path.join('es', 'common.json'), 'created'],
+      [path.join('fr', 'common.json'), 'created'],
+    ]);
+  });
+
+  it('translates only missing keys and preserves human edits', async () => {
+    mockTranslationAPI();
+    write('common.en.json', { hello: 'Hello', bye: 'Goodbye', added: 'New' });
+    write('common.es.json', { hello: '¡Hola!', bye: 'Adiós', legacy: 'Viejo' });
+
+    const { files } = await client.syncLocales({
+      dir,
+      layout: '{ns}.{lng}.json',
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.parse(body.text)).toEqual({ common: { added: 'New' } });
+
+    expect(read('common.es.json')).toEqual({ hello: '¡Hola!', bye: 'Adiós', legacy: 'Viejo', added: '[es] New' });
+    expect(files).toEqual([
+      {
+        file: 'common.es.json',
+        language: 'es',
+        namespace: 'common',
+        status: 'updated',
+        translatedKeys: ['added'],
+        preservedKeys: ['hello', 'bye'],
+        removedKeys: [],
+      },
+    ]);
+  });
+
+  it('leaves fallback content out of the files so the next sync retries it', async () => {
+    write('en.json', { hello: 'Hello', bye: 'Goodbye' });
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ es: { hello: '[es] Hello' } }),
+    });
+
+    const first = await client.syncLocales({ dir, layout: '{lng}.json', sourceLanguage: 'en', targetLanguages: ['es', 'fr'] });
+
+    expect(read('es.json')).toEqual({ hello: '[es] Hello' });
+    expect(read('fr.json')).toEqual({});
+    expect(first.files.map((file) => file.translatedKeys)).toEqual([['hello'], []]);
+
+    mockTranslationAPI();
+    const second = await client.syncLocales({ dir, layout: '{lng}.json', sourceLanguage: 'en', targetLanguages: ['es', 'fr'] });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+    expect(JSON.parse(body.targetLanguages)).toEqual(['es', 'fr']);
+    expect(read('es.json')).toEqual({ hello: '[es] Hello', bye: '[es] Goodbye' });
+    expect(read('fr.json')).toEqual({ hello: '[fr] Hello', bye: '[fr] Goodbye' });
+    expect(second.files.map((file) => file.status)).toEqual(['updated', 'updated']);
+  });
+
+  it('skips the API and leaves files untouched when everything is translated', async () => {
+    write('en.json', { hello: 'Hello' });
+    fs.writeFileSync(path.join(dir, 'de.json'), '{"hello":"Hallo"}');
+
+    const { files, translation } = await client.syncLocales({
+      dir,
+      layout: '{lng}.json',
+      sourceLanguage: 'en',
+      targetLanguages: ['de'],
+    });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(translation).toBeUndefined();
+    expect(files[0]).toMatchObject({ file: 'de.json', status: 'unchanged', preservedKeys: ['hello'] });
+    expect(fs.readFileSync(path.join(dir, 'de.json'), 'utf8')).toBe('{"hello":"Hallo"}');
+  });
+
+  it('retranslates with overwrite and removes stale keys with prune', async () => {
+    mockTranslationAPI();
+    write('en.json', { hello: 'Hello' });
+    write('it.json', { hello: 'Ciao!', old: 'Vecchio' });
+
+    const { files } = await client.syncLocales({
+      dir,
+      layout: '{lng}.json',
+      sourceLanguage: 'en',
+      targetLanguages: ['it'],
+      overwrite: true,
+      prune: true,
+    });
+
+    expect(read('it.json')).toEqual({ hello: '[it] Hello' });
+    expect(files[0]).toMatchObject({ status: 'updated', translatedKeys: ['hello'], removedKeys: ['old'] });
+  });
+});
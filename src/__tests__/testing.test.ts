@@ -0,0 +1,166 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Shipi18n } from '../index';
+import { MockServer, MockShipi18n, fixtureMiddleware } from '../testing';
+
+describe('MockShipi18n', () => {
+  it('pseudo-translates JSON without touching placeholders or tags', async () => {
+    const shipi18n = new MockShipi18n();
+
+    const result = await shipi18n.translateJSON({
+      content: { greeting: 'Hello {{name}}', link: 'Read <b>more</b>', count: 3 },
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+
+    expect(result.translations.es).toEqual({
+      greeting: '[Ĥéļļö {{name}}]',
+      link: '[Ŕéáð <b>ɱöŕé</b>]',
+      count: 3,
+    });
+    expect(shipi18n.server.requests).toHaveLength(1);
+    expect(shipi18n.server.requests[0].body?.sourceLanguage).toBe('en');
+  });
+
+  it('uses a custom transform and translates text', async () => {
+    const shipi18n = new MockShipi18n({ transform: (text, language) => `${language}:${text}` });
+
+    const result = await shipi18n.translateText({
+      content: ['Hello', 'Goodbye'],
+      sourceLanguage: 'en',
+      targetLanguages: ['fr'],
+    });
+
+    expect(result.translations.fr).toEqual([
+      { original: 'Hello', translated: 'fr:Hello' },
+      { original: 'Goodbye', translated: 'fr:Goodbye' },
+    ]);
+  });
+
+  it('simulates failed languages and missing keys', async () => {
+    const shipi18n = new MockShipi18n({ failLanguages: ['ja'], missingKeys: { de: ['nav.about'] } });
+
+    const result = await shipi18n.translateJSON({
+      content: { nav: { home: 'Home', about: 'About' } },
+      sourceLanguage: 'en',
+      targetLanguages: ['de', 'ja'],
+    });
+
+    expect(result.fallbackInfo?.languagesFallbackToSource).toEqual(['ja']);
+    expect(result.fallbackInfo?.keysFallback).toEqual({ de: ['nav.about'] });
+    expect(result.translations.de).toEqual({ nav: { home: '[Ĥöɱé]', about: 'About' } });
+  });
+
+  it('simulates rate limits that the retry policy recovers from', async () => {
+    const shipi18n = new MockShipi18n({ retry: { maxAttempts: 3, baseDelay: 1 } });
+    shipi18n.server.fail('RATE_LIMITED', 2);
+
+    const result = await shipi18n.translateJSON({ content: { a: 'A' }, sourceLanguage: 'en', targetLanguages: ['es'] });
+
+    expect(result.translations.es).toEqual({ a: '[Á]' });
+    expect(shipi18n.server.requests).toHaveLength(3);
+  });
+
+  it.each([
+    ['TIMEOUT', 'TIMEOUT'],
+    ['NETWORK_ERROR', 'NETWORK_ERROR'],
+    ['QUOTA_EXCEEDED', 'QUOTA_EXCEEDED'],
+    ['SERVER_ERROR', 'HTTP_ERROR'],
+  ] as const)('simulates %s', async (failure, code) => {
+    const shipi18n = new MockShipi18n();
+    shipi18n.server.fail(failure);
+
+    await expect(shipi18n.getLanguages()).rejects.toMatchObject({ code });
+    await expect(shipi18n.getLanguages()).resolves.toHaveProperty('languages');
+  });
+
+  it('can back a regular client', async () => {
+    const server = new MockServer({ languages: [{ code: 'eo', name: 'Esperanto' }] });
+    const shipi18n = new Shipi18n({ apiKey: 'real-key', fetch: server.fetch });
+
+    await expect(shipi18n.getLanguages()).resolves.toEqual({ languages: [{ code: 'eo', name: 'Esperanto' }] });
+    expect(server.requests[0].headers['x-api-key']).toBe('real-key');
+  });
+});
+
+describe('fixtureMiddleware', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'shipi18n-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const translate = (client: Shipi18n) =>
+    client.translateJSON({ content: { greeting: 'Hello' }, sourceLanguage: 'en', targetLanguages: ['es'] });
+
+  it('records responses and replays them without the network', async () => {
+    const server = new MockServer();
+    const recorder = new Shipi18n({
+      apiKey: 'secret-key',
+      fetch: server.fetch,
+      middleware: [fixtureMiddleware({ dir, mode: 'record' })],
+    });
+    const recorded = await translate(recorder);
+
+    const files = await fs.readdir(dir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^api-translate-[0-9a-f]{16}\.json$/);
+    expect(await fs.readFile(path.join(dir, files[0]), 'utf8')).not.toContain('secret-key');
+
+    const offlineFetch = jest.fn();
+    const replayer = new Shipi18n({
+      apiKey: 'other-key',
+      fetch: offlineFetch,
+      middleware: [fixtureMiddleware({ dir })],
+    });
+    const replayed = await translate(replayer);
+
+    expect(offlineFetch).not.toHaveBeenCalled();
+    expect(replayed.translations).toEqual(recorded.translations);
+  });
+
+  it('fails with FIXTURE_NOT_FOUND when replaying an unrecorded request', async () => {
+    const client = new Shipi18n({ apiKey: 'key', fetch: jest.fn(), middleware: [fixtureMiddleware({ dir })] });
+
+    await expect(translate(client)).rejects.toMatchObject({ code: 'FIXTURE_NOT_FOUND' });
+  });
+
+  it('records only missing fixtures in auto mode', async () => {
+    const server = new MockServer();
+    const client = new Shipi18n({
+      apiKey: 'key',
+      fetch: server.fetch,
+      middleware: [fixtureMiddleware({ dir, mode: 'auto' })],
+    });
+
+    await translate(client);
+    await translate(client);
+
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('records non-JSON error bodies as text and keeps the status', async () => {
+    const fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 502,
+      statusText: 'Bad Gateway',
+      headers: { get: () => null },
+      text: () => Promise.resolve('<html>Bad Gateway</html>'),
+    });
+    const recorder = new Shipi18n({ apiKey: 'key', fetch, middleware: [fixtureMiddleware({ dir, mode: 'record' })] });
+
+    await expect(translate(recorder)).rejects.toMatchObject({ name: 'Shipi18nError', statusCode: 502 });
+
+    const [file] = await fs.readdir(dir);
+    const fixture = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'));
+    expect(fixture.response).toEqual({ status: 502, headers: {}, text: '<html>Bad Gateway</html>' });
+
+    const replayer = new Shipi18n({ apiKey: 'key', fetch: jest.fn(), middleware: [fixtureMiddleware({ dir })] });
+    await expect(translate(replayer)).rejects.toMatchObject({ name: 'Shipi18nError', statusCode: 502 });
+  });
+});
@@ -0,0 +1,213 @@
+import { Shipi18n, parseXliff, protectInlineTags, serializeXliff } from '../index';
+
+const XLIFF_12 = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en" datatype="plaintext" original="messages">
+    <body>
+      <trans-unit id="nav.home">
+        <source>Home</source>
+        <note>Navigation link</note>
+      </trans-unit>
+      <trans-unit id="welcome">
+        <source>Hello <g id="1">dear</g> user<x id="2"/> &amp; friends</source>
+        <target state="new"></target>
+      </trans-unit>
+      <trans-unit id="brand" translate="no">
+        <source>Acme</source>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+
+const XLIFF_20 = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en">
+  <file id="f1">
+    <unit id="cart">
+      <notes>
+        <note>Checkout page</note>
+      </notes>
+      <segment id="s1">
+        <source>Pay <ph id="1"/> now</source>
+      </segment>
+    </unit>
+    <unit id="legal">
+      <segment id="a">
+        <source>First.</source>
+      </segment>
+      <segment id="b">
+        <source>Second.</source>
+      </segment>
+    </unit>
+  </file>
+</xliff>
+`;
+
+describe('parseXliff', () => {
+  it('parses XLIFF 1.2 units, notes and translate="no"', () => {
+    const document = parseXliff(XLIFF_12);
+
+    expect(document.version).toBe('1.2');
+    expect(document.sourceLanguage).toBe('en');
+    expect(document.units.map((unit) => unit.key)).toEqual(['nav.home', 'welcome', 'brand']);
+    expect(document.units[0]).toMatchObject({ source: 'Home', notes: ['Navigation link'], translate: true });
+    expect(document.units[1]).toMatchObject({ target: '', state: 'new' });
+    expect(document.units[2].translate).toBe(false);
+  });
+
+  it('parses XLIFF 2.0 units and segments', () => {
+    const document = parseXliff(XLIFF_20);
+
+    expect(document.version).toBe('2.0');
+    expect(document.sourceLanguage).toBe('en');
+    expect(document.units.map((unit) => unit.key)).toEqual(['cart', 'legal.a', 'legal.b']);
+    expect(document.units[0]).toMatchObject({ source: 'Pay <ph id="1"/> now', notes: ['Checkout page'] });
+  });
+
+  it('reads CDATA sections as escaped text', () => {
+    const document = parseXliff(
+      '<xliff version="1.2"><file><body><trans-unit id="a"><source>Use <![CDATA[<b> & <g>]]></source>' +
+        '<target><![CDATA[x]]></target></trans-unit></body></file></xliff>'
+    );
+
+    expect(document.units[0]).toMatchObject({ source: 'Use &lt;b&gt; &amp; &lt;g&gt;', target: 'x' });
+  });
+});
+
+describe('protectInlineTags', () => {
+  it('replaces inline tags with tokens and restores them', () => {
+    const { text, restore } = protectInlineTags('Hello <g id="1">dear</g> user<x id="2"/> &amp; friends');
+
+    expect(text).toBe('Hello {{tag_0}}dear{{tag_1}} user{{tag_2}} & friends');
+    expect(restore('Bonjour {{tag_0}}cher{{tag_1}} utilisateur{{tag_2}} & amis')).toBe(
+      'Bonjour <g id="1">cher</g> utilisateur<x id="2"/> &amp; amis'
+    );
+  });
+});
+
+describe('serializeXliff', () => {
+  it('writes targets, states and the target language', () => {
+    const document = parseXliff(XLIFF_12);
+    const xml = serializeXliff(document, 'fr', {
+      'nav.home': { text: 'Accueil', state: 'translated' },
+      welcome: { text: 'Bonjour', state: 'translated' },
+    });
+
+    expect(xml).toContain('<file source-language="en" datatype="plaintext" original="messages" target-language="fr">');
+    expect(xml).toContain('<source>Home</source>\n        <target state="translated">Accueil</target>');
+    expect(xml).not.toContain('state="new"');
+    expect(parseXliff(xml).units.map((unit) => unit.target)).toEqual(['Accueil', 'Bonjour', undefined]);
+  });
+});
+
+describe('translateXLIFF', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('translates XLIFF 1.2 with notes as context and translate="no" as skipKeys', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        fr: {
+          unit0: 'Accueil',
+          unit1: 'Bonjour {{tag_0}}cher{{tag_1}} utilisateur{{tag_2}} & amis',
+        },
+      }),
+    });
+
+    const result = await client.translateXLIFF({
+      content: XLIFF_12,
+      sourceLanguage: 'en',
+      targetLanguages: ['fr'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.parse(body.text)).toEqual({
+      unit0: 'Home',
+      unit1: 'Hello {{tag_0}}dear{{tag_1}} user{{tag_2}} & friends',
+    });
+    expect(body.contextAnnotations).toEqual({ unit0: 'Navigation link' });
+    expect(body.skipKeys).toEqual(['unit2']);
+
+    const units = parseXliff(result.translations.fr!).units;
+    expect(units.map((unit) => [unit.target, unit.state])).toEqual([
+      ['Accueil', 'translated'],
+      ['Bonjour <g id="1">cher</g> utilisateur<x id="2"/> &amp; amis', 'translated'],
+      ['Acme', 'final'],
+    ]);
+  });
+
+  it('translates XLIFF 2.0 and marks source fallbacks as initial', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        de: { unit0: 'Jetzt {{tag_0}} bezahlen', unit1: 'Erstens.' },
+      }),
+    });
+
+    const result = await client.translateXLIFF({
+      content: XLIFF_20,
+      sourceLanguage: 'en',
+      targetLanguages: ['de'],
+    });
+
+    const xml = result.translations.de;
+    expect(xml).toContain('srcLang="en" trgLang="de"');
+    expect(xml).toContain('<segment id="s1" state="translated">');
+    expect(xml).toContain('<target>Jetzt <ph id="1"/> bezahlen</target>');
+    expect(xml).toContain('<segment id="b" state="initial">');
+    expect(result.fallbackInfo?.keysFallback).toEqual({ de: ['unit2'] });
+  });
+
+  it('keeps units whose ids contain dots or prefix each other', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ fr: { unit0: 'Accueil', unit1: 'Titre' } }),
+    });
+
+    const result = await client.translateXLIFF({
+      content: `<xliff version="1.2"><file source-language="en"><body>
+        <trans-unit id="home"><source>Home</source></trans-unit>
+        <trans-unit id="home.title"><source>Title</source></trans-unit>
+      </body></file></xliff>`,
+      sourceLanguage: 'en',
+      targetLanguages: ['fr'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.parse(body.text)).toEqual({ unit0: 'Home', unit1: 'Title' });
+    expect(parseXliff(result.translations.fr!).units.map((unit) => [unit.id, unit.target])).toEqual([
+      ['home', 'Accueil'],
+      ['home.title', 'Titre'],
+    ]);
+  });
+
+  it('translates CDATA content as text', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ fr: { unit0: 'Utilisez <b> & <i>' } }),
+    });
+
+    const result = await client.translateXLIFF({
+      content: `<xliff version="1.2"><file source-language="en"><body>
+        <trans-unit id="tip"><source><![CDATA[Use <b> & <i>]]></source><note><![CDATA[Tags <b>]]></note></trans-unit>
+      </body></file></xliff>`,
+      sourceLanguage: 'en',
+      targetLanguages: ['fr'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.parse(body.text)).toEqual({ unit0: 'Use <b> & <i>' });
+    expect(body.contextAnnotations).toEqual({ unit0: 'Tags <b>' });
+    expect(result.translations.fr).toContain('<target state="translated">Utilisez &lt;b&gt; &amp; &lt;i&gt;</target>');
+    expect(parseXliff(result.translations.fr!).units[0].target).toBe('Utilisez &lt;b&gt; &amp; &lt;i&gt;');
+  });
+});
@@ -0,0 +1,201 @@
+import { Shipi18n, encodeYamlScalar, parseYaml, serializeYaml } from '../index';
+
+const RAILS_YAML = `# Application strings
+en:
+  defaults: &defaults
+    save: Save
+    cancel: 'Cancel'
+  users:
+    <<: *defaults
+    # Page heading
+    title: "User \\"settings\\""   # shown in the nav
+    count: 3
+    intro: |
+      Welcome aboard.
+      Enjoy your stay.
+    notice: >
+      This text is
+      folded.
+    day_names: [Sunday, Monday, :sunday]
+    steps:
+    - Sign up
+    - Confirm email
+    enabled: true
+    backup: *defaults
+`;
+
+describe('parseYaml', () => {
+  it('finds string values with their paths, styles and comments', () => {
+    const document = parseYaml(RAILS_YAML);
+
+    expect(document.rootKey).toBe('en');
+    expect(document.entries.map((entry) => [entry.path.join('.'), entry.value, entry.style])).toEqual([
+      ['en.defaults.save', 'Save', 'plain'],
+      ['en.defaults.cancel', 'Cancel', 'single'],
+      ['en.users.title', 'User "settings"', 'double'],
+      ['en.users.intro', 'Welcome aboard.\nEnjoy your stay.\n', 'literal'],
+      ['en.users.notice', 'This text is folded.\n', 'folded'],
+      ['en.users.day_names.0', 'Sunday', 'flow'],
+      ['en.users.day_names.1', 'Monday', 'flow'],
+      ['en.users.steps.0', 'Sign up', 'plain'],
+      ['en.users.steps.1', 'Confirm email', 'plain'],
+    ]);
+    expect(document.entries[2].comment).toBe('Page heading');
+    expect(document.sequences).toEqual(['["en","users","day_names"]', '["en","users","steps"]']);
+  });
+
+  it('applies block scalar chomping indicators', () => {
+    const document = parseYaml('strip: |-\n  one\nkeep: |+\n  two\n\nclip: >\n  three\n');
+
+    expect(document.entries.map((entry) => [entry.value, entry.chomping])).toEqual([
+      ['one', 'strip'],
+      ['two\n\n', 'keep'],
+      ['three\n', 'clip'],
+    ]);
+  });
+
+  it('handles multi-line quoted and plain scalars', () => {
+    const document = parseYaml('a: "one\n  two"\nb: three\n  four\nc: x\n');
+
+    expect(document.entries.map((entry) => [entry.value, entry.line, entry.endLine])).toEqual([
+      ['one two', 0, 2],
+      ['three four', 2, 4],
+      ['x', 4, 5],
+    ]);
+    expect(document.rootKey).toBeUndefined();
+  });
+});
+
+describe('encodeYamlScalar', () => {
+  it('quotes values that would not round-trip as plain scalars', () => {
+    expect(encodeYamlScalar('Hola')).toBe('Hola');
+    expect(encodeYamlScalar('%{count} items')).toBe('"%{count} items"');
+    expect(encodeYamlScalar('Nota: importante')).toBe('"Nota: importante"');
+    expect(encodeYamlScalar('No')).toBe('"No"');
+    expect(encodeYamlScalar("l'été", 'single')).toBe("'l''été'");
+  });
+});
+
+describe('serializeYaml', () => {
+  it('rewrites values in place and renames the root key', () => {
+    const document = parseYaml(RAILS_YAML);
+    const output = serializeYaml(
+      document,
+      {
+        defaults: { save: 'Speichern', cancel: 'Abbrechen' },
+        users: {
+          title: 'Benutzer "Einstellungen"',
+          intro: 'Willkommen an Bord.\nViel Spaß.',
+          notice: 'Dieser Text ist gefaltet.',
+          day_names: ['Sonntag', 'Montag'],
+          steps: ['Registrieren'],
+        },
+      },
+      { stripSegments: 1, rootKey: 'de' }
+    );
+
+    expect(output).toBe(`# Application strings
+de:
+  defaults: &defaults
+    save: Speichern
+    cancel: 'Abbrechen'
+  users:
+    <<: *defaults
+    # Page heading
+    title: "Benutzer \\"Einstellungen\\""   # shown in the nav
+    count: 3
+    intro: |
+      Willkommen an Bord.
+      Viel Spaß.
+    notice: >
+      Dieser Text ist gefaltet.
+    day_names: [Sonntag, Montag, :sunday]
+    steps:
+    - Registrieren
+    - Confirm email
+    enabled: true
+    backup: *defaults
+`);
+  });
+});
+
+describe('translateYAML', () => {
+  let client: Shipi18n;
+
+  beforeEach(() => {
+    client = new Shipi18n({ apiKey: 'test-key' });
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('strips the root locale key and re-adds it per target language', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        fr: { greeting: 'Bonjour %{name}', menu: { home: 'Accueil' } },
+        'pt-BR': { greeting: 'Olá %{name}', menu: { home: 'Início' } },
+      }),
+    });
+
+    const content = 'en:\n  # Greeting on the dashboard\n  greeting: "Hello %{name}"\n  menu:\n    home: Home\n';
+    const result = await client.translateYAML({
+      content,
+      sourceLanguage: 'en',
+      targetLanguages: ['fr', 'pt-BR'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.parse(body.text)).toEqual({ greeting: 'Hello %{name}', menu: { home: 'Home' } });
+    expect(body.contextAnnotations).toEqual({ greeting: 'Greeting on the dashboard' });
+
+    expect(result.translations.fr).toBe(
+      'fr:\n  # Greeting on the dashboard\n  greeting: "Bonjour %{name}"\n  menu:\n    home: Accueil\n'
+    );
+    expect(result.translations['pt-BR']?.startsWith('pt-BR:\n')).toBe(true);
+  });
+
+  it('sends sequences as arrays and keeps block scalar line breaks', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        es: { intro: 'Bienvenido.\nDisfruta.\n', days: ['Lunes', 'Martes'], steps: ['Registrarse'] },
+      }),
+    });
+
+    const result = await client.translateYAML({
+      content: 'intro: |\n  Welcome.\n  Enjoy.\ndays: [Monday, Tuesday]\nsteps:\n  - Sign up\n',
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(body.groupByNamespace).toBe('false');
+    expect(JSON.parse(body.text)).toEqual({
+      intro: 'Welcome.\nEnjoy.\n',
+      days: ['Monday', 'Tuesday'],
+      steps: ['Sign up'],
+    });
+    expect(result.translations.es).toBe(
+      'intro: |\n  Bienvenido.\n  Disfruta.\ndays: [Lunes, Martes]\nsteps:\n  - Registrarse\n'
+    );
+    expect(parseYaml(result.translations.es!).entries[0].value).toBe('Bienvenido.\nDisfruta.\n');
+  });
+
+  it('keeps documents without a locale root as they are', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ es: { title: 'Hola' } }),
+    });
+
+    const result = await client.translateYAML({
+      content: 'title: Hello\n',
+      sourceLanguage: 'en',
+      targetLanguages: ['es'],
+    });
+
+    expect(result.translations.es).toBe('title: Hola\n');
+  });
+});
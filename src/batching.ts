@@ -0,0 +1,282 @@
+/**
+ * Splitting of large JSON payloads into size-bounded batches and merging of per-batch results
+ */
+
+import type { FallbackInfo, NamespaceInfo, TranslationResult, TranslationWarning } from './index';
+import { flattenSegments, isPlainObject, setSegments } from './utils';
+
+export interface BatchOptions {
+  /** Maximum number of keys per request (default: 500) */
+  maxKeys?: number;
+  /** Maximum serialized size of a request's content in bytes (default: 100000) */
+  maxBytes?: number;
+  /** Maximum number of requests in flight at once (default: 4) */
+  concurrency?: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: Required<BatchOptions> = {
+  maxKeys: 500,
+  maxBytes: 100000,
+  concurrency: 4,
+};
+
+interface BatchEntry {
+  /** Key path as segments, so keys containing dots stay single keys */
+  segments: string[];
+  value: unknown;
+  bytes: number;
+}
+
+const encoder = new TextEncoder();
+
+function entrySize(segments: string[], value: unknown): number {
+  // Approximates the entry's share of the pretty-printed JSON payload
+  const keysBytes = segments.reduce((sum, key) => sum + encoder.encode(JSON.stringify(key)).length + 2, 0);
+  return keysBytes + encoder.encode(JSON.stringify(value) ?? '').length + 2;
+}
+
+/**
+ * Split content into batches bounded by key count and byte size.
+ *
+ * When `groupByNamespace` is set, keys sharing a top-level namespace are kept in
+ * the same batch; a namespace is only split when it exceeds the limits on its own,
+ * and its chunks are never mixed with other namespaces.
+ */
+export function createBatches(
+  content: Record<string, unknown>,
+  options: { maxKeys?: number; maxBytes?: number; groupByNamespace?: boolean } = {}
+): Array<Record<string, unknown>> {
+  const {
+    maxKeys = DEFAULT_BATCH_OPTIONS.maxKeys,
+    maxBytes = DEFAULT_BATCH_OPTIONS.maxBytes,
+    groupByNamespace = false,
+  } = options;
+
+  const units: BatchEntry[][] = [];
+  const unitsByNamespace = new Map<string, BatchEntry[]>();
+
+  for (const [segments, value] of flattenSegments(content)) {
+    const entry = { segments, value, bytes: entrySize(segments, value) };
+
+    if (!groupByNamespace) {
+      units.push([entry]);
+      continue;
+    }
+
+    const namespace = segments[0];
+    let unit = unitsByNamespace.get(namespace);
+    if (!unit) {
+      unit = [];
+      unitsByNamespace.set(namespace, unit);
+      units.push(unit);
+    }
+    unit.push(entry);
+  }
+
+  const batches: BatchEntry[][] = [];
+  let current: BatchEntry[] = [];
+  let currentBytes = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      batches.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+  };
+
+  for (const unit of units) {
+    const unitBytes = unit.reduce((sum, entry) => sum + entry.bytes, 0);
+
+    if (current.length + unit.length <= maxKeys && currentBytes + unitBytes <= maxBytes) {
+      current.push(...unit);
+      currentBytes += unitBytes;
+      continue;
+    }
+
+    flush();
+
+    if (unit.length <= maxKeys && unitBytes <= maxBytes) {
+      current.push(...unit);
+      currentBytes = unitBytes;
+      continue;
+    }
+
+    // Oversized unit: split it entry by entry into batches of its own
+    for (const entry of unit) {
+      if (current.length > 0 && (current.length + 1 > maxKeys || currentBytes + entry.bytes > maxBytes)) {
+        flush();
+      }
+      current.push(entry);
+      currentBytes += entry.bytes;
+    }
+    flush();
+  }
+
+  flush();
+
+  return batches.map((batch) => {
+    const batchContent: Record<string, unknown> = {};
+    batch.forEach((entry) => setSegments(batchContent, entry.segments, entry.value));
+    return batchContent;
+  });
+}
+
+/**
+ * Run an async mapper over items with at most `limit` calls in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+
+  return results;
+}
+
+function deepMerge(target: unknown, source: unknown): unknown {
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return [...target, ...source];
+  }
+
+  if (isPlainObject(target) && isPlainObject(source)) {
+    const merged: Record<string, unknown> = { ...target };
+    for (const key of Object.keys(source)) {
+      merged[key] = key in merged ? deepMerge(merged[key], source[key]) : source[key];
+    }
+    return merged;
+  }
+
+  return source;
+}
+
+function mergeKeyList(
+  a: { count: number; keys: string[] } | undefined,
+  b: { count: number; keys: string[] }
+): { count: number; keys: string[] } {
+  if (!a) {
+    return { count: b.count, keys: [...b.keys] };
+  }
+  return { count: a.count + b.count, keys: [...a.keys, ...b.keys] };
+}
+
+function mergeFallbackInfo(a: FallbackInfo | undefined, b: FallbackInfo): FallbackInfo {
+  if (!a) {
+    return deepMerge({}, b) as FallbackInfo;
+  }
+
+  return {
+    used: a.used || b.used,
+    languagesFallbackToSource: Array.from(
+      new Set([...a.languagesFallbackToSource, ...b.languagesFallbackToSource])
+    ),
+    regionalFallbacks: { ...a.regionalFallbacks, ...b.regionalFallbacks },
+    keysFallback: deepMerge(a.keysFallback, b.keysFallback) as Record<string, string[]>,
+    ...((a.keysFallbackFrom || b.keysFallbackFrom) && {
+      keysFallbackFrom: deepMerge(a.keysFallbackFrom || {}, b.keysFallbackFrom || {}) as Record<string, Record<string, string>>,
+    }),
+  };
+}
+
+function mergeNamespaceInfo(a: NamespaceInfo | undefined, b: NamespaceInfo): NamespaceInfo {
+  if (!a) {
+    return { ...b, namespaces: b.namespaces?.map((ns) => ({ ...ns })) };
+  }
+
+  const namespaces = (a.namespaces || []).map((ns) => ({ ...ns }));
+  for (const ns of b.namespaces || []) {
+    const existing = namespaces.find((candidate) => candidate.name === ns.name);
+    if (existing) {
+      existing.keyCount += ns.keyCount;
+    } else {
+      namespaces.push({ ...ns });
+    }
+  }
+
+  return {
+    ...a,
+    ...b,
+    detected: a.detected || b.detected,
+    count: namespaces.length || a.count || b.count,
+    namespaces,
+  };
+}
+
+interface NamespaceFileName {
+  namespace: string;
+  files: string[];
+}
+
+function mergeNamespaceFileNames(a: NamespaceFileName[] | undefined, b: NamespaceFileName[]): NamespaceFileName[] {
+  const merged = (a || []).map((entry) => ({ ...entry, files: [...entry.files] }));
+
+  for (const entry of b) {
+    const existing = merged.find((candidate) => candidate.namespace === entry.namespace);
+    if (existing) {
+      existing.files = Array.from(new Set([...existing.files, ...entry.files]));
+    } else {
+      merged.push({ ...entry, files: [...entry.files] });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merge the results of several batched translate requests into a single result
+ */
+export function mergeTranslationResults(results: TranslationResult[]): TranslationResult {
+  const merged: TranslationResult = {};
+
+  for (const result of results) {
+    for (const key of Object.keys(result)) {
+      const value = result[key];
+      if (value === undefined) {
+        continue;
+      }
+
+      switch (key) {
+        case 'skipped':
+        case 'contextEnhanced':
+          merged[key] = mergeKeyList(
+            merged[key] as { count: number; keys: string[] } | undefined,
+            value as { count: number; keys: string[] }
+          );
+          break;
+        case 'warnings':
+          merged.warnings = [
+            ...((merged.warnings as TranslationWarning[] | undefined) || []),
+            ...(value as TranslationWarning[]),
+          ];
+          break;
+        case 'fallbackInfo':
+          merged.fallbackInfo = mergeFallbackInfo(merged.fallbackInfo as FallbackInfo | undefined, value as FallbackInfo);
+          break;
+        case 'namespaceInfo':
+          merged.namespaceInfo = mergeNamespaceInfo(merged.namespaceInfo as NamespaceInfo | undefined, value as NamespaceInfo);
+          break;
+        case 'namespaceFileNames':
+          merged.namespaceFileNames = mergeNamespaceFileNames(
+            merged.namespaceFileNames as unknown as NamespaceFileName[] | undefined,
+            value as unknown as NamespaceFileName[]
+          ) as unknown as TranslationResult[string];
+          break;
+        default:
+          merged[key] = (key in merged ? deepMerge(merged[key], value) : deepMerge({}, value)) as TranslationResult[string];
+      }
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,231 @@
+/**
+ * Local translation cache: interface and built-in in-memory LRU and filesystem implementations
+ */
+
+import { promises as fs } from 'fs';
+
+/**
+ * Storage for individual translated strings.
+ * Methods may be synchronous or return promises.
+ */
+export interface TranslationCache {
+  get(key: string): string | undefined | Promise<string | undefined>;
+  set(key: string, value: string): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  /** Persist pending writes; called once after each translate call */
+  flush?(): void | Promise<void>;
+}
+
+export interface CacheKeyParts {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  htmlHandling: string;
+  preservePlaceholders: boolean;
+  context?: string;
+}
+
+export interface CacheInfo {
+  /** Key × language lookups served from the cache */
+  hits: number;
+  /** Key × language lookups that had to be requested from the API */
+  misses: number;
+}
+
+/**
+ * Build the cache key for a single source string and target language
+ */
+export function createCacheKey(parts: CacheKeyParts): string {
+  return JSON.stringify([
+    parts.sourceLanguage,
+    parts.targetLanguage,
+    parts.htmlHandling,
+    parts.preservePlaceholders,
+    parts.context || '',
+    parts.text,
+  ]);
+}
+
+/**
+ * In-memory least-recently-used cache
+ *
+ * @example
+ * ```typescript
+ * const shipi18n = new Shipi18n({ apiKey, cache: new MemoryCache({ maxEntries: 5000 }) });
+ * ```
+ */
+export class MemoryCache implements TranslationCache {
+  private entries = new Map<string, string>();
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries || 10000;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): string | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: string): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache persisted to a JSON file, loaded on first access and written on flush
+ *
+ * @example
+ * ```typescript
+ * const shipi18n = new Shipi18n({ apiKey, cache: new FileCache('.shipi18n-cache.json') });
+ * ```
+ */
+export class FileCache implements TranslationCache {
+  private entries?: Record<string, string>;
+  private dirty = false;
+
+  constructor(private filePath: string) {}
+
+  async get(key: string): Promise<string | undefined> {
+    const entries = await this.load();
+    return Object.prototype.hasOwnProperty.call(entries, key) ? entries[key] : undefined;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const entries = await this.load();
+    entries[key] = value;
+    this.dirty = true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const entries = await this.load();
+    if (key in entries) {
+      delete entries[key];
+      this.dirty = true;
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (!this.dirty || !this.entries) {
+      return;
+    }
+    await fs.writeFile(this.filePath, JSON.stringify(this.entries, null, 2));
+    this.dirty = false;
+  }
+
+  private async load(): Promise<Record<string, string>> {
+    if (!this.entries) {
+      try {
+        this.entries = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+        this.entries = {};
+      }
+    }
+    return this.entries as Record<string, string>;
+  }
+}
+
+/** Languages that miss the same units, so they can share one request */
+export interface CacheMissGroup {
+  languages: string[];
+  /** Unit ids to request for these languages (empty when every unit was cached) */
+  ids: string[];
+}
+
+export interface CacheLookup {
+  /** Cached translations by language, then by unit id */
+  hits: Record<string, Record<string, string>>;
+  /** Unit ids that are missing for at least one language */
+  misses: string[];
+  /** Every language, grouped by the unit ids it misses */
+  groups: CacheMissGroup[];
+  info: CacheInfo;
+}
+
+/**
+ * Look up translatable units (keyed by an id such as a dot path) for every language
+ */
+export async function lookupCache(
+  cache: TranslationCache,
+  units: Record<string, string>,
+  languages: string[],
+  keyFor: (id: string, language: string) => string
+): Promise<CacheLookup> {
+  const lookup: CacheLookup = { hits: {}, misses: [], groups: [], info: { hits: 0, misses: 0 } };
+  const groupsByMisses = new Map<string, CacheMissGroup>();
+
+  for (const language of languages) {
+    const misses: string[] = [];
+    lookup.hits[language] = {};
+
+    for (const id of Object.keys(units)) {
+      const value = await cache.get(keyFor(id, language));
+      if (value === undefined) {
+        misses.push(id);
+        lookup.info.misses++;
+      } else {
+        lookup.hits[language][id] = value;
+        lookup.info.hits++;
+      }
+    }
+
+    const signature = JSON.stringify(misses);
+    const group = groupsByMisses.get(signature);
+    if (group) {
+      group.languages.push(language);
+    } else {
+      const created = { languages: [language], ids: misses };
+      groupsByMisses.set(signature, created);
+      lookup.groups.push(created);
+    }
+  }
+
+  lookup.misses = Object.keys(units).filter((id) => lookup.groups.some((group) => group.ids.includes(id)));
+
+  return lookup;
+}
+
+/**
+ * Store freshly translated units (by language, then by unit id), then flush the cache
+ */
+export async function storeInCache(
+  cache: TranslationCache,
+  translations: Record<string, Record<string, string>>,
+  keyFor: (id: string, language: string) => string
+): Promise<void> {
+  for (const [language, units] of Object.entries(translations)) {
+    for (const [id, translated] of Object.entries(units)) {
+      if (translated !== '') {
+        await cache.set(keyFor(id, language), translated);
+      }
+    }
+  }
+
+  await cache.flush?.();
+}
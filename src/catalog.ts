@@ -0,0 +1,221 @@
+/**
+ * Cached catalog of the languages the API supports
+ */
+
+import { Shipi18nError } from './errors';
+import type { RequestOptions } from './index';
+import {
+  LanguageTagValidation,
+  canonicalizeLanguageTag,
+  isSameLanguageTag,
+  validateLanguageTags,
+} from './languages';
+import { getPluralCategories } from './plurals';
+
+/** Scripts written right to left */
+const RTL_SCRIPTS = ['Adlm', 'Arab', 'Hebr', 'Mand', 'Nkoo', 'Rohg', 'Samr', 'Syrc', 'Thaa'];
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LanguageInfo {
+  /** Code as returned by the API */
+  code: string;
+  /** English name as returned by the API */
+  name: string;
+  /** Name of the language in itself (e.g. 'Español'), or `name` when unknown */
+  nativeName: string;
+  direction: TextDirection;
+  /** CLDR cardinal plural categories (e.g. ['one', 'other']) */
+  pluralCategories: string[];
+}
+
+export interface LanguageCatalogOptions {
+  /** How long the language list is cached, in milliseconds (default: 1 hour) */
+  ttl?: number;
+}
+
+/** Load the raw language list, e.g. `(requestOptions) => shipi18n.getLanguages(requestOptions)` */
+export type LanguageLoader = (requestOptions: RequestOptions) => Promise<{ languages: Array<{ code: string; name: string }> }>;
+
+/**
+ * Text direction of a language, from its (likely) script: ar, he, fa, ur, … are 'rtl'
+ */
+export function getTextDirection(language: string): TextDirection {
+  try {
+    const { script } = new Intl.Locale(canonicalizeLanguageTag(language)).maximize();
+    return script && RTL_SCRIPTS.includes(script) ? 'rtl' : 'ltr';
+  } catch {
+    return 'ltr';
+  }
+}
+
+function getNativeName(code: string): string | undefined {
+  try {
+    const canonical = canonicalizeLanguageTag(code);
+    const nativeName = new Intl.DisplayNames([canonical], { type: 'language' }).of(canonical);
+    return nativeName && nativeName !== canonical ? nativeName : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Settle with `promise`, or reject with ABORTED as soon as `signal` aborts
+ */
+function unlessAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(new Shipi18nError('Request aborted', 499, 'ABORTED'));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Shipi18nError('Request aborted', 499, 'ABORTED'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Supported languages with names, text direction and plural categories. The list is
+ * fetched on first use and cached for `ttl`; concurrent calls share one request, which
+ * keeps running when one of them is aborted.
+ *
+ * @example
+ * ```typescript
+ * const catalog = shipi18n.languages;
+ *
+ * await catalog.get('Spanish');   // { code: 'es', name: 'Spanish', nativeName: 'español', direction: 'ltr', ... }
+ * await catalog.suggest('sp');    // ['es', ...]
+ * await catalog.assertSupported(['es', 'sp']); // throws UNSUPPORTED_LANGUAGE
+ * ```
+ */
+export class LanguageCatalog {
+  private languages?: LanguageInfo[];
+  private loadedAt = 0;
+  private pending?: Promise<LanguageInfo[]>;
+  private ttl: number;
+
+  constructor(
+    private load: LanguageLoader,
+    options: LanguageCatalogOptions = {}
+  ) {
+    this.ttl = options.ttl ?? 60 * 60 * 1000;
+  }
+
+  /**
+   * All supported languages, from the cache while it is fresh
+   */
+  async list(requestOptions: RequestOptions = {}): Promise<LanguageInfo[]> {
+    if (this.languages && Date.now() - this.loadedAt < this.ttl) {
+      return this.languages;
+    }
+
+    // The shared load runs without any caller's signal; each caller stops waiting on its own
+    const { signal, ...loadOptions } = requestOptions;
+    this.pending ||= this.load(loadOptions)
+      .then(({ languages }) => {
+        this.languages = languages.map(({ code, name }) => ({
+          code,
+          name,
+          nativeName: getNativeName(code) ?? name,
+          direction: getTextDirection(code),
+          pluralCategories: getPluralCategories(canonicalizeLanguageTag(code)) ?? ['other'],
+        }));
+        this.loadedAt = Date.now();
+        return this.languages;
+      })
+      .finally(() => {
+        this.pending = undefined;
+      });
+
+    return signal ? unlessAborted(this.pending, signal) : this.pending;
+  }
+
+  /**
+   * Find a language by code (any spelling, e.g. pt_BR) or by English or native name
+   */
+  async get(codeOrName: string, requestOptions: RequestOptions = {}): Promise<LanguageInfo | undefined> {
+    const languages = await this.list(requestOptions);
+    const name = codeOrName.trim().toLowerCase();
+
+    return (
+      languages.find((language) => isSameLanguageTag(language.code, codeOrName)) ??
+      languages.find((language) => language.name.toLowerCase() === name || language.nativeName.toLowerCase() === name)
+    );
+  }
+
+  /**
+   * Supported codes that look like `input`: names starting with it, then codes one edit away
+   */
+  async suggest(input: string, requestOptions: RequestOptions = {}): Promise<string[]> {
+    const languages = await this.list(requestOptions);
+    const query = canonicalizeLanguageTag(input).toLowerCase();
+
+    const byName = languages.filter(
+      (language) =>
+        query.length >= 2 &&
+        (language.name.toLowerCase().startsWith(query) || language.nativeName.toLowerCase().startsWith(query))
+    );
+    const byCode = languages
+      .map((language) => ({ language, distance: editDistance(query, language.code.toLowerCase()) }))
+      .filter(({ distance }) => distance <= 1)
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ language }) => language);
+
+    return Array.from(new Set([...byName, ...byCode].map((language) => language.code))).slice(0, 3);
+  }
+
+  /**
+   * Check tags against the catalog; unsupported tags report the closest supported parent language
+   */
+  async validate(tags: string[], requestOptions: RequestOptions = {}): Promise<LanguageTagValidation[]> {
+    const languages = await this.list(requestOptions);
+    return validateLanguageTags(tags, languages.map((language) => language.code));
+  }
+
+  /**
+   * Throw an UNSUPPORTED_LANGUAGE error, with suggestions, if a tag is neither supported
+   * nor covered by a supported parent language (es-MX is accepted when es is supported)
+   */
+  async assertSupported(tags: string[], requestOptions: RequestOptions = {}): Promise<void> {
+    const unsupported = (await this.validate(tags, requestOptions)).filter(
+      (validation) => !validation.supported && !validation.fallback
+    );
+    if (unsupported.length === 0) {
+      return;
+    }
+
+    const suggestions: Record<string, string[]> = {};
+    for (const { tag } of unsupported) {
+      suggestions[tag] = await this.suggest(tag, requestOptions);
+    }
+
+    const described = unsupported.map(({ tag }) =>
+      suggestions[tag].length > 0 ? `"${tag}" (did you mean ${suggestions[tag].join(', ')}?)` : `"${tag}"`
+    );
+    const error = new Shipi18nError(`Unsupported language: ${described.join(', ')}`, 400, 'UNSUPPORTED_LANGUAGE');
+    error.suggestions = suggestions;
+    throw error;
+  }
+
+  /**
+   * Drop the cached list, so the next call fetches it again
+   */
+  clear(): void {
+    this.languages = undefined;
+    this.loadedAt = 0;
+  }
+}
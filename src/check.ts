@@ -0,0 +1,274 @@
+/**
+ * Offline consistency checks between source content and its translations
+ */
+
+import { PlaceholderMismatch, comparePlaceholders } from './placeholders';
+import { findPluralGroups, getPluralCategories, parsePluralKey, validatePlurals } from './plurals';
+import { isSkippedPath } from './skip';
+import { flattenObject, getNestedValue, isPlainObject } from './utils';
+
+export type LocaleIssueType =
+  | 'missing'
+  | 'extra'
+  | 'untranslated'
+  | 'empty'
+  | 'type_mismatch'
+  | 'placeholder_mismatch';
+
+export type LocaleIssueSeverity = 'error' | 'warning';
+
+export interface LocaleIssue {
+  type: LocaleIssueType;
+  /** Key path */
+  key: string;
+  severity: LocaleIssueSeverity;
+  message: string;
+  details?: PlaceholderMismatch | { source: string; translation: string };
+}
+
+/** pass: no issues, warn: only warnings, fail: at least one error */
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface LanguageCheckResult {
+  status: CheckStatus;
+  issues: LocaleIssue[];
+  counts: Record<LocaleIssueType, number>;
+}
+
+export interface LocaleCheckReport {
+  status: CheckStatus;
+  /** 0 when the check passed, 1 otherwise (suitable for process.exitCode) */
+  exitCode: number;
+  languages: Record<string, LanguageCheckResult>;
+  /** Issue counts across all languages */
+  counts: Record<LocaleIssueType, number>;
+}
+
+export interface CheckLocalesOptions {
+  /** Keys to ignore (exact paths) */
+  skipKeys?: string[];
+  /** Path patterns to ignore (glob wildcards, as in translateJSON) */
+  skipPaths?: string[];
+  /** Override the severity of an issue type, or 'off' to not report it */
+  severity?: Partial<Record<LocaleIssueType, LocaleIssueSeverity | 'off'>>;
+  /** Fail on warnings too (default: false) */
+  strict?: boolean;
+}
+
+const DEFAULT_SEVERITY: Record<LocaleIssueType, LocaleIssueSeverity> = {
+  missing: 'error',
+  empty: 'error',
+  type_mismatch: 'error',
+  placeholder_mismatch: 'error',
+  extra: 'warning',
+  untranslated: 'warning',
+};
+
+function emptyCounts(): Record<LocaleIssueType, number> {
+  return { missing: 0, extra: 0, untranslated: 0, empty: 0, type_mismatch: 0, placeholder_mismatch: 0 };
+}
+
+function describe(value: unknown): string {
+  return Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+}
+
+/**
+ * Find source keys that a translation lacks: undefined, null or empty string.
+ * A missing nested object is reported once, by its own path.
+ */
+export function findMissingKeys(
+  source: Record<string, unknown>,
+  translation: Record<string, unknown>,
+  prefix = ''
+): string[] {
+  const missing: string[] = [];
+
+  for (const key of Object.keys(source)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    const sourceValue = source[key];
+    const translationValue = translation[key];
+
+    if (translationValue === undefined || translationValue === null || translationValue === '') {
+      missing.push(fullKey);
+    } else if (
+      typeof sourceValue === 'object' &&
+      sourceValue !== null &&
+      !Array.isArray(sourceValue) &&
+      typeof translationValue === 'object' &&
+      translationValue !== null
+    ) {
+      // Recurse into nested objects
+      missing.push(
+        ...findMissingKeys(
+          sourceValue as Record<string, unknown>,
+          translationValue as Record<string, unknown>,
+          fullKey
+        )
+      );
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Check one language's translation against the source
+ */
+function checkLanguage(
+  source: Record<string, unknown>,
+  translation: Record<string, unknown>,
+  language: string,
+  options: CheckLocalesOptions
+): LocaleIssue[] {
+  const { skipKeys = [], skipPaths = [] } = options;
+  const sourceFlat = flattenObject(source);
+  const translationFlat = flattenObject(translation);
+  const issues: LocaleIssue[] = [];
+  const reported = new Set<string>();
+
+  const report = (type: LocaleIssueType, key: string, message: string, details?: LocaleIssue['details']) => {
+    const severity = options.severity?.[type] ?? DEFAULT_SEVERITY[type];
+    if (severity !== 'off' && !isSkippedPath(key, skipKeys, skipPaths) && !reported.has(key)) {
+      issues.push({ type, key, severity, message, ...(details ? { details } : {}) });
+    }
+    reported.add(key);
+  };
+
+  // Plural variants depend on the language: ja has no `_one`, ru adds `_few` / `_many`
+  const pluralGroups = new Set(findPluralGroups(source).map((group) => `${group.type}:${group.key}`));
+  const pluralVariant = (key: string) => {
+    const plural = parsePluralKey(key);
+    if (!plural || !pluralGroups.has(`${plural.type}:${plural.key}`)) {
+      return undefined;
+    }
+    const categories = getPluralCategories(language, plural.type);
+    const optionalZero = plural.category === 'zero' && plural.type === 'cardinal';
+    return { used: !categories || categories.includes(plural.category) || optionalZero };
+  };
+
+  // Type mismatches: an object on one side and a value on the other
+  for (const key of Object.keys(sourceFlat)) {
+    const value = getNestedValue(translation, key);
+    if (isPlainObject(value)) {
+      report('type_mismatch', key, `Expected ${describe(sourceFlat[key])} at "${key}", found object`);
+    } else if (value !== undefined && value !== null && value !== '' && describe(value) !== describe(sourceFlat[key])) {
+      report('type_mismatch', key, `Expected ${describe(sourceFlat[key])} at "${key}", found ${describe(value)}`);
+    }
+  }
+  for (const key of Object.keys(translationFlat)) {
+    if (isPlainObject(getNestedValue(source, key))) {
+      report('type_mismatch', key, `Expected object at "${key}", found ${describe(translationFlat[key])}`);
+    }
+  }
+
+  // Missing and empty values
+  for (const key of findMissingKeys(source, translation)) {
+    const sourceValue = getNestedValue(source, key);
+    const leaves = isPlainObject(sourceValue)
+      ? Object.keys(flattenObject(sourceValue)).map((leaf) => `${key}.${leaf}`)
+      : [key];
+
+    for (const leaf of leaves) {
+      if (getNestedValue(source, leaf) === '') {
+        continue;
+      }
+      if (getNestedValue(translation, leaf) === '') {
+        report('empty', leaf, `Empty translation for "${leaf}"`);
+      } else if (pluralVariant(leaf)?.used !== false) {
+        report('missing', leaf, `Missing translation for "${leaf}"`);
+      }
+    }
+  }
+
+  // Plural categories the language needs beyond the source's (e.g. ru `_few`)
+  for (const issue of validatePlurals(source, translation, language)) {
+    for (const category of issue.missing) {
+      const key = `${issue.key}${issue.type === 'ordinal' ? '_ordinal' : ''}_${category}`;
+      report('missing', key, `Missing plural form "${category}" for "${issue.key}" in ${language}`);
+    }
+  }
+
+  // Keys no longer in the source
+  for (const key of Object.keys(translationFlat)) {
+    const segments = key.split('.');
+    const underMismatch = segments.some((_segment, index) => reported.has(segments.slice(0, index).join('.')));
+    if (!(key in sourceFlat) && !reported.has(key) && !underMismatch && !pluralVariant(key)?.used) {
+      report('extra', key, `"${key}" is not in the source`);
+    }
+  }
+
+  // Value checks on keys present on both sides
+  for (const [key, sourceValue] of Object.entries(sourceFlat)) {
+    const translated = translationFlat[key];
+    if (typeof sourceValue !== 'string' || typeof translated !== 'string' || translated === '') {
+      continue;
+    }
+
+    if (translated === sourceValue && /\p{L}/u.test(sourceValue)) {
+      report('untranslated', key, `"${key}" is identical to the source`, {
+        source: sourceValue,
+        translation: translated,
+      });
+      continue;
+    }
+
+    const mismatch = comparePlaceholders(sourceValue, translated);
+    if (mismatch) {
+      const parts = [
+        mismatch.missing.length > 0 ? `missing ${mismatch.missing.join(', ')}` : '',
+        mismatch.extra.length > 0 ? `unexpected ${mismatch.extra.join(', ')}` : '',
+      ].filter(Boolean);
+      report('placeholder_mismatch', key, `Placeholder mismatch in "${key}": ${parts.join('; ')}`, mismatch);
+    }
+  }
+
+  return issues;
+}
+
+function statusOf(issues: LocaleIssue[]): CheckStatus {
+  if (issues.some((issue) => issue.severity === 'error')) {
+    return 'fail';
+  }
+  return issues.length > 0 ? 'warn' : 'pass';
+}
+
+/**
+ * Check translations against their source without calling the API: missing keys,
+ * keys no longer in the source, values identical to the source, empty strings,
+ * object/value type mismatches and placeholder mismatches, per language.
+ *
+ * @example
+ * ```typescript
+ * const report = checkLocales(en, { es, fr });
+ * if (report.status === 'fail') {
+ *   console.error(report.languages.es.issues);
+ *   process.exitCode = report.exitCode;
+ * }
+ * ```
+ */
+export function checkLocales(
+  source: Record<string, unknown>,
+  translations: Record<string, Record<string, unknown>>,
+  options: CheckLocalesOptions = {}
+): LocaleCheckReport {
+  const languages: Record<string, LanguageCheckResult> = {};
+  const counts = emptyCounts();
+
+  for (const [language, translation] of Object.entries(translations)) {
+    const issues = checkLanguage(source, translation || {}, language, options);
+    const languageCounts = emptyCounts();
+
+    for (const issue of issues) {
+      languageCounts[issue.type]++;
+      counts[issue.type]++;
+    }
+
+    languages[language] = { status: statusOf(issues), issues, counts: languageCounts };
+  }
+
+  const statuses = Object.values(languages).map((result) => result.status);
+  const status: CheckStatus = statuses.includes('fail') ? 'fail' : statuses.includes('warn') ? 'warn' : 'pass';
+  const failed = status === 'fail' || (status === 'warn' && options.strict === true);
+
+  return { status, exitCode: failed ? 1 : 0, languages, counts };
+}
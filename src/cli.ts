@@ -0,0 +1,555 @@
+/**
+ * shipi18n command-line interface
+ *
+ * Commands: translate, languages, sync, check. The API key is read from
+ * --api-key, the SHIPI18N_API_KEY environment variable or a config file
+ * (.shipi18nrc.json / .shipi18nrc in the working directory, or --config).
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { LanguageCheckResult, checkLocales } from './check';
+import { Shipi18nError } from './errors';
+import {
+  ErrorHandlingMode,
+  HtmlHandlingMode,
+  PlaceholderValidationMode,
+  PluralValidationMode,
+  Shipi18n,
+  TranslateJSONOptions,
+} from './index';
+import { LocaleLayout, getLocaleFileName, getLocaleFilePath, listLocaleFiles, readLocaleFile } from './sync';
+
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/** Process exit codes */
+export const EXIT_CODES = {
+  OK: 0,
+  /** Unexpected failure, or `check` found problems */
+  FAILURE: 1,
+  /** Invalid command, flags or configuration (e.g. no source locale files to check) */
+  USAGE: 2,
+  /** MISSING_API_KEY / INVALID_API_KEY */
+  AUTH: 3,
+  /** QUOTA_EXCEEDED */
+  QUOTA: 4,
+  /** RATE_LIMITED */
+  RATE_LIMITED: 5,
+  /** TIMEOUT / NETWORK_ERROR */
+  NETWORK: 6,
+  /** Any other API error */
+  API: 7,
+} as const;
+
+/**
+ * Map a Shipi18nError code to a process exit code
+ */
+export function getExitCode(error: unknown): number {
+  if (error instanceof CliUsageError) {
+    return EXIT_CODES.USAGE;
+  }
+  if (!(error instanceof Shipi18nError)) {
+    return EXIT_CODES.FAILURE;
+  }
+
+  switch (error.code) {
+    case 'MISSING_API_KEY':
+    case 'INVALID_API_KEY':
+      return EXIT_CODES.AUTH;
+    case 'QUOTA_EXCEEDED':
+      return EXIT_CODES.QUOTA;
+    case 'RATE_LIMITED':
+      return EXIT_CODES.RATE_LIMITED;
+    case 'TIMEOUT':
+    case 'NETWORK_ERROR':
+      return EXIT_CODES.NETWORK;
+    default:
+      return EXIT_CODES.API;
+  }
+}
+
+export interface CliConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  sourceLanguage?: string;
+  targetLanguages?: string[];
+  dir?: string;
+  layout?: LocaleLayout;
+}
+
+export interface CliIO {
+  /** Environment variables (default: process.env) */
+  env?: Record<string, string | undefined>;
+  /** Working directory for relative paths and config lookup (default: process.cwd()) */
+  cwd?: string;
+  stdout?: (text: string) => void;
+  stderr?: (text: string) => void;
+}
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+const BOOLEAN_FLAGS = [
+  'help',
+  'json',
+  'overwrite',
+  'prune',
+  'strict',
+  'export-per-namespace',
+  'preserve-placeholders',
+  'pluralization',
+  'fallback-to-source',
+  'regional-fallback',
+];
+
+const VALUE_FLAGS = [
+  'from',
+  'to',
+  'output',
+  'dir',
+  'layout',
+  'skip-keys',
+  'skip-paths',
+  'html-handling',
+  'namespace',
+  'group-by-namespace',
+  'context',
+  'fallback-language',
+  'placeholder-validation',
+  'plural-validation',
+  'on-error',
+  'api-key',
+  'base-url',
+  'config',
+];
+
+const SHORT_FLAGS: Record<string, string> = { h: 'help', s: 'from', t: 'to', o: 'output' };
+
+const LAYOUTS: LocaleLayout[] = ['{lng}/{ns}.json', '{ns}.{lng}.json', '{lng}.json'];
+const HTML_MODES: HtmlHandlingMode[] = ['none', 'strip', 'decode', 'preserve'];
+const GROUP_MODES = ['auto', 'true', 'false'] as const;
+const PLACEHOLDER_MODES: PlaceholderValidationMode[] = ['off', 'warn', 'fallback'];
+const PLURAL_MODES: PluralValidationMode[] = ['off', 'warn', 'fill'];
+const ERROR_MODES: ErrorHandlingMode[] = ['throw', 'fallback'];
+
+const USAGE = `Usage: shipi18n <command> [options]
+
+Commands:
+  translate <file>   Translate a JSON file
+  languages          List supported languages
+  sync               Translate a locales directory in place
+  check              Check target locale files against the source (offline)
+
+Options:
+  -s, --from <lng>              Source language
+  -t, --to <lng,lng>            Target languages
+  -o, --output <pattern>        (translate) Write one file per language, e.g. locales/{lng}.json
+  --dir <dir>                   (sync, check) Locales directory
+  --layout <layout>             (sync, check) {lng}/{ns}.json | {ns}.{lng}.json | {lng}.json
+  --overwrite                   (sync) Retranslate keys that already have a translation
+  --prune                       (sync) Remove keys that no longer exist in the source
+  --strict                      (check) Fail on warnings (extra or untranslated keys) too
+  --skip-keys <a,b>             Keys to skip
+  --skip-paths <a.*,b.**>       Path patterns to skip
+  --html-handling <mode>        none | strip | decode | preserve
+  --namespace <ns>              Wrap output in a namespace
+  --group-by-namespace <mode>   auto | true | false
+  --export-per-namespace        Split output by namespace
+  --context <file>              JSON file of per-key context annotations
+  --no-preserve-placeholders    Do not protect placeholders
+  --no-pluralization            Disable i18next pluralization
+  --fallback-language <lng>     Language used for missing translations
+  --no-fallback-to-source       Leave missing translations empty
+  --no-regional-fallback        Disable pt-BR → pt style fallbacks
+  --placeholder-validation <m>  off | warn | fallback
+  --plural-validation <m>       off | warn | fill
+  --on-error <m>                throw | fallback (write fallback content and warn when the API fails)
+  --api-key <key>               API key (default: $SHIPI18N_API_KEY or config file)
+  --base-url <url>              API base URL
+  --config <file>               Config file (default: .shipi18nrc.json or .shipi18nrc)
+  --json                        Print machine-readable JSON
+  -h, --help                    Show this help
+`;
+
+/**
+ * Parse command-line arguments into positionals and flags.
+ * Supports `--flag value`, `--flag=value`, `--no-flag` and short aliases.
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    const long = /^--([^=]+)(?:=(.*))?$/.exec(arg);
+    const short = /^-([A-Za-z])$/.exec(arg);
+    if (!long && !short) {
+      positionals.push(arg);
+      continue;
+    }
+
+    let name: string | undefined = long ? long[1] : SHORT_FLAGS[short![1]];
+    const negated = name?.startsWith('no-') && BOOLEAN_FLAGS.includes(name.slice(3));
+    if (!name || !(negated || BOOLEAN_FLAGS.includes(name) || VALUE_FLAGS.includes(name))) {
+      throw new CliUsageError(`Unknown option: ${arg}`);
+    }
+
+    if (long?.[2] !== undefined) {
+      flags[name] = long[2];
+    } else if (negated) {
+      name = name.slice(3);
+      flags[name] = false;
+    } else if (BOOLEAN_FLAGS.includes(name)) {
+      flags[name] = true;
+    } else {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith('-')) {
+        throw new CliUsageError(`Option --${name} requires a value`);
+      }
+      flags[name] = value;
+      i++;
+    }
+  }
+
+  return { positionals, flags };
+}
+
+function stringFlag(flags: ParsedArgs['flags'], name: string): string | undefined {
+  const value = flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function listFlag(flags: ParsedArgs['flags'], name: string): string[] | undefined {
+  return stringFlag(flags, name)
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function choiceFlag<T extends string>(flags: ParsedArgs['flags'], name: string, choices: readonly T[]): T | undefined {
+  const value = stringFlag(flags, name);
+  if (value !== undefined && !choices.includes(value as T)) {
+    throw new CliUsageError(`Invalid --${name}: ${value} (expected ${choices.join(', ')})`);
+  }
+  return value as T | undefined;
+}
+
+/**
+ * Load the CLI config file: --config, or .shipi18nrc.json / .shipi18nrc in the working directory
+ */
+export async function loadConfig(cwd: string, configPath?: string): Promise<CliConfig> {
+  const candidates = configPath
+    ? [path.resolve(cwd, configPath)]
+    : [path.join(cwd, '.shipi18nrc.json'), path.join(cwd, '.shipi18nrc')];
+
+  for (const candidate of candidates) {
+    let text: string;
+    try {
+      text = await fs.readFile(candidate, 'utf8');
+    } catch {
+      if (configPath) {
+        throw new CliUsageError(`Config file not found: ${configPath}`);
+      }
+      continue;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new CliUsageError(`Invalid JSON in config file: ${candidate}`);
+    }
+  }
+
+  return {};
+}
+
+/**
+ * Run the CLI and resolve with the process exit code
+ */
+export async function runCli(argv: string[], io: CliIO = {}): Promise<number> {
+  const env = io.env ?? process.env;
+  const cwd = io.cwd ?? process.cwd();
+  const stdout = io.stdout ?? ((text: string) => process.stdout.write(text));
+  const stderr = io.stderr ?? ((text: string) => process.stderr.write(text));
+  let json = false;
+
+  try {
+    const { positionals, flags } = parseArgs(argv);
+    const [command, ...args] = positionals;
+    json = flags.json === true;
+
+    if (flags.help || !command) {
+      stdout(USAGE);
+      return command || flags.help ? EXIT_CODES.OK : EXIT_CODES.USAGE;
+    }
+
+    const config = await loadConfig(cwd, stringFlag(flags, 'config'));
+    const context: CommandContext = { flags, args, config, env, cwd, json, stdout };
+
+    switch (command) {
+      case 'translate':
+        return await translateCommand(context);
+      case 'languages':
+        return await languagesCommand(context);
+      case 'sync':
+        return await syncCommand(context);
+      case 'check':
+        return await checkCommand(context);
+      default:
+        throw new CliUsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    const code = error instanceof Shipi18nError ? error.code : error instanceof CliUsageError ? 'USAGE' : 'ERROR';
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (json) {
+      stderr(`${JSON.stringify({ error: { code, message } }, null, 2)}\n`);
+    } else {
+      stderr(`Error${code === 'ERROR' ? '' : ` [${code}]`}: ${message}\n`);
+      if (error instanceof CliUsageError) {
+        stderr('Run "shipi18n --help" for usage.\n');
+      }
+    }
+
+    return getExitCode(error);
+  }
+}
+
+interface CommandContext {
+  flags: ParsedArgs['flags'];
+  args: string[];
+  config: CliConfig;
+  env: Record<string, string | undefined>;
+  cwd: string;
+  json: boolean;
+  stdout: (text: string) => void;
+}
+
+function createClient({ flags, config, env }: CommandContext): Shipi18n {
+  return new Shipi18n({
+    apiKey: stringFlag(flags, 'api-key') ?? env.SHIPI18N_API_KEY ?? config.apiKey ?? '',
+    baseUrl: stringFlag(flags, 'base-url') ?? env.SHIPI18N_BASE_URL ?? config.baseUrl,
+  });
+}
+
+function getLanguages({ flags, config }: CommandContext): { sourceLanguage: string; targetLanguages: string[] } {
+  const sourceLanguage = stringFlag(flags, 'from') ?? config.sourceLanguage;
+  const targetLanguages = listFlag(flags, 'to') ?? config.targetLanguages;
+
+  if (!sourceLanguage) {
+    throw new CliUsageError('Missing source language (--from)');
+  }
+  if (!targetLanguages || targetLanguages.length === 0) {
+    throw new CliUsageError('Missing target languages (--to)');
+  }
+  return { sourceLanguage, targetLanguages };
+}
+
+function getDirectory({ flags, config, cwd }: CommandContext): { dir: string; layout: LocaleLayout } {
+  const dir = stringFlag(flags, 'dir') ?? config.dir;
+  if (!dir) {
+    throw new CliUsageError('Missing locales directory (--dir)');
+  }
+  const layout = choiceFlag(flags, 'layout', LAYOUTS) ?? config.layout ?? '{lng}/{ns}.json';
+  return { dir: path.resolve(cwd, dir), layout };
+}
+
+async function readJSONFile(cwd: string, file: string): Promise<Record<string, unknown>> {
+  const text = await fs.readFile(path.resolve(cwd, file), 'utf8');
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new CliUsageError(`Invalid JSON in ${file}`);
+  }
+}
+
+/**
+ * Build translateJSON options (minus content) from the shared flags
+ */
+async function getTranslateOptions(
+  context: CommandContext
+): Promise<Omit<TranslateJSONOptions, 'content'>> {
+  const { flags, cwd } = context;
+  const contextFile = stringFlag(flags, 'context');
+  const fallbackLanguage = stringFlag(flags, 'fallback-language');
+
+  const options: Omit<TranslateJSONOptions, 'content'> = {
+    ...getLanguages(context),
+    skipKeys: listFlag(flags, 'skip-keys'),
+    skipPaths: listFlag(flags, 'skip-paths'),
+    htmlHandling: choiceFlag(flags, 'html-handling', HTML_MODES),
+    namespace: stringFlag(flags, 'namespace'),
+    groupByNamespace: choiceFlag(flags, 'group-by-namespace', GROUP_MODES),
+    exportPerNamespace: flags['export-per-namespace'] === true || undefined,
+    preservePlaceholders: flags['preserve-placeholders'] === false ? false : undefined,
+    enablePluralization: flags.pluralization === false ? false : undefined,
+    placeholderValidation: choiceFlag(flags, 'placeholder-validation', PLACEHOLDER_MODES),
+    pluralValidation: choiceFlag(flags, 'plural-validation', PLURAL_MODES),
+    onError: choiceFlag(flags, 'on-error', ERROR_MODES),
+    contextAnnotations: contextFile ? ((await readJSONFile(cwd, contextFile)) as Record<string, string>) : undefined,
+  };
+
+  if (fallbackLanguage || flags['fallback-to-source'] === false || flags['regional-fallback'] === false) {
+    options.fallback = {
+      fallbackLanguage,
+      fallbackToSource: flags['fallback-to-source'] !== false,
+      regionalFallback: flags['regional-fallback'] !== false,
+    };
+  }
+
+  // Leave unset flags out so translateJSON applies its defaults
+  for (const key of Object.keys(options) as Array<keyof typeof options>) {
+    if (options[key] === undefined) {
+      delete options[key];
+    }
+  }
+  return options;
+}
+
+async function translateCommand(context: CommandContext): Promise<number> {
+  const { args, flags, cwd, json, stdout } = context;
+  const [file] = args;
+  if (!file) {
+    throw new CliUsageError('Missing input file: shipi18n translate <file>');
+  }
+
+  const content = await readJSONFile(cwd, file);
+  const result = await createClient(context).translateJSON({ ...(await getTranslateOptions(context)), content });
+  const output = stringFlag(flags, 'output');
+
+  if (output) {
+    if (!output.includes('{lng}')) {
+      throw new CliUsageError('--output must contain {lng}, e.g. locales/{lng}.json');
+    }
+
+    const written: string[] = [];
+    for (const [lang, translation] of Object.entries(result.translations)) {
+      const filePath = path.resolve(cwd, output.replace(/\{lng\}/g, lang));
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, `${JSON.stringify(translation, null, 2)}\n`);
+      written.push(path.relative(cwd, filePath));
+    }
+
+    if (json) {
+      stdout(`${JSON.stringify({ files: written, warnings: result.warnings ?? [] }, null, 2)}\n`);
+    } else {
+      stdout(written.map((writtenFile) => `wrote ${writtenFile}\n`).join(''));
+    }
+  } else if (json) {
+    stdout(`${JSON.stringify(result, null, 2)}\n`);
+  } else {
+    for (const [lang, translation] of Object.entries(result.translations)) {
+      stdout(`# ${lang}\n${JSON.stringify(translation, null, 2)}\n`);
+    }
+  }
+
+  if (!json) {
+    for (const warning of result.warnings ?? []) {
+      stdout(`warning: ${warning.message}\n`);
+    }
+  }
+
+  return EXIT_CODES.OK;
+}
+
+async function languagesCommand(context: CommandContext): Promise<number> {
+  const { languages } = await createClient(context).getLanguages();
+
+  if (context.json) {
+    context.stdout(`${JSON.stringify(languages, null, 2)}\n`);
+  } else {
+    const width = Math.max(0, ...languages.map((language) => language.code.length));
+    context.stdout(languages.map((language) => `${language.code.padEnd(width)}  ${language.name}\n`).join(''));
+  }
+
+  return EXIT_CODES.OK;
+}
+
+async function syncCommand(context: CommandContext): Promise<number> {
+  const { flags, json, stdout } = context;
+  const translateOptions = await getTranslateOptions(context);
+  delete translateOptions.namespace;
+  delete translateOptions.groupByNamespace;
+  delete translateOptions.exportPerNamespace;
+
+  const { files, translation } = await createClient(context).syncLocales({
+    ...translateOptions,
+    ...getDirectory(context),
+    overwrite: flags.overwrite === true,
+    prune: flags.prune === true,
+  });
+
+  if (json) {
+    stdout(`${JSON.stringify({ files, warnings: translation?.warnings ?? [] }, null, 2)}\n`);
+  } else {
+    for (const file of files) {
+      const details = [`${file.translatedKeys.length} translated`, `${file.preservedKeys.length} kept`];
+      if (file.removedKeys.length > 0) {
+        details.push(`${file.removedKeys.length} removed`);
+      }
+      stdout(`${file.status.padEnd(9)} ${file.file} (${details.join(', ')})\n`);
+    }
+  }
+
+  return EXIT_CODES.OK;
+}
+
+async function checkCommand(context: CommandContext): Promise<number> {
+  const { flags, json, stdout } = context;
+  const { sourceLanguage, targetLanguages } = getLanguages(context);
+  const { dir, layout } = getDirectory(context);
+  const options = {
+    skipKeys: listFlag(flags, 'skip-keys'),
+    skipPaths: listFlag(flags, 'skip-paths'),
+    strict: flags.strict === true,
+  };
+
+  const files: Array<{ file: string; language: string } & LanguageCheckResult> = [];
+  let exitCode: number = EXIT_CODES.OK;
+
+  // Nothing to check is a misconfiguration, not a pass
+  const sourceFiles = await listLocaleFiles(dir, layout, sourceLanguage);
+  if (sourceFiles.length === 0) {
+    throw new CliUsageError(`No ${sourceLanguage} locale files found in ${dir} (layout ${layout})`);
+  }
+
+  for (const file of sourceFiles) {
+    const source = (await readLocaleFile(file.filePath)) || {};
+
+    for (const lang of targetLanguages) {
+      const target = (await readLocaleFile(getLocaleFilePath(dir, layout, lang, file.namespace))) || {};
+      const report = checkLocales(source, { [lang]: target }, options);
+      files.push({ file: getLocaleFileName(layout, lang, file.namespace), language: lang, ...report.languages[lang] });
+
+      if (report.exitCode !== 0) {
+        exitCode = EXIT_CODES.FAILURE;
+      }
+    }
+  }
+
+  if (json) {
+    stdout(`${JSON.stringify({ ok: exitCode === EXIT_CODES.OK, files }, null, 2)}\n`);
+  } else {
+    for (const file of files) {
+      stdout(`${file.status.padEnd(5)} ${file.file}\n`);
+      for (const issue of file.issues) {
+        stdout(`  ${issue.severity === 'error' ? 'error  ' : 'warning'} ${issue.message}\n`);
+      }
+    }
+  }
+
+  return exitCode;
+}
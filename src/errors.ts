@@ -0,0 +1,18 @@
+/**
+ * Error thrown by the Shipi18n client for API, network and validation failures
+ */
+export class Shipi18nError extends Error {
+  public statusCode: number;
+  public code: string;
+  /** Delay requested by the server's Retry-After header, in milliseconds */
+  public retryAfter?: number;
+  /** Close matches for each unsupported code (UNSUPPORTED_LANGUAGE errors) */
+  public suggestions?: Record<string, string[]>;
+
+  constructor(message: string, statusCode: number, code: string = 'API_ERROR') {
+    super(message);
+    this.name = 'Shipi18nError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Local cost estimation for translateJSON requests
+ */
+
+import { planFallbacks } from './fallback';
+import type { TranslateJSONOptions } from './index';
+import { mapLanguageTags } from './languages';
+import { isSkippedPath, isSkippedValue } from './skip';
+import { flattenObject } from './utils';
+
+export interface TranslationEstimate {
+  /** Key paths that would be sent for translation */
+  keys: string[];
+  /** Key paths excluded by skipKeys / skipPaths / skipValues */
+  skippedKeys: string[];
+  /** Distinct strings among the keys */
+  uniqueStrings: number;
+  /** Languages requested from the API, including fallback languages (pt-BR adds pt) */
+  targetLanguages: string[];
+  /** Keys × target languages */
+  totalKeys: number;
+  /** Unique strings × target languages */
+  totalUniqueStrings: number;
+  characters: {
+    /** Characters of all keys, for one language */
+    perLanguage: number;
+    /** Characters of the unique strings, for one language */
+    unique: number;
+    /** Characters of all keys across target languages */
+    total: number;
+  };
+}
+
+/** Strings of a leaf value: the value itself, or the string items of an array */
+function leafStrings(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value === '' ? [] : [value];
+  }
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item !== '') : [];
+}
+
+/**
+ * Estimate what a translateJSON call would send, without any network access
+ *
+ * @example
+ * ```typescript
+ * const estimate = estimateJSON({ content: en, sourceLanguage: 'en', targetLanguages: ['es', 'pt-BR'] });
+ * estimate.targetLanguages; // ['es', 'pt', 'pt-BR']
+ * estimate.totalKeys;       // keys × 3
+ * ```
+ */
+export function estimateJSON<T extends Record<string, unknown>, L extends string>(
+  options: TranslateJSONOptions<T, L>
+): TranslationEstimate {
+  const { content, sourceLanguage, targetLanguages, skipKeys = [], skipPaths = [], skipValues = [], fallback } = options;
+  const sourceContent = typeof content === 'string' ? JSON.parse(content) : content;
+  const { requestLanguages } = planFallbacks(mapLanguageTags(targetLanguages).tags, sourceLanguage, fallback);
+
+  const keys: string[] = [];
+  const skippedKeys: string[] = [];
+  const unique = new Set<string>();
+  let perLanguage = 0;
+
+  for (const [path, value] of Object.entries(flattenObject(sourceContent))) {
+    const strings = leafStrings(value);
+    if (strings.length === 0) {
+      continue;
+    }
+
+    if (isSkippedPath(path, skipKeys, skipPaths) || (typeof value === 'string' && isSkippedValue(value, skipValues))) {
+      skippedKeys.push(path);
+      continue;
+    }
+
+    keys.push(path);
+    for (const text of strings) {
+      perLanguage += text.length;
+      unique.add(text);
+    }
+  }
+
+  const uniqueCharacters = [...unique].reduce((sum, text) => sum + text.length, 0);
+  const languageCount = requestLanguages.length;
+
+  return {
+    keys,
+    skippedKeys,
+    uniqueStrings: unique.size,
+    targetLanguages: requestLanguages,
+    totalKeys: keys.length * languageCount,
+    totalUniqueStrings: unique.size * languageCount,
+    characters: {
+      perLanguage,
+      unique: uniqueCharacters,
+      total: perLanguage * languageCount,
+    },
+  };
+}
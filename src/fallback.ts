@@ -0,0 +1,248 @@
+/**
+ * Fallback chains for languages and keys missing from API results
+ */
+
+import { findMissingKeys } from './check';
+import type { FallbackInfo, FallbackOptions, TranslationPair, TranslationResult } from './index';
+import { canonicalizeLanguageTag, isSameLanguageTag, processRegionalLanguages } from './languages';
+import { cloneJSON, getNestedValue, isPlainObject, setNestedValue } from './utils';
+
+export interface FallbackPlan {
+  /** Languages to request: the targets plus the languages their fallbacks need */
+  requestLanguages: string[];
+  /** Fallback languages per target, in order. The source language stands for the source content. */
+  chains: Record<string, string[]>;
+}
+
+/**
+ * Resolve the fallback chain of every target language:
+ * its explicit chain (or BCP 47 parents, zh-Hant-TW → zh-Hant → zh), then `fallbackLanguage`, then the source.
+ * Chain languages are canonicalized; `chains` may be keyed by any spelling of a target.
+ * Explicit chains and `fallbackLanguage` are requested; of the BCP 47 parents only the base
+ * language is, unless `requestParentLanguages` is set.
+ *
+ * @example
+ * ```typescript
+ * planFallbacks(['es-MX', 'fr'], 'en', { chains: { 'es-MX': ['es-419', 'es'] }, fallbackLanguage: 'en-GB' });
+ * // {
+ * //   requestLanguages: ['es', 'es-MX', 'fr', 'es-419', 'en-GB'],
+ * //   chains: { 'es-MX': ['es-419', 'es', 'en-GB', 'en'], fr: ['en-GB', 'en'] },
+ * // }
+ * ```
+ */
+export function planFallbacks(
+  targetLanguages: string[],
+  sourceLanguage: string,
+  fallback: FallbackOptions = {}
+): FallbackPlan {
+  const {
+    fallbackToSource = true,
+    regionalFallback = true,
+    requestParentLanguages = false,
+    fallbackLanguage,
+    chains: explicitChains = {},
+  } = fallback;
+  const { processedTargets, regionalChains } = processRegionalLanguages(
+    targetLanguages,
+    regionalFallback,
+    requestParentLanguages
+  );
+  const chainFor = (lang: string) =>
+    Object.entries(explicitChains).find(([key]) => isSameLanguageTag(key, lang))?.[1].map(canonicalizeLanguageTag);
+
+  const fallbackTag = fallbackLanguage ? canonicalizeLanguageTag(fallbackLanguage) : undefined;
+  const requestLanguages = [...processedTargets];
+  const chains: Record<string, string[]> = {};
+
+  for (const lang of targetLanguages) {
+    const explicitChain = chainFor(lang);
+    const steps = [
+      ...(explicitChain || regionalChains[lang] || []),
+      ...(fallbackTag ? [fallbackTag] : []),
+      ...(fallbackToSource ? [sourceLanguage] : []),
+    ];
+
+    const chain: string[] = [];
+    for (const step of steps) {
+      if (!isSameLanguageTag(step, lang) && !chain.some((existing) => isSameLanguageTag(existing, step))) {
+        chain.push(step);
+      }
+    }
+    chains[lang] = chain;
+
+    // processRegionalLanguages already decided which regional parents to request
+    const requested = chain.filter(
+      (step) => explicitChain || step === fallbackTag || !regionalChains[lang]?.includes(step)
+    );
+    for (const step of requested) {
+      if (!isSameLanguageTag(step, sourceLanguage) && !requestLanguages.includes(step)) {
+        requestLanguages.push(step);
+      }
+    }
+  }
+
+  return { requestLanguages, chains };
+}
+
+function emptyFallbackInfo(): FallbackInfo {
+  return { used: false, languagesFallbackToSource: [], regionalFallbacks: {}, keysFallback: {} };
+}
+
+function recordKey(info: FallbackInfo, lang: string, key: string, from: string): void {
+  info.used = true;
+  (info.keysFallback[lang] ||= []).push(key);
+  ((info.keysFallbackFrom ||= {})[lang] ||= {})[key] = from;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Fill languages and keys missing from a JSON result along each language's chain,
+ * and report what was filled in `result.fallbackInfo`
+ */
+export function applyJSONFallbacks(
+  result: TranslationResult,
+  sourceContent: Record<string, unknown>,
+  sourceLanguage: string,
+  targetLanguages: string[],
+  plan: FallbackPlan
+): void {
+  const info = emptyFallbackInfo();
+
+  // Chains read what the API returned, not what another language received as fallback
+  const returned: Record<string, Record<string, unknown>> = {};
+  for (const lang of plan.requestLanguages) {
+    const translation = result[lang];
+    if (isPlainObject(translation) && Object.keys(translation).length > 0) {
+      returned[lang] = cloneJSON(translation);
+    }
+  }
+
+  const contentOf = (step: string) => (isSameLanguageTag(step, sourceLanguage) ? sourceContent : returned[step]);
+
+  for (const lang of targetLanguages) {
+    const chain = plan.chains[lang] || [];
+    let translation = returned[lang] ? (result[lang] as Record<string, unknown>) : undefined;
+    let remaining = chain;
+
+    // Whole language missing: take the first chain language that has content
+    if (!translation) {
+      const index = chain.findIndex((step) => contentOf(step) !== undefined);
+      if (index === -1) {
+        continue;
+      }
+
+      const step = chain[index];
+      translation = cloneJSON(contentOf(step)!);
+      result[lang] = translation;
+      info.used = true;
+
+      if (isSameLanguageTag(step, sourceLanguage)) {
+        info.languagesFallbackToSource.push(lang);
+        continue;
+      }
+      info.regionalFallbacks[lang] = step;
+      remaining = chain.slice(index + 1);
+    }
+
+    // Keys missing within the translation
+    for (const key of findMissingKeys(sourceContent, translation)) {
+      for (const step of remaining) {
+        const content = contentOf(step);
+        const value = content ? getNestedValue(content, key) : undefined;
+        const fromSource = isSameLanguageTag(step, sourceLanguage);
+
+        // Source values are used even when empty, so the key exists in every language
+        if (fromSource ? value !== undefined : !isEmptyValue(value)) {
+          setNestedValue(translation, key, cloneJSON(value));
+          recordKey(info, lang, key, step);
+          break;
+        }
+      }
+    }
+  }
+
+  if (info.used) {
+    result.fallbackInfo = info;
+  }
+}
+
+/**
+ * Fill languages and lines missing from a text result along each language's chain.
+ * Keys in `fallbackInfo.keysFallback` are the source lines.
+ */
+export function applyTextFallbacks(
+  result: TranslationResult,
+  lines: string[],
+  sourceLanguage: string,
+  targetLanguages: string[],
+  plan: FallbackPlan
+): void {
+  const info = emptyFallbackInfo();
+  const sourceLines = lines.filter((line) => line.trim() !== '');
+
+  const returned: Record<string, TranslationPair[]> = {};
+  for (const lang of plan.requestLanguages) {
+    const pairs = result[lang];
+    if (Array.isArray(pairs) && pairs.length > 0) {
+      returned[lang] = pairs as TranslationPair[];
+    }
+  }
+
+  const translatedIn = (step: string, line: string): string | undefined =>
+    isSameLanguageTag(step, sourceLanguage) ? line : returned[step]?.find((pair) => pair.original === line)?.translated;
+
+  for (const lang of targetLanguages) {
+    const chain = plan.chains[lang] || [];
+    let pairs = returned[lang] ? [...returned[lang]] : undefined;
+    let remaining = chain;
+
+    if (!pairs) {
+      const index = chain.findIndex((step) => isSameLanguageTag(step, sourceLanguage) || returned[step] !== undefined);
+      if (index === -1) {
+        continue;
+      }
+
+      const step = chain[index];
+      info.used = true;
+
+      if (isSameLanguageTag(step, sourceLanguage)) {
+        result[lang] = sourceLines.map((line) => ({ original: line, translated: line }));
+        info.languagesFallbackToSource.push(lang);
+        continue;
+      }
+      pairs = [...returned[step]];
+      info.regionalFallbacks[lang] = step;
+      remaining = chain.slice(index + 1);
+    }
+
+    // Lines missing from the translation, in source order; pairs that match no line are kept at the end
+    const filled: TranslationPair[] = [];
+    const matched = new Set<TranslationPair>();
+    for (const line of sourceLines) {
+      const pair = pairs.find((candidate) => candidate.original === line && !matched.has(candidate));
+      if (pair) {
+        matched.add(pair);
+      }
+      if (pair && pair.translated !== '') {
+        filled.push(pair);
+        continue;
+      }
+
+      const step = remaining.find((candidate) => !isEmptyValue(translatedIn(candidate, line)));
+      if (step) {
+        filled.push({ original: line, translated: translatedIn(step, line)! });
+        recordKey(info, lang, line, step);
+      } else if (pair) {
+        filled.push(pair);
+      }
+    }
+    result[lang] = [...filled, ...pairs.filter((pair) => !matched.has(pair))];
+  }
+
+  if (info.used) {
+    result.fallbackInfo = info;
+  }
+}
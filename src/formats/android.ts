@@ -0,0 +1,304 @@
+/**
+ * Android strings.xml parsing and serialization
+ *
+ * Like the XLIFF adapter, resources are rewritten in place so comments,
+ * attributes and formatting of the original file are preserved.
+ */
+
+import { getPluralCategories } from '../plurals';
+import { getNestedValue, setNestedValue } from '../utils';
+import { decodeXml, encodeXml, getAttribute, protectMarkup, unwrapCdata } from './markup';
+
+export type AndroidResourceType = 'string' | 'string-array' | 'plurals';
+
+export interface AndroidResource {
+  type: AndroidResourceType;
+  name: string;
+  /** False for resources marked translatable="false" */
+  translatable: boolean;
+  /** Inner XML: a string, the items of a string-array, or quantity → text for plurals */
+  value: string | string[] | Record<string, string>;
+  /** XML comment directly above the resource */
+  comment?: string;
+}
+
+/** Translated values for serializeAndroidStrings, by resource name */
+export type AndroidTranslations = Record<string, string | string[] | Record<string, string>>;
+
+const RESOURCE_PATTERN =
+  /<!--([\s\S]*?)-->|(\s*)<string(?=[\s>/])([^>]*?)(?:\/>|>([\s\S]*?)<\/string>)|(\s*)<string-array\b([^>]*)>([\s\S]*?)<\/string-array>|(\s*)<plurals\b([^>]*)>([\s\S]*?)<\/plurals>/g;
+
+const ITEM_PATTERN = /<item\b([^>]*)>([\s\S]*?)<\/item>/g;
+
+/** Inline markup: <xliff:g> spans are kept whole, other tags individually */
+const ANDROID_TAG_PATTERN = /<xliff:g\b[^>]*>[\s\S]*?<\/xliff:g>|<\/?[A-Za-z][\w:.-]*\b[^>]*>/g;
+
+/** A value that is a single CDATA section, e.g. HTML for Html.fromHtml */
+const CDATA_VALUE_PATTERN = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/;
+
+interface ResourceMatch {
+  resource: AndroidResource;
+  /** Full matched text including leading whitespace */
+  text: string;
+  /** Whitespace preceding the element */
+  leading: string;
+  attributes: string;
+}
+
+function walkResources(xml: string, visit: (match: ResourceMatch) => string | void): string {
+  let comment: string | undefined;
+  let commentEnd = -1;
+
+  return xml.replace(RESOURCE_PATTERN, (text: string, ...groups: string[]) => {
+    const offset = Number(groups[10]);
+    const [
+      commentText,
+      stringLeading, stringAttributes, stringBody,
+      arrayLeading, arrayAttributes, arrayBody,
+      pluralsLeading, pluralsAttributes, pluralsBody,
+    ] = groups;
+
+    if (commentText !== undefined) {
+      comment = commentText.trim();
+      commentEnd = offset + text.length;
+      return text;
+    }
+
+    let resource: AndroidResource;
+    let leading: string;
+    let attributes: string;
+
+    if (stringAttributes !== undefined) {
+      leading = stringLeading;
+      attributes = stringAttributes;
+      resource = { type: 'string', name: '', translatable: true, value: stringBody ?? '' };
+    } else if (arrayAttributes !== undefined) {
+      leading = arrayLeading;
+      attributes = arrayAttributes;
+      const items: string[] = [];
+      arrayBody.replace(ITEM_PATTERN, (_item, _attributes, value: string) => {
+        items.push(value);
+        return '';
+      });
+      resource = { type: 'string-array', name: '', translatable: true, value: items };
+    } else {
+      leading = pluralsLeading;
+      attributes = pluralsAttributes;
+      const quantities: Record<string, string> = {};
+      pluralsBody.replace(ITEM_PATTERN, (_item, itemAttributes: string, value: string) => {
+        quantities[getAttribute(itemAttributes, 'quantity') || 'other'] = value;
+        return '';
+      });
+      resource = { type: 'plurals', name: '', translatable: true, value: quantities };
+    }
+
+    resource.name = getAttribute(attributes, 'name') || '';
+    resource.translatable = getAttribute(attributes, 'translatable') !== 'false';
+    if (comment !== undefined && offset === commentEnd && (leading.match(/\n/g) || []).length <= 1) {
+      resource.comment = comment;
+    }
+    comment = undefined;
+
+    return visit({ resource, text, leading, attributes }) ?? text;
+  });
+}
+
+/**
+ * Parse the resources of an Android strings.xml file
+ */
+export function parseAndroidStrings(xml: string): AndroidResource[] {
+  const resources: AndroidResource[] = [];
+  walkResources(xml, ({ resource }) => {
+    resources.push(resource);
+  });
+  return resources;
+}
+
+/**
+ * Decode Android string escaping (surrounding quotes, \', \", \n, \t, \@, \?, \uXXXX), entities
+ * and CDATA sections
+ */
+export function decodeAndroidText(text: string): string {
+  let value = decodeXml(unwrapCdata(text));
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    value = value.slice(1, -1);
+  }
+
+  return value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_match, escape: string) => {
+    if (escape.length === 5) {
+      return String.fromCharCode(parseInt(escape.slice(1), 16));
+    }
+    return escape === 'n' ? '\n' : escape === 't' ? '\t' : escape;
+  });
+}
+
+function escapeAndroidText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/^([@?])/, '\\$1');
+}
+
+/**
+ * Encode text for a strings.xml value
+ */
+export function encodeAndroidText(text: string): string {
+  return encodeXml(escapeAndroidText(text)).replace(/&quot;/g, '"');
+}
+
+/**
+ * Protect inline markup of a strings.xml value and decode it for translation.
+ * A value that is a single CDATA section has the markup inside protected and is
+ * written back as CDATA; CDATA mixed with other content is written back escaped.
+ */
+export function protectAndroidText(value: string): { text: string; restore: (translated: string) => string } {
+  const cdata = CDATA_VALUE_PATTERN.exec(value);
+  if (cdata && !cdata[1].includes(']]>')) {
+    // CDATA content is literal: escape & so decoding leaves it as it is
+    const { text, restore } = protectMarkup(
+      cdata[1].replace(/&/g, '&amp;'),
+      ANDROID_TAG_PATTERN,
+      decodeAndroidText,
+      escapeAndroidText
+    );
+    return { text, restore: (translated) => `<![CDATA[${restore(translated).replace(/]]>/g, ']]]]><![CDATA[>')}]]>` };
+  }
+
+  return protectMarkup(unwrapCdata(value), ANDROID_TAG_PATTERN, decodeAndroidText, encodeAndroidText);
+}
+
+/**
+ * Produce a strings.xml for a target language.
+ *
+ * Resources without a translation are kept as-is, except translatable="false" ones,
+ * which are removed since Android expects them only in the default resources.
+ * Plurals are rewritten with the target language's CLDR quantities.
+ */
+export function serializeAndroidStrings(xml: string, language: string, translations: AndroidTranslations): string {
+  return walkResources(xml, ({ resource, text, leading, attributes }) => {
+    if (!resource.translatable) {
+      return '';
+    }
+
+    const translated = translations[resource.name];
+    if (translated === undefined) {
+      return;
+    }
+
+    if (resource.type === 'string' && typeof translated === 'string') {
+      return `${leading}<string${attributes}>${translated}</string>`;
+    }
+
+    if (resource.type === 'string-array' && Array.isArray(translated)) {
+      let index = 0;
+      return text.replace(ITEM_PATTERN, (item, itemAttributes: string) =>
+        index < translated.length ? `<item${itemAttributes}>${translated[index++]}</item>` : item
+      );
+    }
+
+    if (resource.type === 'plurals' && typeof translated === 'object' && !Array.isArray(translated)) {
+      const indent = /\n([ \t]*)<item\b/.exec(text)?.[1] ?? '';
+      const closingIndent = /\n([ \t]*)<\/plurals>/.exec(text)?.[1] ?? '';
+      const categories = getPluralCategories(language) || Object.keys(translated);
+      const items = categories
+        .filter((category) => translated[category] !== undefined || translated.other !== undefined)
+        .map((category) => `\n${indent}<item quantity="${category}">${translated[category] ?? translated.other}</item>`);
+
+      return `${leading}<plurals${attributes}>${items.join('')}\n${closingIndent}</plurals>`;
+    }
+  });
+}
+
+/**
+ * Convert translatable resources into JSON messages for translateJSON.
+ * Strings use their name as key, string-array items become `name.N` and
+ * plurals become i18next plural keys (`name_one` / `name_other`).
+ * The comment above a resource becomes its context annotation.
+ */
+export function extractAndroidMessages(resources: AndroidResource[]): {
+  messages: Record<string, unknown>;
+  contextAnnotations: Record<string, string>;
+  restorers: Record<string, (translated: string) => string>;
+} {
+  const messages: Record<string, unknown> = {};
+  const contextAnnotations: Record<string, string> = {};
+  const restorers: Record<string, (translated: string) => string> = {};
+
+  const add = (key: string, value: string, comment?: string) => {
+    const { text, restore } = protectAndroidText(value);
+    setNestedValue(messages, key, text);
+    restorers[key] = restore;
+    if (comment) {
+      contextAnnotations[key] = comment;
+    }
+  };
+
+  for (const resource of resources) {
+    if (!resource.translatable || !resource.name) {
+      continue;
+    }
+
+    if (typeof resource.value === 'string') {
+      add(resource.name, resource.value, resource.comment);
+    } else if (Array.isArray(resource.value)) {
+      resource.value.forEach((item, index) => add(`${resource.name}.${index}`, item, resource.comment));
+    } else {
+      for (const [quantity, value] of Object.entries(resource.value)) {
+        add(`${resource.name}_${quantity}`, value, resource.comment);
+      }
+    }
+  }
+
+  return { messages, contextAnnotations, restorers };
+}
+
+/**
+ * Map a translated JSON object back to encoded strings.xml values by resource name
+ */
+export function collectAndroidTranslations(
+  resources: AndroidResource[],
+  translation: Record<string, unknown>,
+  restorers: Record<string, (translated: string) => string>
+): AndroidTranslations {
+  const translations: AndroidTranslations = {};
+
+  const lookup = (key: string): string | undefined => {
+    const value = getNestedValue(translation, key);
+    return typeof value === 'string' && restorers[key] ? restorers[key](value) : undefined;
+  };
+
+  for (const resource of resources) {
+    if (!resource.translatable || !resource.name) {
+      continue;
+    }
+
+    if (typeof resource.value === 'string') {
+      const value = lookup(resource.name);
+      if (value !== undefined) {
+        translations[resource.name] = value;
+      }
+    } else if (Array.isArray(resource.value)) {
+      translations[resource.name] = resource.value.map(
+        (item, index) => lookup(`${resource.name}.${index}`) ?? item
+      );
+    } else {
+      const quantities: Record<string, string> = {};
+      const prefix = `${resource.name}_`;
+      for (const [key, value] of Object.entries(translation)) {
+        if (key.startsWith(prefix) && typeof value === 'string') {
+          const quantity = key.slice(prefix.length);
+          const restore = restorers[key] || restorers[`${prefix}other`];
+          quantities[quantity] = restore ? restore(value) : value;
+        }
+      }
+      if (Object.keys(quantities).length > 0) {
+        translations[resource.name] = quantities;
+      }
+    }
+  }
+
+  return translations;
+}
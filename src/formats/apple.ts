@@ -0,0 +1,395 @@
+/**
+ * Apple .strings and .stringsdict parsing and serialization
+ *
+ * Both formats are rewritten in place: only translated values change, so
+ * comments, ordering and whitespace of the source file are preserved.
+ */
+
+import { extractPlaceholders } from '../placeholders';
+import { getPluralCategories } from '../plurals';
+import { getNestedValue } from '../utils';
+import { decodeXml, encodeXml, protectMarkup } from './markup';
+
+export interface AppleStringsEntry {
+  key: string;
+  value: string;
+  /** Comment directly above the entry */
+  comment?: string;
+}
+
+export interface StringsdictVariable {
+  name: string;
+  /** Plural category → format string */
+  forms: Record<string, string>;
+}
+
+export interface StringsdictEntry {
+  key: string;
+  /** NSStringLocalizedFormatKey value, e.g. `%#@files@` */
+  format: string;
+  variables: StringsdictVariable[];
+}
+
+const STRINGS_PATTERN =
+  /\/\*([\s\S]*?)\*\/|\/\/([^\n]*)|"((?:[^"\\]|\\.)*)"(\s*=\s*)"((?:[^"\\]|\\.)*)"(\s*;)/g;
+
+const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/** `%#@variable@` references in a stringsdict format key */
+const VARIABLE_REFERENCE_PATTERN = /%(?:\d+\$)?#@[^@]+@/g;
+
+function walkStrings(source: string, visit: (entry: AppleStringsEntry) => string | void): string {
+  let comment: string | undefined;
+  let commentEnd = -1;
+
+  return source.replace(
+    STRINGS_PATTERN,
+    (
+      text: string,
+      blockComment: string | undefined,
+      lineComment: string | undefined,
+      key: string | undefined,
+      separator: string,
+      value: string,
+      terminator: string,
+      offset: number
+    ) => {
+      if (key === undefined) {
+        comment = (blockComment ?? lineComment ?? '').trim();
+        commentEnd = offset + text.length;
+        return text;
+      }
+
+      const gap = source.slice(commentEnd, offset);
+      const entry: AppleStringsEntry = { key: decodeStringsText(key), value: decodeStringsText(value) };
+      if (comment && commentEnd >= 0 && /^\s*$/.test(gap) && (gap.match(/\n/g) || []).length <= 1) {
+        entry.comment = comment;
+      }
+      comment = undefined;
+
+      const translated = visit(entry);
+      return translated === undefined ? text : `"${key}"${separator}"${encodeStringsText(translated)}"${terminator}`;
+    }
+  );
+}
+
+/**
+ * Decode .strings escapes (\", \\, \n, \t, \r, \Uxxxx)
+ */
+export function decodeStringsText(text: string): string {
+  return text.replace(/\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|.)/g, (_match, escape: string) => {
+    if (escape.length === 5) {
+      return String.fromCharCode(parseInt(escape.slice(1), 16));
+    }
+    return escape === 'n' ? '\n' : escape === 't' ? '\t' : escape === 'r' ? '\r' : escape;
+  });
+}
+
+/**
+ * Encode text for a .strings value
+ */
+export function encodeStringsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r');
+}
+
+/**
+ * Parse the entries of a .strings file
+ */
+export function parseAppleStrings(source: string): AppleStringsEntry[] {
+  const entries: AppleStringsEntry[] = [];
+  walkStrings(source, (entry) => {
+    entries.push(entry);
+  });
+  return entries;
+}
+
+/**
+ * Produce a .strings file for a target language; translations are indexed like parseAppleStrings entries
+ */
+export function serializeAppleStrings(source: string, translations: Array<string | undefined>): string {
+  let index = 0;
+  return walkStrings(source, () => translations[index++]);
+}
+
+interface PlistPair {
+  key: string;
+  /** Raw inner text of a <string> value */
+  value?: string;
+  /** Span of the whole key/value pair */
+  start: number;
+  end: number;
+  /** Span of the inner text of a <dict> value */
+  dict?: { start: number; end: number; pairs: PlistPair[] };
+}
+
+const PLIST_TOKEN_PATTERN = /<key>([\s\S]*?)<\/key>|<string>([\s\S]*?)<\/string>|<string\/>|<dict>|<dict\/>|<\/dict>|<(integer|real|date|data)>[\s\S]*?<\/\3>|<(true|false)\/>/g;
+
+/** Parse nested plist dictionaries, keeping the text spans of every pair */
+function parsePlistDict(xml: string): PlistPair[] {
+  const stack: PlistPair[][] = [];
+  const dictStarts: number[] = [];
+  let root: PlistPair[] = [];
+  let pending: PlistPair | undefined;
+  const owners: Array<PlistPair | undefined> = [];
+
+  PLIST_TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = PLIST_TOKEN_PATTERN.exec(xml))) {
+    const [token, key, value] = match;
+    const end = match.index + token.length;
+    const pairs = stack[stack.length - 1];
+
+    if (key !== undefined) {
+      pending = { key: decodeXml(key), start: match.index, end };
+      pairs?.push(pending);
+    } else if (token === '<dict>') {
+      owners.push(pending);
+      stack.push([]);
+      dictStarts.push(end);
+      pending = undefined;
+    } else if (token === '</dict>') {
+      const closed = stack.pop()!;
+      const start = dictStarts.pop()!;
+      const owner = owners.pop();
+      if (owner) {
+        owner.dict = { start, end: match.index, pairs: closed };
+        owner.end = end;
+      } else if (stack.length === 0) {
+        root = closed;
+      }
+    } else if (pending) {
+      pending.value = value ?? (token === '<string/>' ? '' : undefined);
+      pending.end = end;
+      pending = undefined;
+    }
+  }
+
+  return root;
+}
+
+function isPluralVariable(pair: PlistPair): boolean {
+  return !!pair.dict?.pairs.some(
+    (inner) => inner.key === 'NSStringFormatSpecTypeKey' && inner.value === 'NSStringPluralRuleType'
+  );
+}
+
+/**
+ * Parse the entries of a .stringsdict file
+ */
+export function parseStringsdict(xml: string): StringsdictEntry[] {
+  return parsePlistDict(xml)
+    .filter((pair) => pair.dict)
+    .map((pair) => {
+      const pairs = pair.dict!.pairs;
+      const format = pairs.find((inner) => inner.key === 'NSStringLocalizedFormatKey')?.value ?? '';
+      const variables = pairs.filter(isPluralVariable).map((variable) => {
+        const forms: Record<string, string> = {};
+        for (const inner of variable.dict!.pairs) {
+          if (PLURAL_CATEGORIES.includes(inner.key) && inner.value !== undefined) {
+            forms[inner.key] = decodeXml(inner.value);
+          }
+        }
+        return { name: variable.key, forms };
+      });
+
+      return { key: pair.key, format: decodeXml(format), variables };
+    });
+}
+
+/**
+ * Protect `%#@variable@` references of a stringsdict format key as placeholder tokens
+ */
+export function protectFormatKey(format: string): { text: string; restore: (translated: string) => string } {
+  const unchanged = (text: string) => text;
+  return protectMarkup(format, VARIABLE_REFERENCE_PATTERN, unchanged, unchanged);
+}
+
+/** Translated content of one stringsdict entry */
+export interface StringsdictTranslation {
+  format?: string;
+  /** Variable name → plural category → format string */
+  variables: Record<string, Record<string, string>>;
+}
+
+/**
+ * Produce a .stringsdict for a target language.
+ * Plural variables are rewritten with the target language's CLDR categories,
+ * falling back to the translated `other` form for categories the source lacks.
+ */
+export function serializeStringsdict(
+  xml: string,
+  language: string,
+  translations: Array<StringsdictTranslation | undefined>
+): string {
+  const replacements: Array<{ start: number; end: number; text: string }> = [];
+  const categories = getPluralCategories(language);
+
+  parsePlistDict(xml)
+    .filter((pair) => pair.dict)
+    .forEach((pair, index) => {
+      const translation = translations[index];
+      if (!translation) {
+        return;
+      }
+
+      for (const inner of pair.dict!.pairs) {
+        if (inner.key === 'NSStringLocalizedFormatKey' && translation.format !== undefined) {
+          const keyEnd = xml.indexOf('</key>', inner.start) + '</key>'.length;
+          const whitespace = /^\s*/.exec(xml.slice(keyEnd))![0];
+          replacements.push({
+            start: keyEnd,
+            end: inner.end,
+            text: `${whitespace}<string>${encodeXml(translation.format)}</string>`,
+          });
+        }
+
+        const forms = translation.variables[inner.key];
+        if (!forms || !isPluralVariable(inner)) {
+          continue;
+        }
+
+        const dict = inner.dict!;
+        const formPairs = dict.pairs.filter((form) => PLURAL_CATEGORIES.includes(form.key));
+        if (formPairs.length === 0) {
+          continue;
+        }
+
+        const first = formPairs[0];
+        const last = formPairs[formPairs.length - 1];
+        const indent = /[ \t]*$/.exec(xml.slice(0, first.start))![0];
+        const valueSeparator = /^\s*/.exec(xml.slice(xml.indexOf('</key>', first.start) + '</key>'.length))![0];
+        const targetCategories = (categories || Object.keys(forms)).filter(
+          (category) => forms[category] !== undefined || forms.other !== undefined
+        );
+
+        const text = targetCategories
+          .map((category, position) => {
+            const value = encodeXml(forms[category] ?? forms.other);
+            return `${position === 0 ? '' : `\n${indent}`}<key>${category}</key>${valueSeparator}<string>${value}</string>`;
+          })
+          .join('');
+
+        replacements.push({ start: first.start, end: last.end, text });
+      }
+    });
+
+  let output = xml;
+  for (const { start, end, text } of replacements.sort((a, b) => b.start - a.start)) {
+    output = output.slice(0, start) + text + output.slice(end);
+  }
+  return output;
+}
+
+/**
+ * Convert .strings entries into JSON messages for translateJSON.
+ * Keys are often source text, so entries get synthetic `strN` keys and
+ * their comment becomes the context annotation.
+ */
+export function extractAppleStringsMessages(entries: AppleStringsEntry[]): {
+  messages: Record<string, string>;
+  contextAnnotations: Record<string, string>;
+} {
+  const messages: Record<string, string> = {};
+  const contextAnnotations: Record<string, string> = {};
+
+  entries.forEach((entry, index) => {
+    messages[`str${index}`] = entry.value;
+    if (entry.comment) {
+      contextAnnotations[`str${index}`] = entry.comment;
+    }
+  });
+
+  return { messages, contextAnnotations };
+}
+
+/**
+ * Map a translated JSON object back to .strings values, indexed like the entries
+ */
+export function collectAppleStringsTranslations(
+  entries: AppleStringsEntry[],
+  translation: Record<string, unknown>
+): Array<string | undefined> {
+  return entries.map((_entry, index) => {
+    const value = translation[`str${index}`];
+    return typeof value === 'string' ? value : undefined;
+  });
+}
+
+/**
+ * Convert .stringsdict entries into JSON messages for translateJSON.
+ * Each entry becomes `entryN` with its format key under `format` (only when it holds
+ * text besides variable references) and plural forms as i18next plural keys
+ * `var_<name>_<category>`. The entry key is sent as context.
+ */
+export function extractStringsdictMessages(entries: StringsdictEntry[]): {
+  messages: Record<string, Record<string, string>>;
+  contextAnnotations: Record<string, string>;
+} {
+  const messages: Record<string, Record<string, string>> = {};
+  const contextAnnotations: Record<string, string> = {};
+
+  entries.forEach((entry, index) => {
+    const message: Record<string, string> = {};
+    const { text } = protectFormatKey(entry.format);
+    const words = extractPlaceholders(text).reduce((rest, placeholder) => rest.split(placeholder).join(''), text);
+    if (/\p{L}/u.test(words)) {
+      message.format = text;
+    }
+
+    for (const variable of entry.variables) {
+      for (const [category, form] of Object.entries(variable.forms)) {
+        message[`var_${variable.name}_${category}`] = form;
+      }
+    }
+
+    if (Object.keys(message).length > 0) {
+      messages[`entry${index}`] = message;
+      for (const key of Object.keys(message)) {
+        contextAnnotations[`entry${index}.${key}`] = entry.key;
+      }
+    }
+  });
+
+  return { messages, contextAnnotations };
+}
+
+/**
+ * Map a translated JSON object back to stringsdict translations, indexed like the entries
+ */
+export function collectStringsdictTranslations(
+  entries: StringsdictEntry[],
+  translation: Record<string, unknown>
+): Array<StringsdictTranslation | undefined> {
+  return entries.map((entry, index) => {
+    const message = getNestedValue(translation, `entry${index}`);
+    if (!message || typeof message !== 'object') {
+      return undefined;
+    }
+
+    const values = message as Record<string, unknown>;
+    const result: StringsdictTranslation = { variables: {} };
+    if (typeof values.format === 'string') {
+      result.format = protectFormatKey(entry.format).restore(values.format);
+    }
+
+    for (const variable of entry.variables) {
+      const prefix = `var_${variable.name}_`;
+      const forms: Record<string, string> = {};
+      for (const [key, value] of Object.entries(values)) {
+        if (key.startsWith(prefix) && typeof value === 'string') {
+          forms[key.slice(prefix.length)] = value;
+        }
+      }
+      if (Object.keys(forms).length > 0) {
+        result.variables[variable.name] = forms;
+      }
+    }
+
+    return result;
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Shared XML helpers for the text-based format adapters
+ */
+
+export function decodeXml(text: string): string {
+  return text.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_match, entity: string) => {
+    switch (entity) {
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'amp':
+        return '&';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
+
+export function encodeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Turn CDATA sections into escaped text, so their content is never mistaken for markup */
+export function unwrapCdata(content: string): string {
+  return content.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_match, text: string) => encodeXml(text));
+}
+
+export function getAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(attributes);
+  return match ? decodeXml(match[2] ?? match[3]) : undefined;
+}
+
+export function setAttribute(attributes: string, name: string, value: string): string {
+  const pattern = new RegExp(`(\\s${name}\\s*=\\s*)("[^"]*"|'[^']*')`);
+  const encoded = `"${encodeXml(value)}"`;
+  return pattern.test(attributes) ? attributes.replace(pattern, `$1${encoded}`) : `${attributes} ${name}=${encoded}`;
+}
+
+/**
+ * Replace inline tags with `{{tag_N}}` placeholder tokens and decode the remaining text,
+ * so markup survives translation like any other placeholder.
+ * `restore` encodes a translation and puts the original tags back.
+ */
+export function protectMarkup(
+  source: string,
+  tagPattern: RegExp,
+  decode: (text: string) => string = decodeXml,
+  encode: (text: string) => string = encodeXml
+): { text: string; restore: (translated: string) => string } {
+  const tags: string[] = [];
+
+  const text = decode(
+    source.replace(tagPattern, (tag) => {
+      tags.push(tag);
+      return `{{tag_${tags.length - 1}}}`;
+    })
+  );
+
+  const restore = (translated: string) =>
+    encode(translated).replace(/\{\{tag_(\d+)\}\}/g, (token, index: string) => tags[Number(index)] ?? token);
+
+  return { text, restore };
+}
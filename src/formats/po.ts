@@ -0,0 +1,394 @@
+/**
+ * Gettext PO/POT parsing and serialization
+ */
+
+import { getPluralCategories } from '../plurals';
+
+export interface PoEntry {
+  msgctxt?: string;
+  msgid: string;
+  msgidPlural?: string;
+  /** Translations; one per plural form for plural entries */
+  msgstr: string[];
+  /** `# ` translator comments */
+  translatorComments: string[];
+  /** `#.` extracted (developer) comments */
+  extractedComments: string[];
+  /** `#:` source references */
+  references: string[];
+  /** `#,` flags such as fuzzy or c-format */
+  flags: string[];
+  /** `#|` previous msgid lines, kept verbatim */
+  previous: string[];
+  /** `#~` obsolete entry lines, kept verbatim and never translated */
+  obsolete?: string[];
+}
+
+export interface PoFile {
+  /** Comments above the header entry */
+  headerComments: string[];
+  /** Header fields from the `msgid ""` entry, in file order */
+  headers: Record<string, string>;
+  entries: PoEntry[];
+}
+
+interface PluralFormsRule {
+  header: string;
+  select: (n: number) => number;
+}
+
+const ONE_FORM: PluralFormsRule = { header: 'nplurals=1; plural=0;', select: () => 0 };
+const NOT_ONE: PluralFormsRule = { header: 'nplurals=2; plural=(n != 1);', select: (n) => (n !== 1 ? 1 : 0) };
+const GREATER_THAN_ONE: PluralFormsRule = { header: 'nplurals=2; plural=(n > 1);', select: (n) => (n > 1 ? 1 : 0) };
+const EAST_SLAVIC: PluralFormsRule = {
+  header:
+    'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  select: (n) => (n % 10 === 1 && n % 100 !== 11 ? 0 : n % 10 >= 2 && n % 10 <= 4 && (n % 100 < 10 || n % 100 >= 20) ? 1 : 2),
+};
+const WEST_SLAVIC: PluralFormsRule = {
+  header: 'nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;',
+  select: (n) => (n === 1 ? 0 : n >= 2 && n <= 4 ? 1 : 2),
+};
+
+/** Gettext Plural-Forms for common languages; others default to `n != 1` */
+const PLURAL_FORMS: Record<string, PluralFormsRule> = {
+  ja: ONE_FORM,
+  zh: ONE_FORM,
+  ko: ONE_FORM,
+  vi: ONE_FORM,
+  th: ONE_FORM,
+  id: ONE_FORM,
+  ms: ONE_FORM,
+  fr: GREATER_THAN_ONE,
+  'pt-BR': GREATER_THAN_ONE,
+  ru: EAST_SLAVIC,
+  uk: EAST_SLAVIC,
+  be: EAST_SLAVIC,
+  sr: EAST_SLAVIC,
+  hr: EAST_SLAVIC,
+  bs: EAST_SLAVIC,
+  cs: WEST_SLAVIC,
+  sk: WEST_SLAVIC,
+  pl: {
+    header: 'nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    select: (n) => (n === 1 ? 0 : n % 10 >= 2 && n % 10 <= 4 && (n % 100 < 10 || n % 100 >= 20) ? 1 : 2),
+  },
+  lt: {
+    header: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    select: (n) => (n % 10 === 1 && n % 100 !== 11 ? 0 : n % 10 >= 2 && (n % 100 < 10 || n % 100 >= 20) ? 1 : 2),
+  },
+  lv: {
+    header: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n != 0 ? 1 : 2);',
+    select: (n) => (n % 10 === 1 && n % 100 !== 11 ? 0 : n !== 0 ? 1 : 2),
+  },
+  ro: {
+    header: 'nplurals=3; plural=(n==1 ? 0 : (n==0 || (n%100 > 0 && n%100 < 20)) ? 1 : 2);',
+    select: (n) => (n === 1 ? 0 : n === 0 || (n % 100 > 0 && n % 100 < 20) ? 1 : 2),
+  },
+  sl: {
+    header: 'nplurals=4; plural=(n%100==1 ? 0 : n%100==2 ? 1 : n%100==3 || n%100==4 ? 2 : 3);',
+    select: (n) => (n % 100 === 1 ? 0 : n % 100 === 2 ? 1 : n % 100 === 3 || n % 100 === 4 ? 2 : 3),
+  },
+  ar: {
+    header:
+      'nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);',
+    select: (n) => (n === 0 ? 0 : n === 1 ? 1 : n === 2 ? 2 : n % 100 >= 3 && n % 100 <= 10 ? 3 : n % 100 >= 11 ? 4 : 5),
+  },
+};
+
+function getPluralFormsRule(language: string): PluralFormsRule {
+  return PLURAL_FORMS[language] || PLURAL_FORMS[language.split('-')[0]] || NOT_ONE;
+}
+
+/**
+ * Get the gettext Plural-Forms header value for a language
+ */
+export function getPluralFormsHeader(language: string): string {
+  return getPluralFormsRule(language).header;
+}
+
+/**
+ * Map each gettext plural index (msgstr[n]) of a language to its CLDR plural category,
+ * by picking a sample number for every index and classifying it with Intl.PluralRules
+ */
+export function getPluralFormCategories(language: string): string[] {
+  const rule = getPluralFormsRule(language);
+  const nplurals = Number(/nplurals=(\d+)/.exec(rule.header)![1]);
+  const categories = getPluralCategories(language) ? new Intl.PluralRules(language) : undefined;
+  const result: string[] = [];
+
+  for (let index = 0; index < nplurals; index++) {
+    let sample = 0;
+    while (sample < 1000 && rule.select(sample) !== index) {
+      sample++;
+    }
+    result.push(categories ? categories.select(sample) : index === 0 ? 'one' : 'other');
+  }
+
+  return result;
+}
+
+function unescapePo(value: string): string {
+  return value.replace(/\\(["\\ntr])/g, (_match, char: string) => {
+    switch (char) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'r':
+        return '\r';
+      default:
+        return char;
+    }
+  });
+}
+
+function escapePo(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+}
+
+function emptyEntry(): PoEntry {
+  return {
+    msgid: '',
+    msgstr: [],
+    translatorComments: [],
+    extractedComments: [],
+    references: [],
+    flags: [],
+    previous: [],
+  };
+}
+
+function parseHeaders(header: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const line of header.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Parse a .po or .pot file
+ */
+export function parsePo(text: string): PoFile {
+  const file: PoFile = { headerComments: [], headers: {}, entries: [] };
+  const blocks = text.replace(/\r\n/g, '\n').split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line) => line.trim() !== '');
+    if (lines.length === 0) {
+      continue;
+    }
+
+    const entry = emptyEntry();
+    let field: 'msgctxt' | 'msgid' | 'msgidPlural' | 'msgstr' | undefined;
+    let pluralIndex = 0;
+
+    const append = (value: string) => {
+      if (field === 'msgstr') {
+        entry.msgstr[pluralIndex] = (entry.msgstr[pluralIndex] || '') + value;
+      } else if (field) {
+        entry[field] = (entry[field] || '') + value;
+      }
+    };
+
+    for (const raw of lines) {
+      const line = raw.trim();
+
+      if (line.startsWith('#~')) {
+        entry.obsolete = [...(entry.obsolete || []), raw];
+      } else if (line.startsWith('#.')) {
+        entry.extractedComments.push(line.slice(2).trim());
+      } else if (line.startsWith('#:')) {
+        entry.references.push(...line.slice(2).trim().split(/\s+/).filter(Boolean));
+      } else if (line.startsWith('#,')) {
+        entry.flags.push(...line.slice(2).split(',').map((flag) => flag.trim()).filter(Boolean));
+      } else if (line.startsWith('#|')) {
+        entry.previous.push(line.slice(2).trim());
+      } else if (line.startsWith('#')) {
+        entry.translatorComments.push(line.replace(/^# ?/, ''));
+      } else {
+        const match = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+"(.*)"$/.exec(line);
+        if (match) {
+          if (match[1].startsWith('msgstr')) {
+            field = 'msgstr';
+            pluralIndex = match[2] ? Number(match[2]) : 0;
+            entry.msgstr[pluralIndex] = '';
+          } else {
+            field = match[1] === 'msgid_plural' ? 'msgidPlural' : (match[1] as 'msgctxt' | 'msgid');
+            entry[field] = '';
+          }
+          append(unescapePo(match[3]));
+        } else if (/^".*"$/.test(line)) {
+          append(unescapePo(line.slice(1, -1)));
+        }
+      }
+    }
+
+    if (entry.msgid === '' && entry.msgctxt === undefined && !entry.obsolete && file.entries.length === 0) {
+      file.headerComments = entry.translatorComments;
+      file.headers = parseHeaders(entry.msgstr[0] || '');
+      continue;
+    }
+
+    file.entries.push(entry);
+  }
+
+  return file;
+}
+
+function serializeString(keyword: string, value: string): string[] {
+  const lines = value.split(/(?<=\n)/);
+
+  if (lines.length <= 1) {
+    return [`${keyword} "${escapePo(value)}"`];
+  }
+
+  return [`${keyword} ""`, ...lines.map((line) => `"${escapePo(line)}"`)];
+}
+
+/**
+ * Serialize a PO file, keeping comments, references and flags
+ */
+export function serializePo(file: PoFile): string {
+  const blocks: string[] = [];
+
+  blocks.push(
+    [
+      ...file.headerComments.map((comment) => (comment ? `# ${comment}` : '#')),
+      'msgid ""',
+      'msgstr ""',
+      ...Object.keys(file.headers).map((key) => `"${escapePo(`${key}: ${file.headers[key]}\n`)}"`),
+    ].join('\n')
+  );
+
+  for (const entry of file.entries) {
+    const lines: string[] = [
+      ...entry.translatorComments.map((comment) => (comment ? `# ${comment}` : '#')),
+      ...entry.extractedComments.map((comment) => `#. ${comment}`),
+      ...(entry.references.length > 0 ? [`#: ${entry.references.join(' ')}`] : []),
+      ...(entry.flags.length > 0 ? [`#, ${entry.flags.join(', ')}`] : []),
+      ...entry.previous.map((line) => `#| ${line}`),
+    ];
+
+    if (entry.obsolete) {
+      blocks.push([...lines, ...entry.obsolete].join('\n'));
+      continue;
+    }
+
+    if (entry.msgctxt !== undefined) {
+      lines.push(...serializeString('msgctxt', entry.msgctxt));
+    }
+    lines.push(...serializeString('msgid', entry.msgid));
+
+    if (entry.msgidPlural !== undefined) {
+      lines.push(...serializeString('msgid_plural', entry.msgidPlural));
+      const forms = Math.max(entry.msgstr.length, 1);
+      for (let i = 0; i < forms; i++) {
+        lines.push(...serializeString(`msgstr[${i}]`, entry.msgstr[i] || ''));
+      }
+    } else {
+      lines.push(...serializeString('msgstr', entry.msgstr[0] || ''));
+    }
+
+    blocks.push(lines.join('\n'));
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+function messageKey(index: number): string {
+  return `msg${index}`;
+}
+
+/**
+ * Convert PO entries into flat JSON messages for translateJSON.
+ * Plural entries become i18next plural keys (`msgN_one` / `msgN_other`) and
+ * msgctxt plus extracted comments become context annotations.
+ */
+export function extractPoMessages(file: PoFile): {
+  messages: Record<string, string>;
+  contextAnnotations: Record<string, string>;
+} {
+  const messages: Record<string, string> = {};
+  const contextAnnotations: Record<string, string> = {};
+
+  file.entries.forEach((entry, index) => {
+    if (entry.obsolete || entry.msgid === '') {
+      return;
+    }
+
+    const key = messageKey(index);
+
+    if (entry.msgidPlural !== undefined) {
+      messages[`${key}_one`] = entry.msgid;
+      messages[`${key}_other`] = entry.msgidPlural;
+    } else {
+      messages[key] = entry.msgid;
+    }
+
+    const context = [entry.msgctxt, ...entry.extractedComments].filter(Boolean).join(' - ');
+    if (context) {
+      if (entry.msgidPlural !== undefined) {
+        contextAnnotations[`${key}_one`] = context;
+        contextAnnotations[`${key}_other`] = context;
+      } else {
+        contextAnnotations[key] = context;
+      }
+    }
+  });
+
+  return { messages, contextAnnotations };
+}
+
+/**
+ * Build a target-language PO file from the source file and translated messages
+ */
+export function fillPoTranslations(
+  file: PoFile,
+  translation: Record<string, unknown>,
+  language: string,
+  options: { markFuzzy?: boolean } = {}
+): PoFile {
+  const categories = getPluralFormCategories(language);
+  const valueOf = (key: string) => (typeof translation[key] === 'string' ? (translation[key] as string) : '');
+
+  const entries = file.entries.map((entry, index) => {
+    if (entry.obsolete || entry.msgid === '') {
+      return entry;
+    }
+
+    const key = messageKey(index);
+    const flags = entry.flags.filter((flag) => flag !== 'fuzzy');
+    if (options.markFuzzy) {
+      flags.push('fuzzy');
+    }
+
+    const msgstr = entry.msgidPlural !== undefined
+      ? categories.map((category) => valueOf(`${key}_${category}`) || valueOf(`${key}_other`))
+      : [valueOf(key)];
+
+    return { ...entry, flags, msgstr };
+  });
+
+  return {
+    headerComments: file.headerComments,
+    headers: {
+      ...file.headers,
+      Language: language,
+      'Content-Type': 'text/plain; charset=UTF-8',
+      'Plural-Forms': getPluralFormsHeader(language),
+    },
+    entries,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * XLIFF 1.2 / 2.0 parsing and target serialization
+ *
+ * Documents are processed as text: units are located and their targets rewritten
+ * in place, so everything else in the file (headers, skeletons, custom namespaces)
+ * is kept byte for byte.
+ */
+
+import { decodeXml, getAttribute, protectMarkup, setAttribute, unwrapCdata } from './markup';
+
+export type XliffVersion = '1.2' | '2.0';
+
+export interface XliffUnit {
+  /** trans-unit / unit id */
+  id: string;
+  /** Key of the unit's target for serializeXliff (the id, plus the segment id for multi-segment 2.0 units) */
+  key: string;
+  /** Source content as inner XML, inline tags included (CDATA sections become escaped text) */
+  source: string;
+  /** Existing target content as inner XML (CDATA sections become escaped text) */
+  target?: string;
+  /** Contents of the unit's <note> elements */
+  notes: string[];
+  /** False when the unit is marked translate="no" */
+  translate: boolean;
+  /** Existing state attribute (1.2 target state or 2.0 segment state) */
+  state?: string;
+}
+
+export interface XliffDocument {
+  version: XliffVersion;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  units: XliffUnit[];
+  /** Original document text, used by serializeXliff */
+  xml: string;
+}
+
+export interface XliffTarget {
+  /** Target content as inner XML */
+  text: string;
+  /** State to record, e.g. 'translated' (1.2 target state / 2.0 segment state) */
+  state?: string;
+}
+
+const INLINE_TAG_PATTERN =
+  /<(ph|bpt|ept|it)\b[^>]*?(?:\/>|>[\s\S]*?<\/\1>)|<\/?(?:g|x|bx|ex|pc|sc|ec|mrk|sm|em)\b[^>]*>/g;
+
+function elementContent(body: string, name: string): string | undefined {
+  const match = new RegExp(`<${name}\\b[^>]*?(?:/>|>([\\s\\S]*?)</${name}>)`).exec(body);
+  return match ? unwrapCdata(match[1] ?? '') : undefined;
+}
+
+function elementAttributes(body: string, name: string): string {
+  const match = new RegExp(`<${name}\\b([^>]*?)/?>`).exec(body);
+  return match ? match[1] : '';
+}
+
+function notesOf(body: string): string[] {
+  const notes: string[] = [];
+  const pattern = /<note\b[^>]*>([\s\S]*?)<\/note>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body))) {
+    notes.push(decodeXml(unwrapCdata(match[1].trim())));
+  }
+  return notes;
+}
+
+function detectVersion(xml: string): XliffVersion {
+  const attributes = elementAttributes(xml, 'xliff');
+  return (getAttribute(attributes, 'version') || '').startsWith('2') ? '2.0' : '1.2';
+}
+
+interface UnitVisit {
+  unit: XliffUnit;
+  /** Full text of the element holding source/target (trans-unit in 1.2, segment in 2.0) */
+  element: string;
+}
+
+/**
+ * Visit every translatable element, letting the visitor replace it
+ */
+function walkUnits(xml: string, version: XliffVersion, visit: (visit: UnitVisit) => string | void): string {
+  if (version === '1.2') {
+    return xml.replace(/<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g, (element, attributes: string, body: string) => {
+      const id = getAttribute(attributes, 'id') || '';
+      const target = elementContent(body, 'target');
+      const unit: XliffUnit = {
+        id,
+        key: id,
+        source: elementContent(body, 'source') || '',
+        target,
+        notes: notesOf(body),
+        translate: getAttribute(attributes, 'translate') !== 'no',
+        state: target !== undefined ? getAttribute(elementAttributes(body, 'target'), 'state') : undefined,
+      };
+      return visit({ unit, element }) || element;
+    });
+  }
+
+  return xml.replace(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g, (unitElement, attributes: string, body: string) => {
+    const id = getAttribute(attributes, 'id') || '';
+    const notes = notesOf(body);
+    const translate = getAttribute(attributes, 'translate') !== 'no';
+    const segmentCount = (body.match(/<segment\b/g) || []).length;
+    let index = 0;
+
+    return unitElement.replace(/<segment\b([^>]*?)(?:\/>|>([\s\S]*?)<\/segment>)/g, (element, segmentAttributes: string, segmentBody = '') => {
+      const segmentId = getAttribute(segmentAttributes, 'id') || String(index);
+      index++;
+      const unit: XliffUnit = {
+        id,
+        key: segmentCount > 1 ? `${id}.${segmentId}` : id,
+        source: elementContent(segmentBody, 'source') || '',
+        target: elementContent(segmentBody, 'target'),
+        notes,
+        translate: translate && getAttribute(segmentAttributes, 'translate') !== 'no',
+        state: getAttribute(segmentAttributes, 'state'),
+      };
+      return visit({ unit, element }) || element;
+    });
+  });
+}
+
+/**
+ * Parse an XLIFF 1.2 or 2.0 document
+ */
+export function parseXliff(xml: string): XliffDocument {
+  const version = detectVersion(xml);
+  const units: XliffUnit[] = [];
+
+  walkUnits(xml, version, ({ unit }) => {
+    units.push(unit);
+  });
+
+  if (version === '1.2') {
+    const fileAttributes = elementAttributes(xml, 'file');
+    return {
+      version,
+      sourceLanguage: getAttribute(fileAttributes, 'source-language'),
+      targetLanguage: getAttribute(fileAttributes, 'target-language'),
+      units,
+      xml,
+    };
+  }
+
+  const rootAttributes = elementAttributes(xml, 'xliff');
+  return {
+    version,
+    sourceLanguage: getAttribute(rootAttributes, 'srcLang'),
+    targetLanguage: getAttribute(rootAttributes, 'trgLang'),
+    units,
+    xml,
+  };
+}
+
+/**
+ * Produce a target-language document, writing targets (and states) for the given unit keys
+ */
+export function serializeXliff(
+  document: XliffDocument,
+  targetLanguage: string,
+  targets: Record<string, XliffTarget>
+): string {
+  let xml = walkUnits(document.xml, document.version, ({ unit, element }) => {
+    const target = targets[unit.key];
+    if (!target) {
+      return;
+    }
+
+    const openEnd = element.indexOf('>') + 1;
+    let open = element.slice(0, openEnd);
+    let body = element.slice(openEnd);
+
+    const existingTarget = /<target\b([^>]*?)\/?>/.exec(body)?.[1] ?? '';
+
+    // Drop any existing target, then insert the new one right after the source
+    body = body.replace(/\s*<target\b[^>]*?(?:\/>|>[\s\S]*?<\/target>)/, '');
+    const sourceClose = body.indexOf('</source>');
+    if (sourceClose === -1) {
+      return;
+    }
+    const afterSource = sourceClose + '</source>'.length;
+    const indent = /\n([ \t]*)<source\b/.exec(body)?.[1] ?? '';
+
+    let targetOpen = '<target';
+    if (document.version === '1.2') {
+      let attributes = existingTarget.replace(/\s+state\s*=\s*("[^"]*"|'[^']*')/, '');
+      if (target.state) {
+        attributes = setAttribute(attributes, 'state', target.state);
+      }
+      targetOpen += attributes;
+    } else if (target.state) {
+      open = `${setAttribute(open.slice(0, -1), 'state', target.state)}>`;
+    }
+
+    const targetElement = `${indent ? `\n${indent}` : ''}${targetOpen}>${target.text}</target>`;
+    body = body.slice(0, afterSource) + targetElement + body.slice(afterSource);
+    return open + body;
+  });
+
+  if (document.version === '1.2') {
+    xml = xml.replace(
+      /<file\b([^>]*)>/g,
+      (_match, attributes: string) => `<file${setAttribute(attributes, 'target-language', targetLanguage)}>`
+    );
+  } else {
+    xml = xml.replace(
+      /<xliff\b([^>]*)>/,
+      (_match, attributes: string) => `<xliff${setAttribute(attributes, 'trgLang', targetLanguage)}>`
+    );
+  }
+
+  return xml;
+}
+
+/**
+ * Replace inline tags with placeholder tokens and decode entities, so the text can be
+ * translated like any other string; `restore` turns a translation back into inner XML
+ */
+export function protectInlineTags(source: string): { text: string; restore: (translated: string) => string } {
+  return protectMarkup(source, INLINE_TAG_PATTERN);
+}
@@ -0,0 +1,588 @@
+/**
+ * YAML locale file parsing and serialization
+ *
+ * Covers the YAML used by Rails / Symfony locale files: block mappings and
+ * sequences, flow sequences, quoted, plain and block (| >) scalars, anchors,
+ * aliases and merge keys. Like the other adapters, documents are rewritten
+ * line by line, so comments, key order and anchors are kept.
+ */
+
+export type YamlScalarStyle = 'plain' | 'single' | 'double' | 'literal' | 'folded' | 'flow';
+
+export interface YamlEntry {
+  /** Key path segments (sequence items use their index) */
+  path: string[];
+  value: string;
+  style: YamlScalarStyle;
+  /** First line of the value (the line holding its key or sequence dash) */
+  line: number;
+  /** Line after the last line of the value */
+  endLine: number;
+  /** Text preceding the value on its first line */
+  prefix: string;
+  /** Text following the value on its last line (usually a comment) */
+  suffix: string;
+  /** Content indentation of a block scalar */
+  blockIndent?: number;
+  /** Trailing line breaks kept in a block scalar's value: clip (one), strip (none) or keep (all) */
+  chomping?: 'clip' | 'strip' | 'keep';
+  /** Raw items of a flow sequence and the index of this entry among them */
+  flowItems?: string[];
+  flowIndex?: number;
+  /** Comment lines directly above the entry's key */
+  comment?: string;
+}
+
+export interface YamlDocument {
+  lines: string[];
+  /** Translatable string scalars, in document order */
+  entries: YamlEntry[];
+  /** Key paths of block and flow sequences, as JSON arrays of segments */
+  sequences: string[];
+  /** The only top-level key, when the document has exactly one (e.g. `en` in Rails files) */
+  rootKey?: string;
+  /** Line index of the root key */
+  rootLine?: number;
+}
+
+interface Parent {
+  indent: number;
+  path: string[];
+  /** Next index for sequence items under this key */
+  items: number;
+}
+
+const KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-?:,[\]{}][^#]*?|[-?:](?=\S)[^#]*?)\s*:(?=\s|$)\s*/;
+
+const NON_STRING_PATTERN =
+  /^(?:true|false|yes|no|on|off|y|n|null|~|[-+]?(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?|0x[0-9a-fA-F]+|0o[0-7]+|[-+]?\.(?:inf|Inf|INF)|\.(?:nan|NaN|NAN))$/i;
+
+function indentOf(line: string): number {
+  return /^ */.exec(line)![0].length;
+}
+
+function isBlankOrComment(line: string): boolean {
+  return /^\s*(#.*)?$/.test(line);
+}
+
+function unquoteKey(key: string): string {
+  if (key.startsWith('"')) {
+    return decodeDoubleQuoted(key.slice(1, -1));
+  }
+  if (key.startsWith("'")) {
+    return key.slice(1, -1).replace(/''/g, "'");
+  }
+  return key;
+}
+
+function decodeDoubleQuoted(text: string): string {
+  return text.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (_match, escape: string) => {
+    if (escape.length > 1) {
+      return String.fromCodePoint(parseInt(escape.slice(1), 16));
+    }
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0', e: '\x1b', _: ' ', N: '\u0085' };
+    return escapes[escape] ?? escape;
+  });
+}
+
+/** Split a plain scalar from its trailing ` # comment` */
+function splitComment(text: string): [string, string] {
+  const match = /(^|\s)#/.exec(text);
+  if (!match) {
+    return [text.trimEnd(), text.slice(text.trimEnd().length)];
+  }
+  const end = match.index + match[1].length;
+  const value = text.slice(0, end).trimEnd();
+  return [value, text.slice(value.length)];
+}
+
+/** Find the end of a quoted scalar starting at `text[0]`, or -1 when it is not closed */
+function findClosingQuote(text: string): number {
+  const quote = text[0];
+  for (let i = 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+      } else {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/** Split the items of a single-line flow sequence, or undefined when it holds nested collections */
+function splitFlowSequence(text: string): string[] | undefined {
+  const inner = text.slice(1, -1);
+  const items: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if ((char === '"' || char === "'") && current.trim() === '') {
+      const close = findClosingQuote(inner.slice(i));
+      if (close < 0) {
+        return undefined;
+      }
+      current += inner.slice(i, i + close + 1);
+      i += close;
+    } else if (char === '[' || char === '{') {
+      return undefined;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim() !== '' || items.length > 0) {
+    items.push(current.trim());
+  }
+  return items;
+}
+
+/** Decode a flow or single-line scalar; undefined for aliases and non-string values */
+function decodeScalar(raw: string): { value: string; style: YamlScalarStyle } | undefined {
+  if (raw.startsWith('"')) {
+    return { value: decodeDoubleQuoted(raw.slice(1, -1)), style: 'double' };
+  }
+  if (raw.startsWith("'")) {
+    return { value: raw.slice(1, -1).replace(/''/g, "'"), style: 'single' };
+  }
+  if (raw === '' || raw.startsWith('*') || raw.startsWith(':') || raw.startsWith('!') || NON_STRING_PATTERN.test(raw)) {
+    return undefined;
+  }
+  return { value: raw, style: 'plain' };
+}
+
+/**
+ * Parse a YAML locale file into its translatable string entries
+ */
+export function parseYaml(source: string): YamlDocument {
+  const lines = source.split('\n');
+  const entries: YamlEntry[] = [];
+  const sequences = new Set<string>();
+  const stack: Parent[] = [];
+  const topLevel: Array<{ key: string; line: number }> = [];
+  let comments: string[] = [];
+
+  const takeComment = () => {
+    const comment = comments.join(' ') || undefined;
+    comments = [];
+    return comment;
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlankOrComment(line)) {
+      const comment = /^\s*#\s?(.*)$/.exec(line);
+      comments = comment ? [...comments, comment[1].trim()] : [];
+      i++;
+      continue;
+    }
+    if (/^(---|\.\.\.)(\s|$)/.test(line) || /^\s*%/.test(line)) {
+      comments = [];
+      i++;
+      continue;
+    }
+
+    let indent = indentOf(line);
+    let content = line.slice(indent);
+    let path: string[];
+
+    // Sequence items: `- value` or `- key: value`; block sequences may sit at their key's indent
+    const dash = /^-(\s+|$)/.exec(content);
+    if (dash) {
+      while (stack.length > 0 && stack[stack.length - 1].indent > indent) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1];
+      if (!parent) {
+        comments = [];
+        i++;
+        continue;
+      }
+
+      const itemPath = [...parent.path, String(parent.items++)];
+      sequences.add(JSON.stringify(parent.path));
+      indent += 1 + dash[1].length;
+      content = content.slice(1 + dash[1].length);
+
+      if (!KEY_PATTERN.test(content)) {
+        const result = readValue(lines, i, line.length - content.length, indent - 1, itemPath);
+        if (result.entries.length > 0) {
+          result.entries[0].comment = takeComment();
+        }
+        entries.push(...result.entries);
+        comments = [];
+        i = result.next;
+        continue;
+      }
+
+      // A mapping inside a sequence item: its keys live at the item's content indent
+      stack.push({ indent: indent - 1, path: itemPath, items: 0 });
+      path = itemPath;
+    } else {
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+        stack.pop();
+      }
+      path = stack.length > 0 ? stack[stack.length - 1].path : [];
+    }
+
+    const keyMatch = KEY_PATTERN.exec(content);
+    if (!keyMatch) {
+      comments = [];
+      i++;
+      continue;
+    }
+
+    const key = unquoteKey(keyMatch[1].trim());
+    const keyPath = [...path, key];
+    const valueStart = line.length - content.length + keyMatch[0].length;
+
+    if (keyPath.length === 1) {
+      topLevel.push({ key, line: i });
+    }
+
+    const comment = takeComment();
+    const [rest] = splitComment(line.slice(valueStart));
+    const anchorless = rest.replace(/^&\S+\s*/, '');
+
+    if (anchorless === '' || key === '<<') {
+      // Nested mapping / sequence (or an empty value, or a merge key)
+      stack.push({ indent, path: keyPath, items: 0 });
+      i++;
+      continue;
+    }
+
+    const result = readValue(lines, i, valueStart, indent, keyPath);
+    if (result.entries.length > 0) {
+      result.entries[0].comment = comment;
+    }
+    if (result.entries.some((entry) => entry.style === 'flow')) {
+      sequences.add(JSON.stringify(keyPath));
+    }
+    entries.push(...result.entries);
+    i = result.next;
+  }
+
+  const document: YamlDocument = { lines, entries, sequences: [...sequences] };
+  if (topLevel.length === 1) {
+    document.rootKey = topLevel[0].key;
+    document.rootLine = topLevel[0].line;
+  }
+  return document;
+}
+
+/**
+ * Read the value starting at `lines[index][start]` of a key (or sequence item) at `indent`
+ */
+function readValue(
+  lines: string[],
+  index: number,
+  start: number,
+  indent: number,
+  path: string[]
+): { entries: YamlEntry[]; next: number } {
+  const line = lines[index];
+  const anchor = /^&\S+\s*/.exec(line.slice(start));
+  const valueStart = start + (anchor ? anchor[0].length : 0);
+  const prefix = line.slice(0, valueStart);
+  const text = line.slice(valueStart);
+
+  // Block scalars
+  const block = /^([|>])([-+]?\d?|\d[-+]?)(\s+#.*)?\s*$/.exec(text);
+  if (block) {
+    let next = index + 1;
+    let lastContent = index;
+    let blockIndent: number | undefined;
+    let trailingBlankLines = 0;
+
+    while (next < lines.length) {
+      const current = lines[next];
+      if (current.trim() === '') {
+        // The empty string after a final line break is not a line
+        if (next < lines.length - 1) {
+          trailingBlankLines++;
+        }
+        next++;
+        continue;
+      }
+      const currentIndent = indentOf(current);
+      if (currentIndent <= indent) {
+        break;
+      }
+      blockIndent = blockIndent ?? currentIndent;
+      if (currentIndent < blockIndent) {
+        break;
+      }
+      lastContent = next;
+      trailingBlankLines = 0;
+      next++;
+    }
+
+    if (blockIndent === undefined) {
+      return { entries: [], next: index + 1 };
+    }
+
+    const contentLines = lines.slice(index + 1, lastContent + 1).map((current) => current.slice(blockIndent));
+    const literal = block[1] === '|';
+    const chomping = block[2].includes('-') ? 'strip' : block[2].includes('+') ? 'keep' : 'clip';
+    const blockText = literal
+      ? contentLines.join('\n')
+      : contentLines
+          .join('\n')
+          .split(/\n\s*\n/)
+          .map((paragraph) => paragraph.replace(/\n/g, ' '))
+          .join('\n');
+    // The last line break and, when kept, the blank lines after it belong to the value
+    const lineBreaks = chomping === 'strip' ? 0 : chomping === 'clip' ? 1 : 1 + trailingBlankLines;
+    const value = blockText + '\n'.repeat(lineBreaks);
+
+    return {
+      entries: [
+        {
+          path,
+          value,
+          style: literal ? 'literal' : 'folded',
+          line: index,
+          endLine: lastContent + 1,
+          prefix,
+          suffix: '',
+          blockIndent,
+          chomping,
+        },
+      ],
+      next: lastContent + 1,
+    };
+  }
+
+  // Flow sequences on a single line
+  if (text.startsWith('[')) {
+    const [flow, suffix] = splitComment(text);
+    const items = flow.endsWith(']') ? splitFlowSequence(flow) : undefined;
+    if (!items) {
+      return { entries: [], next: index + 1 };
+    }
+
+    const entries: YamlEntry[] = [];
+    items.forEach((raw, flowIndex) => {
+      const scalar = decodeScalar(raw);
+      if (scalar) {
+        entries.push({
+          path: [...path, String(flowIndex)],
+          value: scalar.value,
+          style: 'flow',
+          line: index,
+          endLine: index + 1,
+          prefix,
+          suffix,
+          flowItems: items,
+          flowIndex,
+        });
+      }
+    });
+    return { entries, next: index + 1 };
+  }
+
+  if (text.startsWith('{')) {
+    return { entries: [], next: index + 1 };
+  }
+
+  // Quoted scalars, possibly spanning several lines
+  if (text.startsWith('"') || text.startsWith("'")) {
+    let raw = text;
+    let end = index;
+    while (findClosingQuote(raw) < 0 && end + 1 < lines.length) {
+      end++;
+      raw += '\n' + lines[end];
+    }
+
+    const close = findClosingQuote(raw);
+    const quoted = close < 0 ? raw : raw.slice(0, close + 1);
+    // Line breaks fold to spaces; an escaped line break (double quotes only) joins without one
+    const folded = quoted.replace(/(\\?)[ \t]*\n[ \t]*/g, (_match, escaped: string) =>
+      escaped && quoted.startsWith('"') ? '' : `${escaped} `
+    );
+    const scalar = decodeScalar(folded)!;
+
+    return {
+      entries: [{ path, ...scalar, line: index, endLine: end + 1, prefix, suffix: raw.slice(quoted.length) }],
+      next: end + 1,
+    };
+  }
+
+  // Plain scalars, with continuation lines indented below the key
+  const [first, firstSuffix] = splitComment(text);
+  const parts = [first];
+  let suffix = firstSuffix;
+  let end = index;
+
+  while (!suffix.trim() && end + 1 < lines.length) {
+    const current = lines[end + 1];
+    if (current.trim() === '' || indentOf(current) <= indent || /^\s*#/.test(current)) {
+      break;
+    }
+    end++;
+    const [part, partSuffix] = splitComment(current.trim());
+    parts.push(part);
+    suffix = partSuffix;
+  }
+
+  const scalar = decodeScalar(parts.join(' '));
+  return {
+    entries: scalar ? [{ path, ...scalar, line: index, endLine: end + 1, prefix, suffix }] : [],
+    next: end + 1,
+  };
+}
+
+function isSafePlain(value: string): boolean {
+  return (
+    value !== '' &&
+    value.trim() === value &&
+    !/[\n\t]/.test(value) &&
+    !/^[-?:,[\]{}#&*!|>'"%@`]/.test(value) &&
+    !/:(\s|$)|\s#/.test(value) &&
+    !NON_STRING_PATTERN.test(value)
+  );
+}
+
+/**
+ * Encode a string as a YAML flow scalar, keeping the original quoting style where possible
+ */
+export function encodeYamlScalar(value: string, style: YamlScalarStyle = 'plain'): string {
+  if (style === 'single' && !/\n/.test(value)) {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  if ((style === 'plain' || style === 'flow') && isSafePlain(value) && !(style === 'flow' && /[,[\]{}]/.test(value))) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+/** Options for serializeYaml */
+export interface SerializeYamlOptions {
+  /** Replace the document's root key with this key (e.g. the target locale) */
+  rootKey?: string;
+  /** Number of leading path segments to drop when looking up translations (1 to strip a root locale key) */
+  stripSegments?: number;
+}
+
+/**
+ * Rewrite a YAML document with translated values, looked up by dot path.
+ * Values without a translation are left untouched.
+ */
+export function serializeYaml(
+  document: YamlDocument,
+  translations: Record<string, unknown>,
+  options: SerializeYamlOptions = {}
+): string {
+  const { rootKey, stripSegments = 0 } = options;
+  const lines = [...document.lines];
+  const replacements = new Map<number, { endLine: number; lines: string[] }>();
+  const flowLines = new Map<number, { entry: YamlEntry; items: string[] }>();
+
+  const lookup = (entry: YamlEntry): string | undefined => {
+    let current: unknown = translations;
+    for (const segment of entry.path.slice(stripSegments)) {
+      if (current === null || typeof current !== 'object') {
+        return undefined;
+      }
+      current = (current as Record<string, unknown>)[segment];
+    }
+    return typeof current === 'string' ? current : undefined;
+  };
+
+  for (const entry of document.entries) {
+    const translated = lookup(entry);
+    if (translated === undefined) {
+      continue;
+    }
+
+    if (entry.style === 'flow') {
+      const flow = flowLines.get(entry.line) ?? { entry, items: [...entry.flowItems!] };
+      flow.items[entry.flowIndex!] = encodeYamlScalar(translated, 'flow');
+      flowLines.set(entry.line, flow);
+    } else if (entry.style === 'literal' || entry.style === 'folded') {
+      const indent = ' '.repeat(entry.blockIndent!);
+      // Trailing line breaks come from the chomping indicator and the blank lines kept after the value
+      const text = translated.replace(/\n+$/, '');
+      const content = entry.style === 'literal' ? text.split('\n') : text.split('\n').join('\n\n').split('\n');
+      replacements.set(entry.line, {
+        endLine: entry.endLine,
+        lines: [lines[entry.line], ...content.map((text) => (text ? indent + text : ''))],
+      });
+    } else {
+      replacements.set(entry.line, {
+        endLine: entry.endLine,
+        lines: [entry.prefix + encodeYamlScalar(translated, entry.style) + entry.suffix],
+      });
+    }
+  }
+
+  for (const [line, { entry, items }] of flowLines) {
+    replacements.set(line, { endLine: line + 1, lines: [`${entry.prefix}[${items.join(', ')}]${entry.suffix}`] });
+  }
+
+  if (rootKey !== undefined && document.rootLine !== undefined) {
+    const line = lines[document.rootLine];
+    const match = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^:]+?)(\s*:.*)$/.exec(line);
+    if (match) {
+      const quote = /^["']/.exec(match[1])?.[0] ?? '';
+      lines[document.rootLine] = `${quote}${rootKey}${quote}${match[2]}`;
+    }
+  }
+
+  const output: string[] = [];
+  for (let line = 0; line < lines.length; line++) {
+    const replacement = replacements.get(line);
+    if (replacement) {
+      output.push(...replacement.lines);
+      line = replacement.endLine - 1;
+    } else {
+      output.push(lines[line]);
+    }
+  }
+  return output.join('\n');
+}
+
+/**
+ * Convert YAML entries into JSON messages for translateJSON, dropping the first
+ * `stripSegments` path segments. Sequences become arrays; comments above a key
+ * become context annotations.
+ */
+export function extractYamlMessages(
+  document: YamlDocument,
+  stripSegments = 0
+): { messages: Record<string, unknown>; contextAnnotations: Record<string, string> } {
+  const messages: Record<string, unknown> = {};
+  const contextAnnotations: Record<string, string> = {};
+
+  for (const entry of document.entries) {
+    const path = entry.path.slice(stripSegments);
+    if (path.length === 0) {
+      continue;
+    }
+
+    let current = messages;
+    path.slice(0, -1).forEach((segment, depth) => {
+      if (current[segment] === null || typeof current[segment] !== 'object') {
+        const containerPath = entry.path.slice(0, stripSegments + depth + 1);
+        current[segment] = document.sequences.includes(JSON.stringify(containerPath)) ? [] : {};
+      }
+      current = current[segment] as Record<string, unknown>;
+    });
+    current[path[path.length - 1]] = entry.value;
+
+    if (entry.comment) {
+      contextAnnotations[path.join('.')] = entry.comment;
+    }
+  }
+
+  return { messages, contextAnnotations };
+}
@@ -0,0 +1,50 @@
+/**
+ * Change detection between two versions of a source locale file
+ */
+
+import { flattenObject } from './utils';
+
+export interface SourceChanges {
+  /** Key paths present in the new source only */
+  added: string[];
+  /** Key paths whose source value changed */
+  changed: string[];
+  /** Key paths present in the previous source only */
+  removed: string[];
+  /** Key paths with identical source values */
+  unchanged: string[];
+}
+
+/**
+ * Compare two versions of source content key by key, using dot-path keys
+ *
+ * @example
+ * diffSourceContent({ a: 'A', b: 'B' }, { a: 'A2', c: 'C' })
+ * // { added: ['c'], changed: ['a'], removed: ['b'], unchanged: [] }
+ */
+export function diffSourceContent(
+  previous: Record<string, unknown>,
+  current: Record<string, unknown>
+): SourceChanges {
+  const previousFlat = flattenObject(previous);
+  const currentFlat = flattenObject(current);
+  const changes: SourceChanges = { added: [], changed: [], removed: [], unchanged: [] };
+
+  for (const key of Object.keys(currentFlat)) {
+    if (!(key in previousFlat)) {
+      changes.added.push(key);
+    } else if (JSON.stringify(previousFlat[key]) !== JSON.stringify(currentFlat[key])) {
+      changes.changed.push(key);
+    } else {
+      changes.unchanged.push(key);
+    }
+  }
+
+  for (const key of Object.keys(previousFlat)) {
+    if (!(key in currentFlat)) {
+      changes.removed.push(key);
+    }
+  }
+
+  return changes;
+}
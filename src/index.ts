@@ -16,17 +16,255 @@
  *   targetLanguages: ['es', 'fr', 'de'],
  * });
  *
- * console.log(result.es); // { greeting: 'Hola', farewell: 'Adiós' }
+ * console.log(result.translations.es); // { greeting: 'Hola', farewell: 'Adiós' }
  * ```
  */
 
+import {
+  BatchOptions,
+  DEFAULT_BATCH_OPTIONS,
+  createBatches,
+  mapWithConcurrency,
+  mergeTranslationResults,
+} from './batching';
+import {
+  CacheInfo,
+  CacheLookup,
+  TranslationCache,
+  createCacheKey,
+  lookupCache,
+  storeInCache,
+} from './cache';
+import { LanguageCatalog, LanguageCatalogOptions } from './catalog';
+import { Shipi18nError } from './errors';
+import { TranslationEstimate, estimateJSON } from './estimate';
+import { applyJSONFallbacks, applyTextFallbacks, planFallbacks } from './fallback';
+import {
+  collectAndroidTranslations,
+  extractAndroidMessages,
+  parseAndroidStrings,
+  serializeAndroidStrings,
+} from './formats/android';
+import {
+  collectAppleStringsTranslations,
+  collectStringsdictTranslations,
+  extractAppleStringsMessages,
+  extractStringsdictMessages,
+  parseAppleStrings,
+  parseStringsdict,
+  serializeAppleStrings,
+  serializeStringsdict,
+} from './formats/apple';
+import { extractPoMessages, fillPoTranslations, parsePo, serializePo } from './formats/po';
+import { XliffTarget, parseXliff, protectInlineTags, serializeXliff } from './formats/xliff';
+import { extractYamlMessages, parseYaml, serializeYaml } from './formats/yaml';
+import { SourceChanges, diffSourceContent } from './incremental';
+import { TranslationJob, TranslationJobOptions } from './job';
+import {
+  LanguageTagValidation,
+  canonicalizeLanguageTag,
+  mapLanguageTags,
+  restoreLanguageTags,
+} from './languages';
+import { FetchLike, Middleware, runMiddleware } from './middleware';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  RetryOptions,
+  getRetryDelay,
+  isRetryableError,
+  parseRetryAfter,
+  sleep,
+} from './retry';
+import { comparePlaceholders } from './placeholders';
+import { fillMissingPlurals, validatePlurals } from './plurals';
+import {
+  PseudoLocalizeOptions,
+  getPseudoLocaleOptions,
+  isPseudoLocale,
+  pseudoLocalize,
+  pseudoLocalizeJSON,
+} from './pseudo';
+import { createFileResult, createJSONResult, createTextResult } from './result';
+import { SkippedValue, SkipValuePreset, restoreSkippedContent, splitSkippedContent } from './skip';
+import {
+  LocaleLayout,
+  SyncFileReport,
+  getLocaleFileName,
+  getLocaleFilePath,
+  listLocaleFiles,
+  mergeLocaleContent,
+  omitFallbackContent,
+  readLocaleFile,
+  writeLocaleFile,
+} from './sync';
+import {
+  cloneJSON,
+  isPlainObject,
+  containsText,
+  deleteNestedValue,
+  deleteSegments,
+  flattenObject,
+  flattenSegments,
+  getNestedValue,
+  getSegments,
+  setNestedValue,
+  setSegments,
+  unflattenObject,
+} from './utils';
+
+export { DEFAULT_BATCH_OPTIONS, createBatches, mergeTranslationResults } from './batching';
+export type { BatchOptions } from './batching';
+export { FileCache, MemoryCache, createCacheKey } from './cache';
+export type { CacheInfo, CacheKeyParts, TranslationCache } from './cache';
+export { LanguageCatalog, getTextDirection } from './catalog';
+export type { LanguageCatalogOptions, LanguageInfo, LanguageLoader, TextDirection } from './catalog';
+export { checkLocales, findMissingKeys } from './check';
+export type {
+  CheckLocalesOptions,
+  CheckStatus,
+  LanguageCheckResult,
+  LocaleCheckReport,
+  LocaleIssue,
+  LocaleIssueSeverity,
+  LocaleIssueType,
+} from './check';
+export { Shipi18nError } from './errors';
+export { estimateJSON } from './estimate';
+export type { TranslationEstimate } from './estimate';
+export { applyJSONFallbacks, applyTextFallbacks, planFallbacks } from './fallback';
+export type { FallbackPlan } from './fallback';
+export {
+  collectAndroidTranslations,
+  decodeAndroidText,
+  encodeAndroidText,
+  extractAndroidMessages,
+  parseAndroidStrings,
+  protectAndroidText,
+  serializeAndroidStrings,
+} from './formats/android';
+export type { AndroidResource, AndroidResourceType, AndroidTranslations } from './formats/android';
+export {
+  collectAppleStringsTranslations,
+  collectStringsdictTranslations,
+  decodeStringsText,
+  encodeStringsText,
+  extractAppleStringsMessages,
+  extractStringsdictMessages,
+  parseAppleStrings,
+  parseStringsdict,
+  protectFormatKey,
+  serializeAppleStrings,
+  serializeStringsdict,
+} from './formats/apple';
+export type {
+  AppleStringsEntry,
+  StringsdictEntry,
+  StringsdictTranslation,
+  StringsdictVariable,
+} from './formats/apple';
+export {
+  extractPoMessages,
+  fillPoTranslations,
+  getPluralFormCategories,
+  getPluralFormsHeader,
+  parsePo,
+  serializePo,
+} from './formats/po';
+export type { PoEntry, PoFile } from './formats/po';
+export { parseXliff, protectInlineTags, serializeXliff } from './formats/xliff';
+export type { XliffDocument, XliffTarget, XliffUnit, XliffVersion } from './formats/xliff';
+export { encodeYamlScalar, extractYamlMessages, parseYaml, serializeYaml } from './formats/yaml';
+export type { SerializeYamlOptions, YamlDocument, YamlEntry, YamlScalarStyle } from './formats/yaml';
+export { diffSourceContent } from './incremental';
+export type { SourceChanges } from './incremental';
+export { TranslationJob } from './job';
+export type {
+  JobBatchEvent,
+  JobErrorEvent,
+  JobFanOut,
+  JobLanguageEvent,
+  JobProgressEvent,
+  JobWarningEvent,
+  TranslationJobEvents,
+  TranslationJobOptions,
+} from './job';
+export {
+  canonicalizeLanguageTag,
+  getLanguageFallbacks,
+  isSameLanguageTag,
+  isWellFormedLanguageTag,
+  mapLanguageTags,
+  processRegionalLanguages,
+  restoreLanguageTags,
+  validateLanguageTags,
+} from './languages';
+export type { LanguageTagMap, LanguageTagValidation } from './languages';
+export { headersMiddleware, loggingMiddleware } from './middleware';
+export type { FetchLike, Middleware, MiddlewareContext, RequestLogEntry } from './middleware';
+export { comparePlaceholders, extractPlaceholders } from './placeholders';
+export type { PlaceholderMismatch } from './placeholders';
+export {
+  fillMissingPlurals,
+  findPluralGroups,
+  getPluralCategories,
+  parsePluralKey,
+  validatePlurals,
+} from './plurals';
+export type { PluralGroup, PluralIssue, PluralType } from './plurals';
+export { PSEUDO_LOCALES, getPseudoLocaleOptions, isPseudoLocale, pseudoLocalize, pseudoLocalizeJSON } from './pseudo';
+export type { PseudoLocalizeOptions } from './pseudo';
+export { RESULT_METADATA_KEYS } from './result';
+export {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  isRetryableError,
+  parseRetryAfter,
+} from './retry';
+export type { RetryAttempt, RetryOptions } from './retry';
+export { SKIP_VALUE_PATTERNS } from './skip';
+export type { SkipValuePreset } from './skip';
+export { getLocaleFileName, getLocaleFilePath, listLocaleFiles, mergeLocaleContent } from './sync';
+export type { LocaleFile, LocaleLayout, SyncFileReport, SyncFileStatus } from './sync';
+
 export interface Shipi18nConfig {
-  /** Your Shipi18n API key */
-  apiKey: string;
+  /** Your Shipi18n API key (optional with pseudoLocalization) */
+  apiKey?: string;
   /** API base URL (default: https://ydjkwckq3f.execute-api.us-east-1.amazonaws.com) */
   baseUrl?: string;
   /** Request timeout in milliseconds (default: 30000) */
   timeout?: number;
+  /** Retry policy for rate limits and transient errors (default: no retries) */
+  retry?: RetryOptions;
+  /** Local cache for translated strings; hits are served without an API call */
+  cache?: TranslationCache;
+  /** fetch implementation, e.g. one routed through a proxy (default: the global fetch) */
+  fetch?: FetchLike;
+  /** Middleware run in order around every HTTP request, including retries */
+  middleware?: Middleware[];
+  /** Caching of the supported language list (see `languages`) */
+  languageCatalog?: LanguageCatalogOptions;
+  /**
+   * Reject unsupported target languages with UNSUPPORTED_LANGUAGE before translating (default: false).
+   * Off by default because it adds a languages request before the first translation.
+   */
+  languageValidation?: boolean;
+  /** Pseudo-localize every target locally instead of calling the API, e.g. for UI testing (default: false) */
+  pseudoLocalization?: boolean | PseudoLocalizeOptions;
+}
+
+/** Per-call options, accepted as the last argument of every API method */
+export interface RequestOptions {
+  /** Cancel the call; in-flight requests and retry delays stop with an ABORTED error */
+  signal?: AbortSignal;
+  /** Timeout per request in milliseconds (default: the client's timeout) */
+  timeout?: number;
+  /** Extra HTTP headers sent with every request of the call */
+  headers?: Record<string, string>;
+  /**
+   * Sent as the Idempotency-Key header, so a retried request is not processed twice.
+   * Calls split into several requests suffix it per request (`key:1`, `key:2`, ...).
+   */
+  idempotencyKey?: string;
 }
 
 export interface FallbackOptions {
@@ -34,20 +272,57 @@ export interface FallbackOptions {
   fallbackToSource?: boolean;
   /** Enable regional fallback e.g., pt-BR → pt (default: true) */
   regionalFallback?: boolean;
-  /** Custom fallback language code (overrides source language) */
+  /**
+   * Request every parent in a regional chain (es-MX → es-419, es) instead of only the base language
+   * (default: false). Parents that are not requested are skipped when resolving fallbacks.
+   */
+  requestParentLanguages?: boolean;
+  /** Language whose translations fill gaps before the source does (e.g. 'en-GB' for an 'en' source); requested too */
   fallbackLanguage?: string;
+  /**
+   * Fallback chains per target language, tried in order before fallbackLanguage and the source
+   * (e.g. { 'es-MX': ['es-419', 'es'] }). Replaces the regional default (pt-BR → pt) for that language.
+   */
+  chains?: Record<string, string[]>;
 }
 
+/**
+ * What to do when a translation's placeholders differ from the source:
+ * - 'off': no validation
+ * - 'warn': add a placeholder_mismatch warning
+ * - 'fallback': warn and replace the translation with the source value
+ */
+export type PlaceholderValidationMode = 'off' | 'warn' | 'fallback';
+
+/**
+ * How to check i18next plural groups against each target language's CLDR categories:
+ * - 'off': no validation
+ * - 'warn': add a plural_mismatch warning for missing or superfluous categories
+ * - 'fill': warn and fill missing categories from the `_other` form
+ */
+export type PluralValidationMode = 'off' | 'warn' | 'fill';
+
+/**
+ * What translateJSON does when the API request fails after retries:
+ * - 'throw': reject with the Shipi18nError
+ * - 'fallback': resolve with every target filled along its fallback chain (ending with the source),
+ *   an `api_error` warning and the original `error`
+ */
+export type ErrorHandlingMode = 'throw' | 'fallback';
+
 /** HTML handling modes for source text */
 export type HtmlHandlingMode = 'none' | 'strip' | 'decode' | 'preserve';
 
-export interface TranslateJSONOptions {
+export interface TranslateJSONOptions<
+  T extends Record<string, unknown> = Record<string, unknown>,
+  L extends string = string,
+> {
   /** JSON content to translate (object or JSON string) */
-  content: Record<string, unknown> | string;
+  content: T | string;
   /** Source language code (e.g., 'en') */
   sourceLanguage: string;
   /** Target language codes (e.g., ['es', 'fr', 'de']) */
-  targetLanguages: string[];
+  targetLanguages: L[];
   /** Preserve placeholders like {name}, {{count}}, etc. (default: true) */
   preservePlaceholders?: boolean;
   /** Enable i18next pluralization support (default: true) */
@@ -66,17 +341,117 @@ export interface TranslateJSONOptions {
   skipKeys?: string[];
   /** Path patterns to skip (supports glob wildcards, e.g., ['states.*', 'config.*.internal']) */
   skipPaths?: string[];
+  /** Skip string values matching a regex or preset (e.g., ['url', 'email', 'hexColor', /^SKU-/]) */
+  skipValues?: Array<RegExp | SkipValuePreset>;
   /** Per-key context hints for disambiguation (e.g., { 'close': 'button - dismiss window' }) */
   contextAnnotations?: Record<string, string>;
+  /** Check returned translations for missing or extra placeholders (default: 'warn') */
+  placeholderValidation?: PlaceholderValidationMode;
+  /** Check plural groups against each language's CLDR categories when pluralization is enabled (default: 'warn') */
+  pluralValidation?: PluralValidationMode;
+  /** Split large content into several requests, or `false` to always send a single request */
+  batching?: BatchOptions | false;
+  /** Skip the API call and return only an `estimate` of what would be sent (default: false) */
+  dryRun?: boolean;
+  /** Throw on API failure, or resolve with fallback content (default: 'throw') */
+  onError?: ErrorHandlingMode;
 }
 
-export interface TranslateTextOptions {
+export interface TranslateJSONIncrementalOptions extends TranslateJSONOptions {
+  /** Source content from the previous run (object or JSON string) */
+  previousContent: Record<string, unknown> | string;
+  /** Translations produced by the previous run, keyed by language code */
+  previousTranslations: Record<string, Record<string, unknown>>;
+}
+
+export interface IncrementalTranslationResult {
+  /**
+   * Full translations per target language: previous output merged with the new delta.
+   * Keys that fell back are left out (and their stale translations removed), so the next run requests them again.
+   */
+  translations: Record<string, Record<string, unknown>>;
+  /** Source keys added, changed or removed since the previous run */
+  changes: SourceChanges;
+  /** Key paths sent for translation, by language */
+  translatedKeys: Record<string, string[]>;
+  /** Result of the delta translateJSON call (undefined when nothing needed translating) */
+  delta?: TranslateJSONResult;
+}
+
+export interface SyncLocalesOptions<L extends string = string>
+  extends Omit<
+    TranslateJSONOptions<Record<string, unknown>, L>,
+    'content' | 'namespace' | 'groupByNamespace' | 'exportPerNamespace'
+  > {
+  /** Locales directory */
+  dir: string;
+  /** File layout inside the directory (default: '{lng}/{ns}.json') */
+  layout?: LocaleLayout;
+  /** Retranslate keys that already have a translation (default: false, existing translations are kept) */
+  overwrite?: boolean;
+  /** Remove keys that no longer exist in the source files (default: false) */
+  prune?: boolean;
+  /** JSON indentation of written files (default: 2) */
+  indent?: number;
+}
+
+export interface SyncLocalesResult<L extends string = string> {
+  /** One report per target file */
+  files: SyncFileReport[];
+  /** Result of the translateJSON call (undefined when nothing needed translating) */
+  translation?: TranslateJSONResult<Record<string, unknown>, L>;
+}
+
+/** Options shared by the file-format methods (translatePO, ...) */
+export type FileTranslateOptions<L extends string = string> = Omit<
+  TranslateJSONOptions<Record<string, unknown>, L>,
+  'content' | 'contextAnnotations' | 'namespace' | 'groupByNamespace' | 'exportPerNamespace' | 'skipKeys' | 'skipPaths'
+>;
+
+export interface TranslatePOOptions<L extends string = string> extends FileTranslateOptions<L> {
+  /** Contents of a .po or .pot file */
+  content: string;
+  /** Flag machine-translated entries as fuzzy for review (default: false) */
+  markFuzzy?: boolean;
+}
+
+export interface TranslateXLIFFOptions<L extends string = string> extends FileTranslateOptions<L> {
+  /** Contents of an XLIFF 1.2 or 2.0 document */
+  content: string;
+}
+
+export interface TranslateAndroidStringsOptions<L extends string = string> extends FileTranslateOptions<L> {
+  /** Contents of an Android res/values/strings.xml file */
+  content: string;
+}
+
+export interface TranslateYAMLOptions<L extends string = string> extends FileTranslateOptions<L> {
+  /** Contents of a YAML locale file */
+  content: string;
+  /**
+   * Treat the single top-level key as a locale key (Rails style `en:`), replacing it
+   * with the target language in each output. By default this happens when that key
+   * matches sourceLanguage.
+   */
+  rootKey?: boolean;
+}
+
+export type AppleStringsFormat = 'strings' | 'stringsdict';
+
+export interface TranslateAppleStringsOptions<L extends string = string> extends FileTranslateOptions<L> {
+  /** Contents of a .strings or .stringsdict file */
+  content: string;
+  /** File format (default: detected from content; plist XML is treated as .stringsdict) */
+  format?: AppleStringsFormat;
+}
+
+export interface TranslateTextOptions<L extends string = string> {
   /** Text content to translate */
   content: string | string[];
   /** Source language code (e.g., 'en') */
   sourceLanguage: string;
   /** Target language codes (e.g., ['es', 'fr', 'de']) */
-  targetLanguages: string[];
+  targetLanguages: L[];
   /** Preserve placeholders like {name}, {{count}}, etc. (default: true) */
   preservePlaceholders?: boolean;
   /** How to handle HTML in source text: none, strip, decode, preserve (default: 'none') */
@@ -90,15 +465,70 @@ export interface FallbackInfo {
   used: boolean;
   /** Languages that fell back to source */
   languagesFallbackToSource: string[];
-  /** Regional fallbacks applied (e.g., { 'pt-BR': 'pt' }) */
+  /** Languages filled from another language's translation (e.g., { 'pt-BR': 'pt', 'es-MX': 'es-419' }) */
   regionalFallbacks: Record<string, string>;
   /** Keys that used fallback values, by language */
   keysFallback: Record<string, string[]>;
+  /** Language each fallback key was taken from, by language (the source language for source content) */
+  keysFallbackFrom?: Record<string, Record<string, string>>;
 }
 
+/**
+ * Raw API response shape: languages and metadata side by side.
+ *
+ * @deprecated Use `TranslateJSONResult` / `TextTranslationResult`; the raw shape
+ * remains available through their `legacy` accessor.
+ */
 export interface TranslationResult {
   /** Translations keyed by language code */
-  [languageCode: string]: Record<string, unknown> | TranslationPair[] | TranslationWarning[] | NamespaceInfo | FallbackInfo | SkippedInfo | ContextEnhancedInfo | undefined;
+  [languageCode: string]: Record<string, unknown> | TranslationPair[] | TranslationWarning[] | NamespaceInfo | FallbackInfo | SkippedInfo | ContextEnhancedInfo | CacheInfo | TranslationEstimate | Shipi18nError | undefined;
+}
+
+/** Metadata shared by all translation results */
+export interface TranslationMetadata {
+  /** Warnings raised during translation (e.g. legal content) */
+  warnings?: TranslationWarning[];
+  /** Fallbacks applied to missing languages or keys */
+  fallbackInfo?: FallbackInfo;
+  /** Keys excluded from translation via skipKeys / skipPaths */
+  skipped?: SkippedInfo;
+  /** Keys translated with context annotations */
+  contextEnhanced?: ContextEnhancedInfo;
+  /** Local cache hit/miss counts (when a cache is configured) */
+  cache?: CacheInfo;
+  /** The API error the result fell back from (with onError: 'fallback') */
+  error?: Shipi18nError;
+  /** Raw API response as returned before typed results, with languages as top-level keys */
+  readonly legacy: TranslationResult;
+}
+
+/** Result of translateJSON: translations keep the structure of the source content */
+export interface TranslateJSONResult<
+  T = Record<string, unknown>,
+  L extends string = string,
+> extends TranslationMetadata {
+  /** Translated content keyed by target language; a language the API returned nothing for is absent */
+  translations: Partial<Record<L, T>>;
+  /** Detected or assigned namespaces */
+  namespaceInfo?: NamespaceInfo;
+  /** Translations split per namespace (with exportPerNamespace), e.g. { common: { es: {...} } } */
+  namespaceFiles?: Record<string, Partial<Record<L, Record<string, unknown>>>>;
+  /** Suggested file names per namespace (with exportPerNamespace) */
+  namespaceFileNames?: Array<{ namespace: string; files: string[] }>;
+  /** What the request would send (with dryRun; translations are empty) */
+  estimate?: TranslationEstimate;
+}
+
+/** Result of translateText: one original/translated pair per input string */
+export interface TextTranslationResult<L extends string = string> extends TranslationMetadata {
+  /** Translated pairs keyed by target language; a language the API returned nothing for is absent */
+  translations: Partial<Record<L, TranslationPair[]>>;
+}
+
+/** Result of a file-format method: one serialized file per target language */
+export interface FileTranslationResult<L extends string = string> extends TranslationMetadata {
+  /** Serialized file contents keyed by target language; a language the API returned nothing for is absent */
+  translations: Partial<Record<L, string>>;
 }
 
 export interface TranslationPair {
@@ -112,6 +542,14 @@ export interface TranslationWarning {
   details?: unknown;
 }
 
+/** Details of a `placeholder_mismatch` warning */
+export interface PlaceholderMismatchDetails {
+  key: string;
+  language: string;
+  missing: string[];
+  extra: string[];
+}
+
 export interface NamespaceInfo {
   detected: boolean;
   count?: number;
@@ -134,31 +572,35 @@ export interface ContextEnhancedInfo {
   keys: string[];
 }
 
-export class Shipi18nError extends Error {
-  public statusCode: number;
-  public code: string;
-
-  constructor(message: string, statusCode: number, code: string = 'API_ERROR') {
-    super(message);
-    this.name = 'Shipi18nError';
-    this.statusCode = statusCode;
-    this.code = code;
-  }
-}
-
 export class Shipi18n {
   private apiKey: string;
   private baseUrl: string;
   private timeout: number;
+  private retry?: RetryOptions;
+  private cache?: TranslationCache;
+  private fetch: FetchLike;
+  private middleware: Middleware[];
+  private languageValidation: boolean;
+  private pseudoLocalization?: PseudoLocalizeOptions;
+  /** Supported languages, fetched once and cached */
+  readonly languages: LanguageCatalog;
 
   constructor(config: Shipi18nConfig) {
-    if (!config.apiKey) {
+    if (!config.apiKey && !config.pseudoLocalization) {
       throw new Shipi18nError('API key is required', 400, 'MISSING_API_KEY');
     }
 
-    this.apiKey = config.apiKey;
+    this.apiKey = config.apiKey || '';
     this.baseUrl = config.baseUrl || 'https://ydjkwckq3f.execute-api.us-east-1.amazonaws.com';
     this.timeout = config.timeout || 30000;
+    this.retry = config.retry;
+    this.cache = config.cache;
+    // The global fetch is looked up per request, so it can be replaced after construction
+    this.fetch = config.fetch || ((url, init) => fetch(url, init));
+    this.middleware = config.middleware || [];
+    this.languageValidation = config.languageValidation ?? false;
+    this.pseudoLocalization = config.pseudoLocalization === true ? {} : config.pseudoLocalization || undefined;
+    this.languages = new LanguageCatalog((requestOptions) => this.getLanguages(requestOptions), config.languageCatalog);
   }
 
   /**
@@ -176,7 +618,10 @@ export class Shipi18n {
    * });
    * ```
    */
-  async translateJSON(options: TranslateJSONOptions): Promise<TranslationResult> {
+  async translateJSON<T extends Record<string, unknown> = Record<string, unknown>, L extends string = string>(
+    options: TranslateJSONOptions<T, L>,
+    requestOptions: RequestOptions = {}
+  ): Promise<TranslateJSONResult<T, L>> {
     const {
       content,
       sourceLanguage,
@@ -190,26 +635,43 @@ export class Shipi18n {
       fallback = {},
       skipKeys = [],
       skipPaths = [],
+      skipValues = [],
       contextAnnotations = {},
+      batching = {},
+      placeholderValidation = 'warn',
+      pluralValidation = 'warn',
+      dryRun = false,
+      onError = 'throw',
     } = options;
 
-    const {
-      fallbackToSource = true,
-      regionalFallback = true,
-      fallbackLanguage,
-    } = fallback;
+    const pseudoTargets = targetLanguages.filter((lang) => this.pseudoLocalization || isPseudoLocale(lang));
+    if (pseudoTargets.length > 0) {
+      return this.translateJSONWithPseudoLocales(options, pseudoTargets, requestOptions);
+    }
+
+    if (dryRun) {
+      return createJSONResult<T, L>({ estimate: estimateJSON(options) }, targetLanguages);
+    }
+
+    if (this.languageValidation) {
+      await this.languages.assertSupported(targetLanguages, requestOptions);
+    }
 
     const text = typeof content === 'string' ? content : JSON.stringify(content, null, 2);
     const sourceContent = typeof content === 'string' ? JSON.parse(content) : content;
 
-    // Process regional fallbacks - separate base languages from regional variants
-    const { processedTargets, regionalMap } = this.processRegionalLanguages(targetLanguages, regionalFallback);
+    // Targets are sent in canonical BCP 47 spelling and returned in the caller's spelling
+    const languageTags = mapLanguageTags(targetLanguages);
+    const targets = languageTags.tags;
+
+    // Regional base languages and fallback chain languages are requested along with the targets
+    const fallbackPlan = planFallbacks(targets, sourceLanguage, fallback);
+    const { requestLanguages } = fallbackPlan;
 
-    const result = await this.request<TranslationResult>('/api/translate', {
+    const payload = {
       inputMethod: 'text',
-      text,
-      sourceLanguage,
-      targetLanguages: JSON.stringify(processedTargets),
+      sourceLanguage: canonicalizeLanguageTag(sourceLanguage),
+      targetLanguages: JSON.stringify(requestLanguages),
       outputFormat: 'json',
       preservePlaceholders: String(preservePlaceholders),
       enablePluralization: enablePluralization ? 'true' : 'false',
@@ -219,22 +681,691 @@ export class Shipi18n {
       exportPerNamespace,
       skipKeys,
       skipPaths,
-      contextAnnotations,
+    };
+
+    // The cache works on plain key paths, so it is bypassed when the output is re-shaped by namespace
+    const cache = namespace || exportPerNamespace ? undefined : this.cache;
+    // Cacheable strings by id (their key path segments as JSON, so keys containing dots stay single keys)
+    const cacheableStrings: Record<string, string> = {};
+    const cacheablePaths: Record<string, string[]> = {};
+    const cacheKeyFor = (id: string, lang: string) =>
+      createCacheKey({
+        text: cacheableStrings[id],
+        sourceLanguage,
+        targetLanguage: lang,
+        htmlHandling,
+        preservePlaceholders,
+        context: contextAnnotations[cacheablePaths[id].join('.')],
+      });
+
+    // Skipped values are stripped here and re-inserted below, so they are never uploaded
+    const { content: unskippedContent, skipped: skippedValues } = splitSkippedContent(sourceContent, {
+      skipKeys,
+      skipPaths,
+      skipValues,
     });
+    const skippedPaths = skippedValues.map(([segments]) => segments.join('.'));
+
+    // Languages missing the same keys share a request; without a cache that is one request for all
+    let requests = [{ languages: requestLanguages, content: unskippedContent }];
+    let cacheLookup: CacheLookup | undefined;
+
+    if (cache) {
+      for (const [segments, value] of flattenSegments(unskippedContent)) {
+        if (typeof value === 'string' && value !== '') {
+          const id = JSON.stringify(segments);
+          cacheableStrings[id] = value;
+          cacheablePaths[id] = segments;
+        }
+      }
 
-    // Apply fallback logic
-    return this.applyFallbacks(
-      result,
-      sourceContent,
-      targetLanguages,
-      sourceLanguage,
-      fallbackToSource,
-      regionalFallback,
-      fallbackLanguage,
-      regionalMap
+      cacheLookup = await lookupCache(cache, cacheableStrings, requestLanguages, cacheKeyFor);
+
+      requests = cacheLookup.groups.map(({ languages, ids }) => {
+        const servedIds = Object.keys(cacheableStrings).filter((id) => !ids.includes(id));
+        if (servedIds.length === 0) {
+          return { languages, content: unskippedContent };
+        }
+
+        const groupContent = cloneJSON(unskippedContent);
+        servedIds.forEach((id) => deleteSegments(groupContent, cacheablePaths[id]));
+        return { languages, content: groupContent };
+      });
+    }
+
+    let result: TranslationResult;
+    let requestError: Shipi18nError | undefined;
+    // Content left without strings to translate (numbers, booleans, ...) is not worth a request
+    const pendingRequests = requests.filter(({ content }) => containsText(content));
+    const nothingToSend = pendingRequests.length === 0;
+
+    if ((cacheLookup || skippedPaths.length > 0) && nothingToSend) {
+      result = {};
+    } else {
+      const sent = nothingToSend ? requests : pendingRequests;
+      const results: TranslationResult[] = [];
+
+      try {
+        for (const [index, { languages, content: requestContent }] of sent.entries()) {
+          results.push(await this.requestJSON(
+            requestContent,
+            requestContent === sourceContent ? text : JSON.stringify(requestContent, null, 2),
+            { ...payload, targetLanguages: JSON.stringify(languages) },
+            contextAnnotations,
+            batching,
+            groupByNamespace !== 'false',
+            sent.length > 1 ? this.withIdempotencySuffix(requestOptions, `lang${index + 1}`) : requestOptions
+          ));
+        }
+      } catch (error) {
+        // Cancellation by the caller is never turned into fallback content
+        if (onError !== 'fallback' || !(error instanceof Shipi18nError) || error.code === 'ABORTED') {
+          throw error;
+        }
+        requestError = error;
+      }
+
+      result = results.length === 1 ? results[0] : mergeTranslationResults(results);
+    }
+
+    // Languages whose content was not sent keep its untranslatable values as they are
+    if (cacheLookup || skippedPaths.length > 0) {
+      const unsentRequests = requests.filter((request) => !pendingRequests.includes(request));
+      for (const { languages, content: unsentContent } of unsentRequests) {
+        if (flattenSegments(unsentContent).length > 0) {
+          languages.forEach((lang) => (result[lang] = cloneJSON(unsentContent)));
+        }
+      }
+    }
+
+    // Fresh API translations of cacheable keys, stored once they have passed validation
+    const freshTranslations: Record<string, Record<string, string>> = {};
+
+    if (cacheLookup) {
+      const lookup = cacheLookup;
+      const skipped = new Set((result.skipped as SkippedInfo | undefined)?.keys || []);
+
+      for (const { languages, ids } of lookup.groups) {
+        for (const lang of languages) {
+          freshTranslations[lang] = {};
+          for (const id of ids.filter((id) => !skipped.has(cacheablePaths[id].join('.')))) {
+            const translation = (result[lang] as Record<string, unknown> | undefined) || {};
+            const translated = getSegments(translation, cacheablePaths[id]);
+            if (typeof translated === 'string' && translated !== '') {
+              freshTranslations[lang][id] = translated;
+            }
+          }
+        }
+      }
+
+      for (const lang of requestLanguages) {
+        const hits = Object.keys(lookup.hits[lang]);
+        if (hits.length === 0) {
+          continue;
+        }
+
+        const translation = (result[lang] as Record<string, unknown> | undefined) || {};
+        hits.forEach((id) => setSegments(translation, cacheablePaths[id], lookup.hits[lang][id]));
+        result[lang] = translation;
+      }
+
+      result.cache = lookup.info;
+    }
+
+    if (skippedPaths.length > 0) {
+      this.restoreSkipped(result, sourceContent, skippedValues, requestLanguages, nothingToSend);
+    }
+
+    if (requestError) {
+      // Every target is filled, so the chains end with the source even when fallbackToSource is off
+      const errorPlan = planFallbacks(targets, sourceLanguage, { ...fallback, fallbackToSource: true });
+      applyJSONFallbacks(result, sourceContent, sourceLanguage, targets, errorPlan);
+
+      result.error = requestError;
+      result.warnings = [
+        ...((result.warnings as TranslationWarning[] | undefined) || []),
+        {
+          type: 'api_error',
+          message: `Translation failed, using fallback content: ${requestError.message}`,
+          details: { code: requestError.code, statusCode: requestError.statusCode },
+        },
+      ];
+    } else {
+      applyJSONFallbacks(result, sourceContent, sourceLanguage, targets, fallbackPlan);
+    }
+
+    if (enablePluralization && pluralValidation !== 'off') {
+      this.validatePluralGroups(result, sourceContent, targets, pluralValidation === 'fill');
+    }
+
+    if (placeholderValidation !== 'off') {
+      this.validatePlaceholders(result, sourceContent, targets, placeholderValidation === 'fallback');
+    }
+
+    if (cache) {
+      // Translations that broke placeholders are not cached, so they are requested again next time
+      if (placeholderValidation !== 'off') {
+        for (const translations of Object.values(freshTranslations)) {
+          for (const [id, translated] of Object.entries(translations)) {
+            if (comparePlaceholders(cacheableStrings[id], translated)) {
+              delete translations[id];
+            }
+          }
+        }
+      }
+      await storeInCache(cache, freshTranslations, cacheKeyFor);
+    }
+
+    restoreLanguageTags(result, languageTags);
+    return createJSONResult<T, L>(result, targetLanguages);
+  }
+
+  /**
+   * Start a translateJSON job that reports progress as each language (or batch) completes
+   *
+   * @example
+   * ```typescript
+   * const job = shipi18n.createJob({
+   *   content: en,
+   *   sourceLanguage: 'en',
+   *   targetLanguages: ['es', 'fr', 'de', 'ja'],
+   * });
+   *
+   * job.on('progress', ({ completed, total }) => console.log(`${completed}/${total}`));
+   *
+   * for await (const { language, translation } of job) {
+   *   await save(language, translation);
+   * }
+   * ```
+   */
+  createJob<T extends Record<string, unknown> = Record<string, unknown>, L extends string = string>(
+    options: TranslationJobOptions<T, L>,
+    requestOptions: RequestOptions = {}
+  ): TranslationJob<T, L> {
+    return new TranslationJob<T, L>(options, (jobOptions, unit) =>
+      this.translateJSON<T, L>(jobOptions, this.withIdempotencySuffix(requestOptions, unit))
     );
   }
 
+  /**
+   * Translate only the keys that changed since a previous run
+   *
+   * Added and changed source keys are sent through translateJSON, along with any
+   * keys a language is still missing (e.g. a newly added target language). Keys
+   * removed from the source are pruned from every output.
+   *
+   * @example
+   * ```typescript
+   * const { translations, changes } = await shipi18n.translateJSONIncremental({
+   *   previousContent: lastEn,
+   *   previousTranslations: { es: lastEs, fr: lastFr },
+   *   content: currentEn,
+   *   sourceLanguage: 'en',
+   *   targetLanguages: ['es', 'fr'],
+   * });
+   * ```
+   */
+  async translateJSONIncremental(
+    options: TranslateJSONIncrementalOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<IncrementalTranslationResult> {
+    const { previousContent, previousTranslations, ...translateOptions } = options;
+    const { content, targetLanguages } = translateOptions;
+
+    const previousSource = typeof previousContent === 'string' ? JSON.parse(previousContent) : previousContent;
+    const sourceContent = typeof content === 'string' ? JSON.parse(content) : content;
+
+    const changes = diffSourceContent(previousSource, sourceContent);
+    const sourceFlat = flattenObject(sourceContent);
+    const translations: Record<string, Record<string, unknown>> = {};
+    const translatedKeys: Record<string, string[]> = {};
+    const deltaKeys = new Set<string>();
+
+    for (const lang of targetLanguages) {
+      const output = cloneJSON(previousTranslations[lang] || {});
+
+      for (const key of changes.removed) {
+        deleteNestedValue(output, key);
+      }
+
+      // Same notion of "missing" as findMissingKeys: undefined, null or empty string
+      const missing = changes.unchanged.filter((key) => {
+        const value = getNestedValue(output, key);
+        return value === undefined || value === null || value === '';
+      });
+
+      translations[lang] = output;
+      translatedKeys[lang] = [...changes.added, ...changes.changed, ...missing];
+      translatedKeys[lang].forEach((key) => deltaKeys.add(key));
+    }
+
+    if (deltaKeys.size === 0) {
+      return { translations, changes, translatedKeys };
+    }
+
+    const deltaContent = unflattenObject(
+      Object.fromEntries(Object.keys(sourceFlat).filter((key) => deltaKeys.has(key)).map((key) => [key, sourceFlat[key]]))
+    );
+
+    const delta = await this.translateJSON({ ...translateOptions, content: deltaContent }, requestOptions);
+
+    for (const lang of targetLanguages) {
+      // Fallback content is left out, so those keys are missing and requested again next run
+      const translated = omitFallbackContent(delta.translations[lang], delta.fallbackInfo, lang) || {};
+
+      for (const key of translatedKeys[lang]) {
+        const value = getNestedValue(translated, key);
+        if (value !== undefined) {
+          setNestedValue(translations[lang], key, value);
+        } else {
+          deleteNestedValue(translations[lang], key);
+        }
+      }
+    }
+
+    return { translations, changes, translatedKeys, delta };
+  }
+
+  /**
+   * Translate a locales directory in place
+   *
+   * Reads the source language files, sends only the keys a target file is missing
+   * (or every key with `overwrite`) in a single translateJSON call with one namespace
+   * per file, and writes the target files that changed. Existing translations are
+   * kept, so human edits survive repeated syncs. Context annotation keys are
+   * prefixed with the namespace (e.g. 'common.close') for namespaced layouts.
+   *
+   * @example
+   * ```typescript
+   * const { files } = await shipi18n.syncLocales({
+   *   dir: 'public/locales',
+   *   layout: '{lng}/{ns}.json',
+   *   sourceLanguage: 'en',
+   *   targetLanguages: ['es', 'fr'],
+   * });
+   *
+   * files.filter((file) => file.status !== 'unchanged').forEach((file) => console.log(file.file));
+   * ```
+   */
+  async syncLocales<L extends string = string>(
+    options: SyncLocalesOptions<L>,
+    requestOptions: RequestOptions = {}
+  ): Promise<SyncLocalesResult<L>> {
+    const {
+      dir,
+      layout = '{lng}/{ns}.json',
+      overwrite = false,
+      prune = false,
+      indent = 2,
+      ...translateOptions
+    } = options;
+    const { sourceLanguage, targetLanguages } = options;
+    const namespaced = layout !== '{lng}.json';
+
+    const sourceFiles = await listLocaleFiles(dir, layout, sourceLanguage);
+    const sources: Record<string, unknown>[] = [];
+    const targets: Array<Partial<Record<L, Record<string, unknown>>>> = [];
+    const content: Record<string, unknown> = {};
+    const languages = new Set<L>();
+
+    for (const file of sourceFiles) {
+      const source = (await readLocaleFile(file.filePath)) || {};
+      const existing: Partial<Record<L, Record<string, unknown>>> = {};
+      const prefix = namespaced ? `${file.namespace}.` : '';
+      sources.push(source);
+      targets.push(existing);
+
+      for (const lang of targetLanguages) {
+        const target = await readLocaleFile(getLocaleFilePath(dir, layout, lang, file.namespace));
+        const targetFlat = target ? flattenObject(target) : {};
+        existing[lang] = target;
+
+        for (const [key, value] of Object.entries(flattenObject(source))) {
+          if (overwrite || !(key in targetFlat)) {
+            setNestedValue(content, prefix + key, value);
+            languages.add(lang);
+          }
+        }
+      }
+    }
+
+    let translation: TranslateJSONResult<Record<string, unknown>, L> | undefined;
+    if (languages.size > 0) {
+      translation = await this.translateJSON<Record<string, unknown>, L>({
+        ...translateOptions,
+        content,
+        targetLanguages: targetLanguages.filter((lang) => languages.has(lang)),
+        groupByNamespace: namespaced ? 'true' : 'false',
+        exportPerNamespace: namespaced,
+      }, requestOptions);
+    }
+
+    const files: SyncFileReport[] = [];
+    for (const [index, file] of sourceFiles.entries()) {
+      for (const lang of targetLanguages) {
+        let translated: Record<string, unknown> | undefined;
+        if (!namespaced) {
+          translated = translation?.translations[lang];
+        } else if (translation) {
+          const namespaceFile = translation.namespaceFiles?.[file.namespace!]?.[lang];
+          const fromTranslations = translation.translations[lang]?.[file.namespace!];
+          translated = namespaceFile ?? (isPlainObject(fromTranslations) ? fromTranslations : undefined);
+        }
+        translated = omitFallbackContent(
+          translated,
+          translation?.fallbackInfo,
+          lang,
+          namespaced ? `${file.namespace}.` : ''
+        );
+
+        const merged = mergeLocaleContent(sources[index], targets[index][lang], translated, { overwrite, prune });
+        const status = await writeLocaleFile(
+          getLocaleFilePath(dir, layout, lang, file.namespace),
+          merged.content,
+          indent
+        );
+
+        files.push({
+          file: getLocaleFileName(layout, lang, file.namespace),
+          language: lang,
+          namespace: file.namespace,
+          status,
+          translatedKeys: merged.translatedKeys,
+          preservedKeys: merged.preservedKeys,
+          removedKeys: merged.removedKeys,
+        });
+      }
+    }
+
+    return { files, translation };
+  }
+
+  /**
+   * Translate a gettext .po/.pot file, producing one .po file per target language
+   *
+   * msgctxt and extracted comments are sent as context annotations, plural entries
+   * are expanded to each language's plural forms with a matching Plural-Forms header,
+   * and comments, references and flags are preserved.
+   *
+   * @example
+   * ```typescript
+   * const result = await shipi18n.translatePO({
+   *   content: fs.readFileSync('messages.pot', 'utf8'),
+   *   sourceLanguage: 'en',
+   *   targetLanguages: ['de', 'ru'],
+   * });
+   *
+   * fs.writeFileSync('de.po', result.translations.de);
+   * ```
+   */
+  async translatePO<L extends string = string>(
+    options: TranslatePOOptions<L>,
+    requestOptions: RequestOptions = {}
+  ): Promise<FileTranslationResult<L>> {
+    const { content, markFuzzy = false, ...translateOptions } = options;
+
+    const file = parsePo(content);
+    const { messages, contextAnnotations } = extractPoMessages(file);
+
+    const result = await this.translateJSON<Record<string, unknown>, L>({
+      ...translateOptions,
+      content: messages,
+      contextAnnotations,
+      groupByNamespace: 'false',
+    }, requestOptions);
+
+    const files = {} as Record<L, string>;
+    for (const lang of options.targetLanguages) {
+      const translated = fillPoTranslations(file, result.translations[lang] || {}, lang, { markFuzzy });
+      files[lang] = serializePo(translated);
+    }
+
+    return createFileResult(result, files);
+  }
+
+  /**
+   * Translate an XLIFF 1.2 or 2.0 document, producing one target-filled document per language
+   *
+   * Units are sent under synthetic keys (so any id is safe), notes become context
+   * annotations, and units marked translate="no" are skipped. Inline tags (<g>, <x/>,
+   * <ph>, <pc>, ...) are protected like placeholders. Translated targets get state
+   * "translated"; targets that fell back to the source get "needs-translation" (1.2)
+   * or "initial" (2.0).
+   *
+   * @example
+   * ```typescript
+   * const result = await shipi18n.translateXLIFF({
+   *   content: fs.readFileSync('messages.xlf', 'utf8'),
+   *   sourceLanguage: 'en',
+   *   targetLanguages: ['fr'],
+   * });
+   *
+   * fs.writeFileSync('messages.fr.xlf', result.translations.fr);
+   * ```
+   */
+  async translateXLIFF<L extends string = string>(
+    options: TranslateXLIFFOptions<L>,
+    requestOptions: RequestOptions = {}
+  ): Promise<FileTranslationResult<L>> {
+    const { content, ...translateOptions } = options;
+
+    const document = parseXliff(content);
+    const messages: Record<string, string> = {};
+    const contextAnnotations: Record<string, string> = {};
+    const skipKeys: string[] = [];
+    const restorers: Record<string, (translated: string) => string> = {};
+
+    // Units get synthetic `unitN` keys: ids may contain dots or prefix one another (home, home.title)
+    document.units.forEach((unit, index) => {
+      const key = `unit${index}`;
+      const { text, restore } = protectInlineTags(unit.source);
+      messages[key] = text;
+      restorers[key] = restore;
+
+      if (unit.notes.length > 0) {
+        contextAnnotations[key] = unit.notes.join(' - ');
+      }
+      if (!unit.translate) {
+        skipKeys.push(key);
+      }
+    });
+
+    const result = await this.translateJSON<Record<string, unknown>, L>({
+      ...translateOptions,
+      content: messages,
+      contextAnnotations,
+      skipKeys,
+      groupByNamespace: 'false',
+    }, requestOptions);
+
+    const files = {} as Record<L, string>;
+    for (const lang of options.targetLanguages) {
+      const translation = result.translations[lang] || {};
+      const fallbackKeys = result.fallbackInfo?.keysFallback[lang] || [];
+      const languageFellBack = result.fallbackInfo?.languagesFallbackToSource.includes(lang) ?? false;
+      const targets: Record<string, XliffTarget> = {};
+
+      document.units.forEach((unit, index) => {
+        const key = `unit${index}`;
+        const translated = translation[key];
+        if (typeof translated !== 'string') {
+          return;
+        }
+
+        let state = 'translated';
+        if (!unit.translate) {
+          state = 'final';
+        } else if (languageFellBack || fallbackKeys.includes(key)) {
+          state = document.version === '1.2' ? 'needs-translation' : 'initial';
+        }
+
+        targets[unit.key] = { text: restorers[key](translated), state };
+      });
+
+      files[lang] = serializeXliff(document, lang, targets);
+    }
+
+    return createFileResult(result, files);
+  }
+
+  /**
+   * Translate a YAML locale file (Rails, Symfony, ...), producing one YAML file per target language
+   *
+   * A root locale key (`en:`) is stripped before translation and replaced with the
+   * target language. Values are rewritten in place, so comments, key order, anchors
+   * and block scalar styles are kept; aliases and merge keys are left as-is and pick
+   * up the translated anchors. Comments above a key are sent as context.
+   *
+   * @example
+   * ```typescript
+   * const result = await shipi18n.translateYAML({
+   *   content: fs.readFileSync('config/locales/en.yml', 'utf8'),
+   *   sourceLanguage: 'en',
+   *   targetLanguages: ['de'],
+   * });
+   *
+   * fs.writeFileSync('config/locales/de.yml', result.translations.de);
+   * ```
+   */
+  async translateYAML<L extends string = string>(
+    options: TranslateYAMLOptions<L>,
+    requestOptions: RequestOptions = {}
+  ): Promise<FileTranslationResult<L>> {
+    const { content, rootKey, ...translateOptions } = options;
+
+    const document = parseYaml(content);
+    const normalize = (code: string) => code.replace(/_/g, '-').toLowerCase();
+    const stripRoot =
+      document.rootKey !== undefined &&
+      (rootKey ?? normalize(document.rootKey) === normalize(options.sourceLanguage));
+    const stripSegments = stripRoot ? 1 : 0;
+
+    const { messages, contextAnnotations } = extractYamlMessages(document, stripSegments);
+
+    const result = await this.translateJSON<Record<string, unknown>, L>({
+      ...translateOptions,
+      content: messages,
+      contextAnnotations,
+      groupByNamespace: 'false',
+    }, requestOptions);
+
+    const files = {} as Record<L, string>;
+    for (const lang of options.targetLanguages) {
+      files[lang] = serializeYaml(document, result.translations[lang] || {}, {
+        stripSegments,
+        rootKey: stripRoot ? lang : undefined,
+      });
+    }
+
+    return createFileResult(result, files);
+  }
+
+  /**
+   * Translate an Android strings.xml, producing one strings.xml per target language
+   *
+   * Handles <string>, <string-array> and <plurals> resources. The comment above a
+   * resource is sent as context, translatable="false" resources are left out of the
+   * request and of the target files, inline markup (<b>, <xliff:g>, ...) is protected,
+   * and plurals are written with each language's CLDR quantities.
+   *
+   * @example
+   * ```typescript
+   * const result = await shipi18n.translateAndroidStrings({
+   *   content: fs.readFileSync('res/values/strings.xml', 'utf8'),
+   *   sourceLanguage: 'en',
+   *   targetLanguages: ['es'],
+   * });
+   *
+   * fs.writeFileSync('res/values-es/strings.xml', result.translations.es);
+   * ```
+   */
+  async translateAndroidStrings<L extends string = string>(
+    options: TranslateAndroidStringsOptions<L>,
+    requestOptions: RequestOptions = {}
+  ): Promise<FileTranslationResult<L>> {
+    const { content, ...translateOptions } = options;
+
+    const resources = parseAndroidStrings(content);
+    const { messages, contextAnnotations, restorers } = extractAndroidMessages(resources);
+
+    const result = await this.translateJSON<Record<string, unknown>, L>({
+      ...translateOptions,
+      content: messages,
+      contextAnnotations,
+      groupByNamespace: 'false',
+    }, requestOptions);
+
+    const files = {} as Record<L, string>;
+    for (const lang of options.targetLanguages) {
+      const translations = collectAndroidTranslations(resources, result.translations[lang] || {}, restorers);
+      files[lang] = serializeAndroidStrings(content, lang, translations);
+    }
+
+    return createFileResult(result, files);
+  }
+
+  /**
+   * Translate an Apple .strings or .stringsdict file, producing one file per target language
+   *
+   * .strings comments are sent as context and values are rewritten in place. In
+   * .stringsdict files the format key and the plural variants are translated, and
+   * plural variants are written with each language's CLDR categories.
+   *
+   * @example
+   * ```typescript
+   * const result = await shipi18n.translateAppleStrings({
+   *   content: fs.readFileSync('en.lproj/Localizable.strings', 'utf8'),
+   *   sourceLanguage: 'en',
+   *   targetLanguages: ['fr'],
+   * });
+   *
+   * fs.writeFileSync('fr.lproj/Localizable.strings', result.translations.fr);
+   * ```
+   */
+  async translateAppleStrings<L extends string = string>(
+    options: TranslateAppleStringsOptions<L>,
+    requestOptions: RequestOptions = {}
+  ): Promise<FileTranslationResult<L>> {
+    const { content, format, ...translateOptions } = options;
+    const files = {} as Record<L, string>;
+
+    if ((format || (/^\s*(<\?xml|<!DOCTYPE|<plist)/.test(content) ? 'stringsdict' : 'strings')) === 'stringsdict') {
+      const entries = parseStringsdict(content);
+      const { messages, contextAnnotations } = extractStringsdictMessages(entries);
+
+      const result = await this.translateJSON<Record<string, unknown>, L>({
+        ...translateOptions,
+        content: messages,
+        contextAnnotations,
+        groupByNamespace: 'false',
+      }, requestOptions);
+
+      for (const lang of options.targetLanguages) {
+        const translations = collectStringsdictTranslations(entries, result.translations[lang] || {});
+        files[lang] = serializeStringsdict(content, lang, translations);
+      }
+
+      return createFileResult(result, files);
+    }
+
+    const entries = parseAppleStrings(content);
+    const { messages, contextAnnotations } = extractAppleStringsMessages(entries);
+
+    const result = await this.translateJSON<Record<string, unknown>, L>({
+      ...translateOptions,
+      content: messages,
+      contextAnnotations,
+      groupByNamespace: 'false',
+    }, requestOptions);
+
+    for (const lang of options.targetLanguages) {
+      const translations = collectAppleStringsTranslations(entries, result.translations[lang] || {});
+      files[lang] = serializeAppleStrings(content, translations);
+    }
+
+    return createFileResult(result, files);
+  }
+
   /**
    * Translate plain text to multiple languages
    *
@@ -247,26 +1378,103 @@ export class Shipi18n {
    * });
    * ```
    */
-  async translateText(options: TranslateTextOptions): Promise<TranslationResult> {
+  async translateText<L extends string = string>(
+    options: TranslateTextOptions<L>,
+    requestOptions: RequestOptions = {}
+  ): Promise<TextTranslationResult<L>> {
     const {
       content,
       sourceLanguage,
       targetLanguages,
       preservePlaceholders = true,
       htmlHandling = 'none',
+      fallback,
     } = options;
 
-    const text = Array.isArray(content) ? content.join('\n') : content;
+    const pseudoTargets = targetLanguages.filter((lang) => this.pseudoLocalization || isPseudoLocale(lang));
+    if (pseudoTargets.length > 0) {
+      return this.translateTextWithPseudoLocales(options, pseudoTargets, requestOptions);
+    }
+
+    if (this.languageValidation) {
+      await this.languages.assertSupported(targetLanguages, requestOptions);
+    }
 
-    return this.request('/api/translate', {
+    const languageTags = mapLanguageTags(targetLanguages);
+    const targets = languageTags.tags;
+    const fallbackPlan = planFallbacks(targets, sourceLanguage, fallback);
+    const { requestLanguages } = fallbackPlan;
+
+    const text = Array.isArray(content) ? content.join('\n') : content;
+    const payload = {
       inputMethod: 'text',
-      text,
-      sourceLanguage,
-      targetLanguages: JSON.stringify(targetLanguages),
+      sourceLanguage: canonicalizeLanguageTag(sourceLanguage),
+      targetLanguages: JSON.stringify(requestLanguages),
       outputFormat: 'text',
       preservePlaceholders: String(preservePlaceholders),
       htmlHandling,
-    });
+    };
+
+    const units = Array.isArray(content) ? content : [content];
+
+    // Multi-line strings are split by the API, so they cannot be matched back to a cache entry
+    if (!this.cache || units.some((unit) => unit.includes('\n'))) {
+      const result = await this.request('/api/translate', { text, ...payload }, 'POST', requestOptions);
+      applyTextFallbacks(result, text.split('\n'), sourceLanguage, targets, fallbackPlan);
+      restoreLanguageTags(result, languageTags);
+      return createTextResult(result, targetLanguages);
+    }
+
+    const cache = this.cache;
+    const cacheKeyFor = (unit: string, lang: string) =>
+      createCacheKey({ text: unit, sourceLanguage, targetLanguage: lang, htmlHandling, preservePlaceholders });
+
+    const lookup = await lookupCache(
+      cache,
+      Object.fromEntries(units.map((unit) => [unit, unit])),
+      requestLanguages,
+      cacheKeyFor
+    );
+
+    // Languages missing the same strings share a request
+    const missGroups = lookup.groups.filter(({ ids }) => ids.length > 0);
+    const results: TranslationResult[] = [];
+    for (const [index, { languages, ids }] of missGroups.entries()) {
+      results.push(await this.request(
+        '/api/translate',
+        { text: ids.join('\n'), ...payload, targetLanguages: JSON.stringify(languages) },
+        'POST',
+        missGroups.length > 1 ? this.withIdempotencySuffix(requestOptions, `lang${index + 1}`) : requestOptions
+      ));
+    }
+    const result: TranslationResult = results.length === 1 ? results[0] : mergeTranslationResults(results);
+
+    const freshTranslations: Record<string, Record<string, string>> = {};
+    for (const { languages, ids } of missGroups) {
+      for (const lang of languages) {
+        const pairs = (result[lang] as TranslationPair[] | undefined) || [];
+        freshTranslations[lang] = Object.fromEntries(
+          pairs.filter((pair) => ids.includes(pair.original)).map((pair) => [pair.original, pair.translated])
+        );
+      }
+    }
+
+    const translatedFor = (unit: string, lang: string) =>
+      lookup.hits[lang][unit] ??
+      ((result[lang] as TranslationPair[] | undefined) || []).find((pair) => pair.original === unit)?.translated;
+
+    await storeInCache(cache, freshTranslations, cacheKeyFor);
+
+    for (const lang of requestLanguages) {
+      result[lang] = units
+        .map((unit) => ({ original: unit, translated: translatedFor(unit, lang) }))
+        .filter((pair): pair is TranslationPair => pair.translated !== undefined);
+    }
+
+    applyTextFallbacks(result, units, sourceLanguage, targets, fallbackPlan);
+    restoreLanguageTags(result, languageTags);
+    result.cache = lookup.info;
+    return createTextResult(result, targetLanguages);
   }
 
   /**
@@ -284,52 +1492,133 @@ export class Shipi18n {
    * });
    * ```
    */
-  async translateI18next(options: TranslateJSONOptions): Promise<TranslationResult> {
+  async translateI18next<T extends Record<string, unknown> = Record<string, unknown>, L extends string = string>(
+    options: TranslateJSONOptions<T, L>,
+    requestOptions: RequestOptions = {}
+  ): Promise<TranslateJSONResult<T, L>> {
     return this.translateJSON({
       ...options,
       preservePlaceholders: true,
       enablePluralization: true,
       groupByNamespace: 'auto',
-    });
+    }, requestOptions);
+  }
+
+  /**
+   * Estimate the keys and characters a translateJSON call would send, without calling the API
+   *
+   * @example
+   * ```typescript
+   * const estimate = shipi18n.estimateJSON({
+   *   content: en,
+   *   sourceLanguage: 'en',
+   *   targetLanguages: ['es', 'pt-BR'],
+   *   skipPaths: ['legal.*'],
+   * });
+   * console.log(`${estimate.totalKeys} keys, ${estimate.characters.total} characters`);
+   * ```
+   */
+  estimateJSON<T extends Record<string, unknown> = Record<string, unknown>, L extends string = string>(
+    options: TranslateJSONOptions<T, L>
+  ): TranslationEstimate {
+    return estimateJSON(options);
   }
 
   /**
    * Get available languages supported by the API
    */
-  async getLanguages(): Promise<{ languages: Array<{ code: string; name: string }> }> {
-    return this.request<{ languages: Array<{ code: string; name: string }> }>('/api/languages', {}, 'GET');
+  async getLanguages(requestOptions: RequestOptions = {}): Promise<{ languages: Array<{ code: string; name: string }> }> {
+    return this.request<{ languages: Array<{ code: string; name: string }> }>('/api/languages', {}, 'GET', requestOptions);
   }
 
+  /**
+   * Check language tags against the languages the API supports (cached, see `languages`)
+   *
+   * @example
+   * ```typescript
+   * const [mx] = await shipi18n.validateLanguages(['es_MX']);
+   * // { tag: 'es_MX', canonical: 'es-MX', wellFormed: true, supported: false, fallback: 'es' }
+   * ```
+   */
+  async validateLanguages(tags: string[], requestOptions: RequestOptions = {}): Promise<LanguageTagValidation[]> {
+    return this.languages.validate(tags, requestOptions);
+  }
+
+  /**
+   * Send a request, retrying transient failures according to the configured retry policy
+   */
   private async request<T = TranslationResult>(
     endpoint: string,
     body: Record<string, unknown>,
-    method: 'GET' | 'POST' = 'POST'
+    method: 'GET' | 'POST' = 'POST',
+    requestOptions: RequestOptions = {}
+  ): Promise<T> {
+    const maxAttempts = this.retry ? this.retry.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.send<T>(endpoint, body, method, requestOptions, attempt);
+      } catch (error) {
+        const shipi18nError = error as Shipi18nError;
+
+        if (!this.retry || attempt >= maxAttempts || !isRetryableError(shipi18nError, this.retry)) {
+          throw shipi18nError;
+        }
+
+        const delay = getRetryDelay(attempt, shipi18nError, this.retry);
+        this.retry.onRetry?.({ attempt, maxAttempts, delay, error: shipi18nError });
+        // An abort during the delay is reported by the next send()
+        await sleep(delay, requestOptions.signal);
+      }
+    }
+  }
+
+  private async send<T>(
+    endpoint: string,
+    body: Record<string, unknown>,
+    method: 'GET' | 'POST',
+    requestOptions: RequestOptions,
+    attempt: number
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
+    const { signal, timeout = this.timeout, headers = {}, idempotencyKey } = requestOptions;
+
+    if (signal?.aborted) {
+      throw new Shipi18nError('Request aborted', 499, 'ABORTED');
+    }
 
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
-      const response = await fetch(url, {
+      const response = await runMiddleware(this.middleware, this.fetch, {
+        endpoint,
+        url,
         method,
         headers: {
           'Content-Type': 'application/json',
           'x-api-key': this.apiKey,
+          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+          ...headers,
         },
         body: method === 'POST' ? JSON.stringify(body) : undefined,
         signal: controller.signal,
+        attempt,
       });
 
       clearTimeout(timeoutId);
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Shipi18nError(
+        const error = new Shipi18nError(
           errorData.message || `HTTP ${response.status}: ${response.statusText}`,
           response.status,
           errorData.code || 'HTTP_ERROR'
         );
+        error.retryAfter = parseRetryAfter(response.headers?.get('retry-after'));
+        throw error;
       }
 
       return response.json();
@@ -342,204 +1631,293 @@ export class Shipi18n {
 
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
+          if (signal?.aborted) {
+            throw new Shipi18nError('Request aborted', 499, 'ABORTED');
+          }
           throw new Shipi18nError('Request timed out', 408, 'TIMEOUT');
         }
         throw new Shipi18nError(error.message, 500, 'NETWORK_ERROR');
       }
 
       throw new Shipi18nError('Unknown error occurred', 500, 'UNKNOWN_ERROR');
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
   /**
-   * Process regional language codes and create a mapping for fallbacks
-   * e.g., ['es', 'pt-BR', 'zh-TW'] -> { processedTargets: ['es', 'pt', 'zh'], regionalMap: { 'pt-BR': 'pt', 'zh-TW': 'zh' } }
+   * Give each request of a split call its own idempotency key
    */
-  private processRegionalLanguages(
-    targetLanguages: string[],
-    regionalFallback: boolean
-  ): { processedTargets: string[]; regionalMap: Record<string, string> } {
-    const regionalMap: Record<string, string> = {};
-    const processedTargets: string[] = [];
-    const baseLanguagesAdded = new Set<string>();
+  private withIdempotencySuffix(requestOptions: RequestOptions, suffix: string | number): RequestOptions {
+    return requestOptions.idempotencyKey
+      ? { ...requestOptions, idempotencyKey: `${requestOptions.idempotencyKey}:${suffix}` }
+      : requestOptions;
+  }
 
-    for (const lang of targetLanguages) {
-      if (lang.includes('-') && regionalFallback) {
-        const baseLang = lang.split('-')[0];
-        regionalMap[lang] = baseLang;
-
-        // Add base language if not already in the list
-        if (!baseLanguagesAdded.has(baseLang) && !targetLanguages.includes(baseLang)) {
-          processedTargets.push(baseLang);
-          baseLanguagesAdded.add(baseLang);
-        }
-      }
+  /**
+   * Send JSON content to the translate endpoint, split into batches when it exceeds the batch limits
+   */
+  private async requestJSON(
+    content: Record<string, unknown>,
+    text: string,
+    payload: Record<string, unknown>,
+    contextAnnotations: Record<string, string>,
+    batching: BatchOptions | false,
+    groupByNamespace: boolean,
+    requestOptions: RequestOptions
+  ): Promise<TranslationResult> {
+    const batches = batching === false
+      ? []
+      : createBatches(content, {
+          maxKeys: batching.maxKeys,
+          maxBytes: batching.maxBytes,
+          groupByNamespace,
+        });
+
+    if (batches.length <= 1) {
+      return this.request<TranslationResult>('/api/translate', {
+        ...payload,
+        text,
+        contextAnnotations,
+      }, 'POST', requestOptions);
+    }
+
+    const concurrency = (batching && batching.concurrency) || DEFAULT_BATCH_OPTIONS.concurrency;
+    const results = await mapWithConcurrency(batches, concurrency, (batch, index) =>
+      this.request<TranslationResult>('/api/translate', {
+        ...payload,
+        text: JSON.stringify(batch, null, 2),
+        contextAnnotations: this.pickContextAnnotations(contextAnnotations, batch),
+      }, 'POST', this.withIdempotencySuffix(requestOptions, index + 1))
+    );
+
+    return mergeTranslationResults(results);
+  }
 
-      // Always include the original language
-      if (!processedTargets.includes(lang)) {
-        processedTargets.push(lang);
+  /**
+   * Keep only the context annotations whose key paths appear in a batch
+   */
+  private pickContextAnnotations(
+    contextAnnotations: Record<string, string>,
+    batch: Record<string, unknown>
+  ): Record<string, string> {
+    const picked: Record<string, string> = {};
+
+    for (const key of Object.keys(contextAnnotations)) {
+      if (batch[key] !== undefined || getNestedValue(batch, key) !== undefined) {
+        picked[key] = contextAnnotations[key];
       }
     }
 
-    return { processedTargets, regionalMap };
+    return picked;
   }
 
   /**
-   * Apply fallback logic to translation results
+   * Re-insert skipped source values into every language (and namespace file) and
+   * report them in `skipped`, merged with any keys the API skipped itself
    */
-  private applyFallbacks(
+  private restoreSkipped(
     result: TranslationResult,
     sourceContent: Record<string, unknown>,
-    targetLanguages: string[],
-    sourceLanguage: string,
-    fallbackToSource: boolean,
-    regionalFallback: boolean,
-    fallbackLanguage: string | undefined,
-    regionalMap: Record<string, string>
-  ): TranslationResult {
-    const fallbackInfo: FallbackInfo = {
-      used: false,
-      languagesFallbackToSource: [],
-      regionalFallbacks: {},
-      keysFallback: {},
-    };
-
-    const effectiveFallbackLang = fallbackLanguage || sourceLanguage;
-
-    for (const lang of targetLanguages) {
+    skippedValues: SkippedValue[],
+    languages: string[],
+    nothingSent: boolean
+  ): void {
+    const namespaceFiles = result.namespaceFiles as unknown as
+      | Record<string, Record<string, Record<string, unknown>>>
+      | undefined;
+
+    for (const lang of languages) {
       const translation = result[lang] as Record<string, unknown> | undefined;
 
-      // Case 1: Entire language missing - try regional fallback first, then source
-      if (!translation || Object.keys(translation).length === 0) {
-        // Try regional fallback (e.g., pt-BR -> pt)
-        if (regionalFallback && regionalMap[lang]) {
-          const baseLang = regionalMap[lang];
-          const baseTranslation = result[baseLang] as Record<string, unknown> | undefined;
-
-          if (baseTranslation && Object.keys(baseTranslation).length > 0) {
-            result[lang] = { ...baseTranslation };
-            fallbackInfo.used = true;
-            fallbackInfo.regionalFallbacks[lang] = baseLang;
-            continue;
-          }
-        }
-
-        // Fall back to source language
-        if (fallbackToSource) {
-          result[lang] = { ...sourceContent };
-          fallbackInfo.used = true;
-          fallbackInfo.languagesFallbackToSource.push(lang);
-        }
-        continue;
+      // Languages the API didn't return are left to the fallback logic
+      if (nothingSent || (translation && Object.keys(translation).length > 0)) {
+        result[lang] = restoreSkippedContent(translation || {}, skippedValues, sourceContent);
       }
 
-      // Case 2: Check for missing keys within the translation
-      if (fallbackToSource && typeof translation === 'object') {
-        const missingKeys = this.findMissingKeys(sourceContent, translation);
-
-        if (missingKeys.length > 0) {
-          fallbackInfo.used = true;
-          fallbackInfo.keysFallback[lang] = missingKeys;
-
-          // Fill in missing keys from regional fallback or source
-          for (const key of missingKeys) {
-            const fallbackValue = this.getNestedValue(sourceContent, key);
+      for (const [namespace, files] of Object.entries(namespaceFiles || {})) {
+        const namespaceSource = sourceContent[namespace];
+        if (!files[lang] || !isPlainObject(namespaceSource)) {
+          continue;
+        }
 
-            // Try regional fallback first
-            if (regionalFallback && regionalMap[lang]) {
-              const baseLang = regionalMap[lang];
-              const baseTranslation = result[baseLang] as Record<string, unknown> | undefined;
-              const baseValue = baseTranslation ? this.getNestedValue(baseTranslation, key) : undefined;
+        const namespaceSkipped: SkippedValue[] = skippedValues
+          .filter(([segments]) => segments.length > 1 && segments[0] === namespace)
+          .map(([segments, value]) => [segments.slice(1), value]);
+        files[lang] = restoreSkippedContent(files[lang], namespaceSkipped, namespaceSource);
+      }
+    }
 
-              if (baseValue !== undefined) {
-                this.setNestedValue(translation, key, baseValue);
-                continue;
-              }
-            }
+    const reported = (result.skipped as SkippedInfo | undefined)?.keys || [];
+    const keys = [...new Set([...skippedValues.map(([segments]) => segments.join('.')), ...reported])];
+    result.skipped = { count: keys.length, keys };
+  }
 
-            // Fall back to source
-            if (fallbackValue !== undefined) {
-              this.setNestedValue(translation, key, fallbackValue);
-            }
-          }
-        }
+  /**
+   * Produce pseudo locales locally and translate the remaining targets through the API
+   */
+  private async translateJSONWithPseudoLocales<T extends Record<string, unknown>, L extends string>(
+    options: TranslateJSONOptions<T, L>,
+    pseudoTargets: L[],
+    requestOptions: RequestOptions
+  ): Promise<TranslateJSONResult<T, L>> {
+    const { content, targetLanguages, skipKeys, skipPaths, skipValues, dryRun } = options;
+    const apiTargets = targetLanguages.filter((lang) => !pseudoTargets.includes(lang));
+
+    const raw: TranslationResult = apiTargets.length > 0 || dryRun
+      ? { ...(await this.translateJSON<T, L>({ ...options, targetLanguages: apiTargets }, requestOptions)).legacy }
+      : {};
+
+    if (!dryRun) {
+      const sourceContent = typeof content === 'string' ? JSON.parse(content) : content;
+      for (const lang of pseudoTargets) {
+        const pseudoOptions = getPseudoLocaleOptions(lang, this.pseudoLocalization);
+        raw[lang] = pseudoLocalizeJSON(sourceContent, { ...pseudoOptions, skipKeys, skipPaths, skipValues });
       }
     }
 
-    // Add fallback info to result if any fallbacks were used
-    if (fallbackInfo.used) {
-      result.fallbackInfo = fallbackInfo;
+    return createJSONResult<T, L>(raw, targetLanguages);
+  }
+
+  /**
+   * translateText counterpart of translateJSONWithPseudoLocales
+   */
+  private async translateTextWithPseudoLocales<L extends string>(
+    options: TranslateTextOptions<L>,
+    pseudoTargets: L[],
+    requestOptions: RequestOptions
+  ): Promise<TextTranslationResult<L>> {
+    const { content, targetLanguages } = options;
+    const apiTargets = targetLanguages.filter((lang) => !pseudoTargets.includes(lang));
+
+    const raw: TranslationResult = apiTargets.length > 0
+      ? { ...(await this.translateText<L>({ ...options, targetLanguages: apiTargets }, requestOptions)).legacy }
+      : {};
+
+    const lines = (Array.isArray(content) ? content : content.split('\n')).filter((line) => line.trim() !== '');
+    for (const lang of pseudoTargets) {
+      const pseudoOptions = getPseudoLocaleOptions(lang, this.pseudoLocalization);
+      raw[lang] = lines.map((line) => ({ original: line, translated: pseudoLocalize(line, pseudoOptions) }));
     }
 
-    return result;
+    return createTextResult(raw, targetLanguages);
   }
 
   /**
-   * Find keys in source that are missing in translation
+   * Check i18next plural groups of every language against its CLDR plural categories,
+   * adding a warning per group and optionally filling missing categories from `_other`
    */
-  private findMissingKeys(
-    source: Record<string, unknown>,
-    translation: Record<string, unknown>,
-    prefix = ''
-  ): string[] {
-    const missing: string[] = [];
-
-    for (const key of Object.keys(source)) {
-      const fullKey = prefix ? `${prefix}.${key}` : key;
-      const sourceValue = source[key];
-      const translationValue = translation[key];
-
-      if (translationValue === undefined || translationValue === null || translationValue === '') {
-        missing.push(fullKey);
-      } else if (
-        typeof sourceValue === 'object' &&
-        sourceValue !== null &&
-        !Array.isArray(sourceValue) &&
-        typeof translationValue === 'object' &&
-        translationValue !== null
-      ) {
-        // Recurse into nested objects
-        missing.push(
-          ...this.findMissingKeys(
-            sourceValue as Record<string, unknown>,
-            translationValue as Record<string, unknown>,
-            fullKey
-          )
-        );
+  private validatePluralGroups(
+    result: TranslationResult,
+    sourceContent: Record<string, unknown>,
+    targetLanguages: string[],
+    fillMissing: boolean
+  ): void {
+    const warnings: TranslationWarning[] = [];
+
+    for (const lang of targetLanguages) {
+      const translation = result[lang] as Record<string, unknown> | undefined;
+      if (!translation) {
+        continue;
+      }
+
+      for (const issue of validatePlurals(sourceContent, translation, lang)) {
+        const problems = [
+          issue.missing.length > 0 ? `missing ${issue.missing.join(', ')}` : '',
+          issue.superfluous.length > 0 ? `superfluous ${issue.superfluous.join(', ')}` : '',
+        ].filter(Boolean);
+
+        warnings.push({
+          type: 'plural_mismatch',
+          message: `Plural forms of "${issue.key}" (${lang}): ${problems.join('; ')}`,
+          details: issue,
+        });
+      }
+
+      if (fillMissing) {
+        const filled = fillMissingPlurals(sourceContent, translation, lang);
+
+        if (filled.length > 0) {
+          this.recordKeyFallbacks(result, lang, filled);
+        }
       }
     }
 
-    return missing;
+    if (warnings.length > 0) {
+      result.warnings = [...((result.warnings as TranslationWarning[] | undefined) || []), ...warnings];
+    }
   }
 
   /**
-   * Get a nested value from an object using dot notation
+   * Compare placeholders of every translated string with its source value,
+   * adding a warning per mismatch and optionally restoring the source value
    */
-  private getNestedValue(obj: Record<string, unknown>, path: string): unknown {
-    return path.split('.').reduce((current: unknown, key: string) => {
-      if (current && typeof current === 'object' && key in (current as Record<string, unknown>)) {
-        return (current as Record<string, unknown>)[key];
+  private validatePlaceholders(
+    result: TranslationResult,
+    sourceContent: Record<string, unknown>,
+    targetLanguages: string[],
+    fallbackToSource: boolean
+  ): void {
+    const sourceFlat = flattenObject(sourceContent);
+    const warnings: TranslationWarning[] = [];
+
+    for (const lang of targetLanguages) {
+      const translation = result[lang] as Record<string, unknown> | undefined;
+      if (!translation) {
+        continue;
       }
-      return undefined;
-    }, obj);
+
+      for (const key of Object.keys(sourceFlat)) {
+        const sourceValue = sourceFlat[key];
+        const translatedValue = getNestedValue(translation, key);
+        if (typeof sourceValue !== 'string' || typeof translatedValue !== 'string') {
+          continue;
+        }
+
+        const mismatch = comparePlaceholders(sourceValue, translatedValue);
+        if (!mismatch) {
+          continue;
+        }
+
+        const details: PlaceholderMismatchDetails = { key, language: lang, ...mismatch };
+        const problems = [
+          mismatch.missing.length > 0 ? `missing ${mismatch.missing.join(', ')}` : '',
+          mismatch.extra.length > 0 ? `unexpected ${mismatch.extra.join(', ')}` : '',
+        ].filter(Boolean);
+
+        warnings.push({
+          type: 'placeholder_mismatch',
+          message: `Placeholder mismatch in "${key}" (${lang}): ${problems.join('; ')}`,
+          details,
+        });
+
+        if (fallbackToSource) {
+          setNestedValue(translation, key, sourceValue);
+
+          this.recordKeyFallbacks(result, lang, [key]);
+        }
+      }
+    }
+
+    if (warnings.length > 0) {
+      result.warnings = [...((result.warnings as TranslationWarning[] | undefined) || []), ...warnings];
+    }
   }
 
   /**
-   * Set a nested value in an object using dot notation
+   * Record keys of a language that were filled with fallback values after translation
    */
-  private setNestedValue(obj: Record<string, unknown>, path: string, value: unknown): void {
-    const keys = path.split('.');
-    let current = obj;
-
-    for (let i = 0; i < keys.length - 1; i++) {
-      const key = keys[i];
-      if (!(key in current) || typeof current[key] !== 'object') {
-        current[key] = {};
-      }
-      current = current[key] as Record<string, unknown>;
-    }
+  private recordKeyFallbacks(result: TranslationResult, lang: string, keys: string[]): void {
+    const fallbackInfo = (result.fallbackInfo as FallbackInfo | undefined) || {
+      used: true,
+      languagesFallbackToSource: [],
+      regionalFallbacks: {},
+      keysFallback: {},
+    };
 
-    current[keys[keys.length - 1]] = value;
+    fallbackInfo.used = true;
+    fallbackInfo.keysFallback[lang] = [...(fallbackInfo.keysFallback[lang] || []), ...keys];
+    result.fallbackInfo = fallbackInfo;
   }
 }
 
@@ -0,0 +1,281 @@
+/**
+ * Event-emitting translation jobs that fan out per language or per batch
+ */
+
+import { DEFAULT_BATCH_OPTIONS, createBatches, mapWithConcurrency, mergeTranslationResults } from './batching';
+import type { TranslateJSONOptions, TranslateJSONResult, TranslationResult, TranslationWarning } from './index';
+import { createJSONResult } from './result';
+import { flattenObject } from './utils';
+
+/**
+ * How a job splits its work into requests:
+ * - 'language': one translateJSON call per target language; each language completes on its own
+ * - 'batch': one call per content batch for all languages; languages complete when every batch is done
+ */
+export type JobFanOut = 'language' | 'batch';
+
+export interface TranslationJobOptions<
+  T extends Record<string, unknown> = Record<string, unknown>,
+  L extends string = string,
+> extends TranslateJSONOptions<T, L> {
+  /** Unit of work per request (default: 'language') */
+  fanOut?: JobFanOut;
+  /** Maximum number of requests in flight at once (default: batching.concurrency or 4) */
+  concurrency?: number;
+}
+
+export interface JobProgressEvent {
+  unit: JobFanOut;
+  /** Units finished so far, successful or not */
+  completed: number;
+  /** Units that failed */
+  failed: number;
+  total: number;
+}
+
+export interface JobLanguageEvent<T = Record<string, unknown>, L extends string = string> {
+  language: L;
+  /** Translated content, absent when the API returned nothing for the language */
+  translation?: T;
+  /** Result of the request(s) that produced this language */
+  result: TranslateJSONResult<T, L>;
+}
+
+export interface JobBatchEvent<T = Record<string, unknown>, L extends string = string> {
+  /** Batch index, starting at 0 */
+  index: number;
+  total: number;
+  /** Key paths in the batch */
+  keys: string[];
+  /** Result of the batch, for every target language */
+  result: TranslateJSONResult<T, L>;
+}
+
+export interface JobWarningEvent<L extends string = string> {
+  warning: TranslationWarning;
+  /** Language of the request that reported the warning (with fanOut 'language') */
+  language?: L;
+  /** Batch that reported the warning (with fanOut 'batch') */
+  batch?: number;
+}
+
+export interface JobErrorEvent<L extends string = string> {
+  error: Error;
+  /** Language whose request failed (with fanOut 'language') */
+  language?: L;
+  /** Batch whose request failed (with fanOut 'batch') */
+  batch?: number;
+}
+
+export interface TranslationJobEvents<T, L extends string> {
+  progress: JobProgressEvent;
+  language: JobLanguageEvent<T, L>;
+  batch: JobBatchEvent<T, L>;
+  warning: JobWarningEvent<L>;
+  error: JobErrorEvent<L>;
+}
+
+type Listener<E> = (event: E) => void;
+
+/**
+ * A running translation job. Work starts on the next tick, so listeners attached
+ * right after createJob() see every event.
+ *
+ * @example
+ * ```typescript
+ * const job = shipi18n.createJob({ content: en, sourceLanguage: 'en', targetLanguages: languages });
+ *
+ * job.on('progress', ({ completed, total }) => bar.update(completed / total));
+ * job.on('error', ({ language, error }) => console.error(language, error.message));
+ *
+ * for await (const { language, translation } of job) {
+ *   await fs.writeFile(`locales/${language}.json`, JSON.stringify(translation, null, 2));
+ * }
+ * ```
+ */
+export class TranslationJob<T extends Record<string, unknown> = Record<string, unknown>, L extends string = string> {
+  private listeners: { [K in keyof TranslationJobEvents<T, L>]?: Array<Listener<TranslationJobEvents<T, L>[K]>> } = {};
+  private completedLanguages: Array<JobLanguageEvent<T, L>> = [];
+  private errors: Array<JobErrorEvent<L>> = [];
+  private waiters: Array<() => void> = [];
+  private finished = false;
+  private completion: Promise<TranslateJSONResult<T, L>>;
+
+  constructor(
+    private options: TranslationJobOptions<T, L>,
+    /** Runs one unit of work; `unit` is the language code or the 1-based batch number */
+    private translate: (options: TranslateJSONOptions<T, L>, unit: string) => Promise<TranslateJSONResult<T, L>>
+  ) {
+    this.completion = Promise.resolve()
+      .then(() => this.run())
+      .catch((error: Error) => {
+        // e.g. unparseable content: reported like a failed unit, so completion never rejects
+        this.fail({ error });
+        return createJSONResult<T, L>({}, options.targetLanguages);
+      })
+      .finally(() => {
+        this.finished = true;
+        this.notify();
+      });
+  }
+
+  /**
+   * Subscribe to a job event. 'error' events don't stop the job; the other units keep running.
+   */
+  on<K extends keyof TranslationJobEvents<T, L>>(event: K, listener: Listener<TranslationJobEvents<T, L>[K]>): this {
+    const listeners = (this.listeners[event] ||= []) as Array<Listener<TranslationJobEvents<T, L>[K]>>;
+    listeners.push(listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener added with on()
+   */
+  off<K extends keyof TranslationJobEvents<T, L>>(event: K, listener: Listener<TranslationJobEvents<T, L>[K]>): this {
+    const listeners = this.listeners[event] as Array<Listener<TranslationJobEvents<T, L>[K]>> | undefined;
+    const index = listeners ? listeners.indexOf(listener) : -1;
+    if (index !== -1) {
+      listeners!.splice(index, 1);
+    }
+    return this;
+  }
+
+  /**
+   * Wait for the job to finish. Resolves with the combined result of every language,
+   * or rejects with the first error once all units have settled.
+   */
+  async done(): Promise<TranslateJSONResult<T, L>> {
+    const result = await this.completion;
+    if (this.errors.length > 0) {
+      throw this.errors[0].error;
+    }
+    return result;
+  }
+
+  /**
+   * Yield each language as soon as it completes. Throws the first error after the
+   * successful languages have been yielded.
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<JobLanguageEvent<T, L>> {
+    let index = 0;
+
+    while (true) {
+      while (index < this.completedLanguages.length) {
+        yield this.completedLanguages[index++];
+      }
+      if (this.finished) {
+        break;
+      }
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+
+    if (this.errors.length > 0) {
+      throw this.errors[0].error;
+    }
+  }
+
+  private emit<K extends keyof TranslationJobEvents<T, L>>(event: K, payload: TranslationJobEvents<T, L>[K]): void {
+    for (const listener of [...((this.listeners[event] || []) as Array<Listener<TranslationJobEvents<T, L>[K]>>)]) {
+      listener(payload);
+    }
+  }
+
+  private notify(): void {
+    this.waiters.splice(0).forEach((resolve) => resolve());
+  }
+
+  private completeLanguage(event: JobLanguageEvent<T, L>): void {
+    this.completedLanguages.push(event);
+    this.emit('language', event);
+    this.notify();
+  }
+
+  private fail(event: JobErrorEvent<L>): void {
+    this.errors.push(event);
+    this.emit('error', event);
+  }
+
+  private async run(): Promise<TranslateJSONResult<T, L>> {
+    const { fanOut = 'language', concurrency, ...translateOptions } = this.options;
+    const { batching } = translateOptions;
+    const limit = concurrency || (batching && batching.concurrency) || DEFAULT_BATCH_OPTIONS.concurrency;
+
+    const results = fanOut === 'batch'
+      ? await this.runBatches(translateOptions, limit)
+      : await this.runLanguages(translateOptions, limit);
+
+    return createJSONResult<T, L>(mergeTranslationResults(results), translateOptions.targetLanguages);
+  }
+
+  private async runLanguages(options: TranslateJSONOptions<T, L>, limit: number): Promise<TranslationResult[]> {
+    const languages = options.targetLanguages;
+    const progress: JobProgressEvent = { unit: 'language', completed: 0, failed: 0, total: languages.length };
+    const results: TranslationResult[] = new Array(languages.length);
+
+    await mapWithConcurrency(languages, limit, async (language, index) => {
+      try {
+        const result = await this.translate({ ...options, targetLanguages: [language] }, language);
+
+        for (const warning of result.warnings || []) {
+          this.emit('warning', { warning, language });
+        }
+
+        results[index] = result.legacy;
+        this.completeLanguage({ language, translation: result.translations[language], result });
+      } catch (error) {
+        progress.failed++;
+        this.fail({ error: error as Error, language });
+      }
+
+      progress.completed++;
+      this.emit('progress', { ...progress });
+    });
+
+    return results.filter((result) => result !== undefined);
+  }
+
+  private async runBatches(options: TranslateJSONOptions<T, L>, limit: number): Promise<TranslationResult[]> {
+    const { content, batching, groupByNamespace = 'auto' } = options;
+    const sourceContent = typeof content === 'string' ? JSON.parse(content) : content;
+    const batches = createBatches(sourceContent, {
+      maxKeys: batching ? batching.maxKeys : undefined,
+      maxBytes: batching ? batching.maxBytes : undefined,
+      groupByNamespace: groupByNamespace !== 'false',
+    });
+
+    const progress: JobProgressEvent = { unit: 'batch', completed: 0, failed: 0, total: batches.length };
+    const results: TranslationResult[] = new Array(batches.length);
+
+    await mapWithConcurrency(batches, limit, async (batch, index) => {
+      try {
+        const result = await this.translate({ ...options, content: batch as T, batching: false }, String(index + 1));
+
+        for (const warning of result.warnings || []) {
+          this.emit('warning', { warning, batch: index });
+        }
+
+        results[index] = result.legacy;
+        this.emit('batch', { index, total: batches.length, keys: Object.keys(flattenObject(batch)), result });
+      } catch (error) {
+        progress.failed++;
+        this.fail({ error: error as Error, batch: index });
+      }
+
+      progress.completed++;
+      this.emit('progress', { ...progress });
+    });
+
+    // A language is only complete when every batch succeeded
+    const succeeded = results.filter((result) => result !== undefined);
+    if (succeeded.length === batches.length) {
+      const merged = createJSONResult<T, L>(mergeTranslationResults(succeeded), options.targetLanguages);
+      for (const language of options.targetLanguages) {
+        if (merged.translations[language] !== undefined) {
+          this.completeLanguage({ language, translation: merged.translations[language], result: merged });
+        }
+      }
+    }
+
+    return succeeded;
+  }
+}
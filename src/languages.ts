@@ -0,0 +1,243 @@
+/**
+ * BCP 47 language tags: canonical spelling, fallback chains and regional expansion
+ */
+
+import type { FallbackInfo, TranslationResult } from './index';
+import { cloneJSON } from './utils';
+
+/** Regions whose CLDR parent locale is a macro-region or another regional variant */
+const PARENT_REGIONS: Array<[parent: string, regions: string[]]> = [
+  [
+    'es-419',
+    ['AR', 'BO', 'BR', 'BZ', 'CL', 'CO', 'CR', 'CU', 'DO', 'EC', 'GT', 'HN', 'MX', 'NI', 'PA', 'PE', 'PR', 'PY', 'SV', 'US', 'UY', 'VE'],
+  ],
+  ['en-150', ['AT', 'BE', 'CH', 'DE', 'DK', 'FI', 'NL', 'SE', 'SI']],
+  ['pt-PT', ['AO', 'CH', 'CV', 'GQ', 'GW', 'LU', 'MO', 'MZ', 'ST', 'TL']],
+  ['zh-Hant-HK', ['MO']],
+];
+
+/** CLDR parent locales that differ from plain truncation (es-MX → es-419, not es) */
+const PARENT_LOCALES: Record<string, string> = Object.fromEntries(
+  PARENT_REGIONS.flatMap(([parent, regions]) =>
+    regions.map((region) => [`${truncateLanguageTag(parent)}-${region}`, parent])
+  )
+);
+
+export interface LanguageTagValidation {
+  /** The tag as passed in */
+  tag: string;
+  /** Canonical spelling (e.g. pt_BR → pt-BR), or the tag itself when it is malformed */
+  canonical: string;
+  /** Whether the tag is well-formed BCP 47 */
+  wellFormed: boolean;
+  /** Whether the API supports the tag itself */
+  supported: boolean;
+  /** Closest supported language in the tag's fallback chain, when the tag itself is unsupported */
+  fallback?: string;
+}
+
+/** Canonical target tags, and how the caller spelled each of them */
+export interface LanguageTagMap {
+  tags: string[];
+  spellings: Record<string, string[]>;
+}
+
+/**
+ * Canonicalize a language tag: underscores become hyphens and subtags get their
+ * standard case (PT_br → pt-BR, zh-hant-tw → zh-Hant-TW). Malformed tags are
+ * returned with only underscores replaced.
+ */
+export function canonicalizeLanguageTag(tag: string): string {
+  const hyphenated = tag.trim().replace(/_/g, '-');
+  try {
+    return Intl.getCanonicalLocales(hyphenated)[0];
+  } catch {
+    return hyphenated;
+  }
+}
+
+/**
+ * Check that a tag is well-formed BCP 47 (underscore separators are accepted)
+ */
+export function isWellFormedLanguageTag(tag: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(tag.trim().replace(/_/g, '-')).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compare tags by their canonical spelling, so pt_BR, PT-br and pt-BR are the same language
+ */
+export function isSameLanguageTag(a: string, b: string): boolean {
+  return canonicalizeLanguageTag(a) === canonicalizeLanguageTag(b);
+}
+
+/** Drop extensions and private-use subtags (-u-…, -x-…) first, then the last subtag */
+function truncateLanguageTag(tag: string): string | undefined {
+  const subtags = tag.split('-');
+  const singleton = subtags.findIndex((subtag, index) => index > 0 && subtag.length === 1);
+  if (singleton > 0) {
+    return subtags.slice(0, singleton).join('-');
+  }
+
+  subtags.pop();
+  return subtags.length > 0 ? subtags.join('-') : undefined;
+}
+
+/**
+ * Parent languages of a tag, nearest first: CLDR parent locales where they apply,
+ * otherwise truncation (script before region is kept, so zh-Hant-TW → zh-Hant → zh)
+ *
+ * @example
+ * ```typescript
+ * getLanguageFallbacks('zh-Hant-TW'); // ['zh-Hant', 'zh']
+ * getLanguageFallbacks('es_MX');      // ['es-419', 'es']
+ * getLanguageFallbacks('en-DE');      // ['en-150', 'en']
+ * ```
+ */
+export function getLanguageFallbacks(tag: string): string[] {
+  const chain: string[] = [];
+  let current = canonicalizeLanguageTag(tag);
+
+  for (;;) {
+    const parent = PARENT_LOCALES[current] ?? truncateLanguageTag(current);
+    if (!parent || chain.includes(parent)) {
+      return chain;
+    }
+    chain.push(parent);
+    current = parent;
+  }
+}
+
+/**
+ * Process regional language codes and create a mapping for fallbacks.
+ * Only the base language of each chain is requested with the tag; the rest of the chain
+ * resolves locally from what was returned, unless `requestParents` asks for every parent.
+ * e.g., ['es', 'pt-BR', 'zh-Hant-TW'] -> {
+ *   processedTargets: ['es', 'pt', 'pt-BR', 'zh', 'zh-Hant-TW'],
+ *   regionalMap: { 'pt-BR': 'pt', 'zh-Hant-TW': 'zh-Hant' },
+ *   regionalChains: { 'pt-BR': ['pt'], 'zh-Hant-TW': ['zh-Hant', 'zh'] },
+ * }
+ */
+export function processRegionalLanguages(
+  targetLanguages: string[],
+  regionalFallback: boolean,
+  requestParents = false
+): { processedTargets: string[]; regionalMap: Record<string, string>; regionalChains: Record<string, string[]> } {
+  const regionalMap: Record<string, string> = {};
+  const regionalChains: Record<string, string[]> = {};
+  const processedTargets: string[] = [];
+  const isListed = (lang: string, list: string[]) => list.some((listed) => isSameLanguageTag(listed, lang));
+
+  for (const lang of targetLanguages) {
+    const parents = regionalFallback ? getLanguageFallbacks(lang) : [];
+
+    if (parents.length > 0) {
+      regionalMap[lang] = parents[0];
+      regionalChains[lang] = parents;
+
+      // Add parent languages, broadest first, unless already in the list
+      const requested = requestParents ? [...parents].reverse() : parents.slice(-1);
+      for (const parent of requested) {
+        if (!isListed(parent, targetLanguages) && !isListed(parent, processedTargets)) {
+          processedTargets.push(parent);
+        }
+      }
+    }
+
+    // Always include the original language
+    if (!processedTargets.includes(lang)) {
+      processedTargets.push(lang);
+    }
+  }
+
+  return { processedTargets, regionalMap, regionalChains };
+}
+
+/**
+ * Canonicalize target tags for the API, remembering the caller's spelling of each
+ */
+export function mapLanguageTags(targetLanguages: string[]): LanguageTagMap {
+  const tags: string[] = [];
+  const spellings: Record<string, string[]> = {};
+
+  for (const lang of targetLanguages) {
+    const canonical = canonicalizeLanguageTag(lang);
+    if (!spellings[canonical]) {
+      tags.push(canonical);
+      spellings[canonical] = [];
+    }
+    if (!spellings[canonical].includes(lang)) {
+      spellings[canonical].push(lang);
+    }
+  }
+
+  return { tags, spellings };
+}
+
+function respellKeys<V>(record: Record<string, V>, spellings: Record<string, string[]>): Record<string, V> {
+  return Object.fromEntries(
+    Object.entries(record).flatMap(([lang, value]) =>
+      (spellings[lang] || [lang]).map((spelling, index) => [spelling, index === 0 ? value : cloneJSON(value)])
+    )
+  );
+}
+
+/**
+ * Rename the target languages of a result (translations, namespace files and fallback info)
+ * from their canonical tags back to the caller's spelling
+ */
+export function restoreLanguageTags(result: TranslationResult, map: LanguageTagMap): void {
+  for (const canonical of map.tags) {
+    const value = result[canonical];
+    const spellings = map.spellings[canonical];
+    if (value === undefined || (spellings.length === 1 && spellings[0] === canonical)) {
+      continue;
+    }
+
+    if (!spellings.includes(canonical)) {
+      delete result[canonical];
+    }
+    spellings.forEach((spelling, index) => {
+      result[spelling] = index === 0 ? value : cloneJSON(value);
+    });
+  }
+
+  const namespaceFiles = result.namespaceFiles as unknown as Record<string, Record<string, unknown>> | undefined;
+  if (namespaceFiles) {
+    for (const ns of Object.keys(namespaceFiles)) {
+      namespaceFiles[ns] = respellKeys(namespaceFiles[ns], map.spellings);
+    }
+  }
+
+  const info = result.fallbackInfo as FallbackInfo | undefined;
+  if (info) {
+    info.languagesFallbackToSource = info.languagesFallbackToSource.flatMap((lang) => map.spellings[lang] || [lang]);
+    info.regionalFallbacks = respellKeys(info.regionalFallbacks, map.spellings);
+    info.keysFallback = respellKeys(info.keysFallback, map.spellings);
+    if (info.keysFallbackFrom) {
+      info.keysFallbackFrom = respellKeys(info.keysFallbackFrom, map.spellings);
+    }
+  }
+}
+
+/**
+ * Check tags against the languages the API supports (e.g. the codes from getLanguages()).
+ * Unsupported tags report the closest supported language in their fallback chain.
+ */
+export function validateLanguageTags(tags: string[], supportedLanguages: string[]): LanguageTagValidation[] {
+  const supported = new Set(supportedLanguages.map(canonicalizeLanguageTag));
+
+  return tags.map((tag) => {
+    const canonical = canonicalizeLanguageTag(tag);
+    const wellFormed = isWellFormedLanguageTag(tag);
+    const isSupported = wellFormed && supported.has(canonical);
+    const fallback = wellFormed && !isSupported
+      ? getLanguageFallbacks(canonical).find((parent) => supported.has(parent))
+      : undefined;
+
+    return { tag, canonical, wellFormed, supported: isSupported, ...(fallback && { fallback }) };
+  });
+}
@@ -0,0 +1,100 @@
+/**
+ * Request/response middleware around the client's fetch calls
+ */
+
+/** A fetch implementation, e.g. undici's fetch with a proxy agent */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+/** The request a middleware sees; changes are applied to the actual fetch call */
+export interface MiddlewareContext {
+  /** API endpoint path, e.g. '/api/translate' */
+  endpoint: string;
+  url: string;
+  method: 'GET' | 'POST';
+  headers: Record<string, string>;
+  /** Serialized JSON body (POST only) */
+  body?: string;
+  /** Aborts on timeout or when the caller cancels */
+  signal: AbortSignal;
+  /** 1-based attempt number; greater than 1 for retries */
+  attempt: number;
+}
+
+/**
+ * Call `next()` to continue to the next middleware (and finally fetch), or return
+ * a Response without calling it to short-circuit the request.
+ */
+export type Middleware = (ctx: MiddlewareContext, next: () => Promise<Response>) => Promise<Response>;
+
+export interface RequestLogEntry {
+  method: string;
+  url: string;
+  attempt: number;
+  /** HTTP status, when a response was received */
+  status?: number;
+  /** Milliseconds until the response (or error) */
+  duration: number;
+  error?: Error;
+}
+
+/**
+ * Run a request through the middleware in order, ending with `fetchImpl`
+ */
+export function runMiddleware(middleware: Middleware[], fetchImpl: FetchLike, ctx: MiddlewareContext): Promise<Response> {
+  const dispatch = (index: number): Promise<Response> => {
+    if (index < middleware.length) {
+      return middleware[index](ctx, () => dispatch(index + 1));
+    }
+    return fetchImpl(ctx.url, { method: ctx.method, headers: ctx.headers, body: ctx.body, signal: ctx.signal });
+  };
+
+  return dispatch(0);
+}
+
+function logToConsole(entry: RequestLogEntry): void {
+  const outcome = entry.error ? `failed: ${entry.error.message}` : String(entry.status);
+  const retry = entry.attempt > 1 ? ` (attempt ${entry.attempt})` : '';
+  console.log(`[shipi18n] ${entry.method} ${entry.url} ${outcome} ${entry.duration}ms${retry}`);
+}
+
+/**
+ * Log each request with its status and duration. Headers and bodies are not logged,
+ * so the API key never ends up in logs.
+ *
+ * @example
+ * ```typescript
+ * new Shipi18n({ apiKey, middleware: [loggingMiddleware((entry) => logger.debug(entry))] });
+ * ```
+ */
+export function loggingMiddleware(log: (entry: RequestLogEntry) => void = logToConsole): Middleware {
+  return async (ctx, next) => {
+    const started = Date.now();
+    const entry = { method: ctx.method, url: ctx.url, attempt: ctx.attempt };
+
+    try {
+      const response = await next();
+      log({ ...entry, status: response.status, duration: Date.now() - started });
+      return response;
+    } catch (error) {
+      log({ ...entry, duration: Date.now() - started, error: error as Error });
+      throw error;
+    }
+  };
+}
+
+/**
+ * Add headers to every request, e.g. tracing IDs. Pass a function to compute them per request.
+ *
+ * @example
+ * ```typescript
+ * headersMiddleware(() => ({ 'x-trace-id': randomUUID() }));
+ * ```
+ */
+export function headersMiddleware(
+  headers: Record<string, string> | ((ctx: MiddlewareContext) => Record<string, string>)
+): Middleware {
+  return (ctx, next) => {
+    Object.assign(ctx.headers, typeof headers === 'function' ? headers(ctx) : headers);
+    return next();
+  };
+}
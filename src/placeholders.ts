@@ -0,0 +1,192 @@
+/**
+ * Placeholder extraction and comparison between source and translated strings
+ *
+ * Recognized placeholders:
+ * - i18next interpolation: `{{name}}`, `{{count, number}}` → `{{name}}`, `{{count}}`
+ * - ICU arguments: `{name}`, `{count, plural, ...}` → `{name}`, `{count}` (branch texts are scanned too)
+ *
+ * Placeholders inside plural/select branches are compared by name only, since a language
+ * with more plural categories (ru: one/few/many/other) repeats them in more branches.
+ * - printf style: `%s`, `%d`, `%1$d`, `%@`, `%1$@`
+ * - i18next nesting: `$t(key)`
+ */
+
+export interface PlaceholderMismatch {
+  /** Placeholders present in the source but not in the translation */
+  missing: string[];
+  /** Placeholders present in the translation but not in the source */
+  extra: string[];
+}
+
+const I18NEXT_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const NESTING_PATTERN = /\$t\([^)]*\)/g;
+const PRINTF_PATTERN = /%%|%(?:\d+\$)?[-+0#]*\d*(?:\.\d+)?(?:l{0,2}|h{0,2})[sdifuxXoeEgGc@]/g;
+const ICU_BRANCH_TYPES = ['plural', 'select', 'selectordinal'];
+
+interface FoundPlaceholder {
+  token: string;
+  /** Position in the text */
+  index: number;
+}
+
+interface PlaceholderScan {
+  found: FoundPlaceholder[];
+  /** [start, end) ranges of ICU branch texts */
+  branches: Array<[number, number]>;
+}
+
+/**
+ * Scan ICU message syntax starting at `start`, collecting argument names and branch ranges.
+ * Returns the index just past the scanned text (at an unmatched `}` or the end).
+ */
+function scanIcu(text: string, start: number, scan: PlaceholderScan): number {
+  let i = start;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '}') {
+      return i;
+    }
+
+    if (char === "'" && text[i + 1] === '{') {
+      // Quoted literal brace, e.g. '{' in ICU messages
+      const end = text.indexOf("'", i + 1);
+      i = end === -1 ? text.length : end + 1;
+      continue;
+    }
+
+    if (char !== '{') {
+      i++;
+      continue;
+    }
+
+    const argument = /^\{\s*([A-Za-z0-9_]+)\s*(,\s*([A-Za-z]+)\s*)?([,}])/.exec(text.slice(i));
+    if (!argument) {
+      // Not an argument: scan the braced text as plain text
+      const end = scanIcu(text, i + 1, scan);
+      i = end + 1;
+      continue;
+    }
+
+    scan.found.push({ token: `{${argument[1]}}`, index: i });
+    i += argument[0].length;
+
+    if (argument[4] === '}') {
+      continue;
+    }
+
+    if (argument[3] && ICU_BRANCH_TYPES.includes(argument[3])) {
+      // Branches: `selector {text}` pairs until the closing brace
+      while (i < text.length && text[i] !== '}') {
+        if (text[i] === '{') {
+          const end = scanIcu(text, i + 1, scan);
+          scan.branches.push([i + 1, end]);
+          i = end + 1;
+        } else {
+          i++;
+        }
+      }
+      i++;
+      continue;
+    }
+
+    // Formatted argument, e.g. {amount, number, ::currency/EUR}: skip its style
+    let depth = 1;
+    while (i < text.length && depth > 0) {
+      if (text[i] === '{') depth++;
+      if (text[i] === '}') depth--;
+      i++;
+    }
+  }
+
+  return i;
+}
+
+function scanPlaceholders(text: string): PlaceholderScan {
+  const scan: PlaceholderScan = { found: [], branches: [] };
+
+  // Matches are blanked out with spaces of the same length, so positions stay comparable
+  let rest = text.replace(I18NEXT_PATTERN, (match, inner: string, index: number) => {
+    scan.found.push({ token: `{{${inner.split(',')[0].trim()}}}`, index });
+    return ' '.repeat(match.length);
+  });
+
+  rest = rest.replace(NESTING_PATTERN, (match, index: number) => {
+    scan.found.push({ token: match, index });
+    return ' '.repeat(match.length);
+  });
+
+  rest = rest.replace(PRINTF_PATTERN, (match, index: number) => {
+    if (match !== '%%') {
+      scan.found.push({ token: match, index });
+    }
+    return ' '.repeat(match.length);
+  });
+
+  // Stray closing braces are literal text; keep scanning past them
+  for (let i = 0; i < rest.length; i++) {
+    i = scanIcu(rest, i, scan);
+  }
+
+  return scan;
+}
+
+/**
+ * Extract placeholder tokens from a string, in order of appearance per kind
+ *
+ * @example
+ * extractPlaceholders('Hi {{name}}, you have %d {count, plural, one {item} other {items}}')
+ * // ['{{name}}', '%d', '{count}']
+ */
+export function extractPlaceholders(text: string): string[] {
+  return scanPlaceholders(text).found.map(({ token }) => token);
+}
+
+function countTokens(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
+
+function subtract(a: Map<string, number>, b: Map<string, number>): string[] {
+  const result: string[] = [];
+  for (const [token, count] of a) {
+    for (let i = b.get(token) || 0; i < count; i++) {
+      result.push(token);
+    }
+  }
+  return result;
+}
+
+function branchTokens({ found, branches }: PlaceholderScan): string[] {
+  return found
+    .filter(({ index }) => branches.some(([start, end]) => index >= start && index < end))
+    .map(({ token }) => token);
+}
+
+/**
+ * Compare the placeholders of a source string and its translation.
+ * Returns undefined when both contain the same placeholders (in any order).
+ * Placeholders used inside ICU branches only need to be present, not repeated as often.
+ */
+export function comparePlaceholders(source: string, translated: string): PlaceholderMismatch | undefined {
+  const sourceScan = scanPlaceholders(source);
+  const translatedScan = scanPlaceholders(translated);
+  const inBranches = new Set([...branchTokens(sourceScan), ...branchTokens(translatedScan)]);
+  // Branch placeholders count once each, other placeholders as often as they occur
+  const tokensOf = (scan: PlaceholderScan) =>
+    scan.found
+      .map(({ token }) => token)
+      .filter((token, index, tokens) => !inBranches.has(token) || tokens.indexOf(token) === index);
+
+  const sourceCounts = countTokens(tokensOf(sourceScan));
+  const translatedCounts = countTokens(tokensOf(translatedScan));
+
+  const missing = subtract(sourceCounts, translatedCounts);
+  const extra = subtract(translatedCounts, sourceCounts);
+
+  return missing.length > 0 || extra.length > 0 ? { missing, extra } : undefined;
+}
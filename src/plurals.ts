@@ -0,0 +1,138 @@
+/**
+ * i18next plural key validation based on CLDR plural rules (via Intl.PluralRules)
+ *
+ * i18next plural keys use a suffix per CLDR category:
+ * - cardinal: `items_one`, `items_few`, `items_other`, ...
+ * - ordinal: `place_ordinal_one`, `place_ordinal_two`, `place_ordinal_other`, ...
+ *
+ * `_zero` is special-cased by i18next for count === 0 in every language, so it is
+ * never reported as superfluous, and only required where CLDR defines a `zero` category.
+ */
+
+import { flattenObject, getNestedValue, setNestedValue } from './utils';
+
+export type PluralType = 'cardinal' | 'ordinal';
+
+export interface PluralGroup {
+  /** Key path without the plural suffix (e.g. 'cart.items') */
+  key: string;
+  type: PluralType;
+}
+
+export interface PluralIssue extends PluralGroup {
+  language: string;
+  /** Categories the language needs but the translation lacks */
+  missing: string[];
+  /** Categories present in the translation that the language never uses */
+  superfluous: string[];
+}
+
+const CATEGORY_ORDER = ['zero', 'one', 'two', 'few', 'many', 'other'];
+const PLURAL_SUFFIX = /^(.*?)(_ordinal)?_(zero|one|two|few|many|other)$/;
+
+function suffixFor(type: PluralType, category: string): string {
+  return type === 'ordinal' ? `_ordinal_${category}` : `_${category}`;
+}
+
+/**
+ * Get the CLDR plural categories a language uses, in canonical order.
+ * Returns undefined for language tags Intl.PluralRules rejects.
+ */
+export function getPluralCategories(language: string, type: PluralType = 'cardinal'): string[] | undefined {
+  try {
+    const categories = new Intl.PluralRules(language, { type }).resolvedOptions().pluralCategories as string[];
+    return CATEGORY_ORDER.filter((category) => categories.includes(category));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Split an i18next plural key path into its group and category
+ *
+ * @example
+ * parsePluralKey('cart.items_few') // { key: 'cart.items', type: 'cardinal', category: 'few' }
+ */
+export function parsePluralKey(path: string): (PluralGroup & { category: string }) | undefined {
+  const match = PLURAL_SUFFIX.exec(path);
+  return match ? { key: match[1], type: match[2] ? 'ordinal' : 'cardinal', category: match[3] } : undefined;
+}
+
+/**
+ * Find i18next plural groups in content. A group is recognized by its `_other` key.
+ */
+export function findPluralGroups(content: Record<string, unknown>): PluralGroup[] {
+  const groups: PluralGroup[] = [];
+
+  for (const path of Object.keys(flattenObject(content))) {
+    const plural = parsePluralKey(path);
+    if (plural && plural.category === 'other') {
+      groups.push({ key: plural.key, type: plural.type });
+    }
+  }
+
+  return groups;
+}
+
+function presentCategories(translation: Record<string, unknown>, group: PluralGroup): string[] {
+  return CATEGORY_ORDER.filter(
+    (category) => getNestedValue(translation, `${group.key}${suffixFor(group.type, category)}`) !== undefined
+  );
+}
+
+/**
+ * Check every plural group of the source against a language's translation
+ */
+export function validatePlurals(
+  source: Record<string, unknown>,
+  translation: Record<string, unknown>,
+  language: string
+): PluralIssue[] {
+  const issues: PluralIssue[] = [];
+
+  for (const group of findPluralGroups(source)) {
+    const required = getPluralCategories(language, group.type);
+    if (!required) {
+      continue;
+    }
+
+    const present = presentCategories(translation, group);
+    const missing = required.filter((category) => !present.includes(category));
+    const superfluous = present.filter(
+      (category) => !required.includes(category) && !(category === 'zero' && group.type === 'cardinal')
+    );
+
+    if (missing.length > 0 || superfluous.length > 0) {
+      issues.push({ ...group, language, missing, superfluous });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Fill missing plural categories from the group's `_other` value.
+ * Returns the key paths that were added.
+ */
+export function fillMissingPlurals(
+  source: Record<string, unknown>,
+  translation: Record<string, unknown>,
+  language: string
+): string[] {
+  const filled: string[] = [];
+
+  for (const issue of validatePlurals(source, translation, language)) {
+    const other = getNestedValue(translation, `${issue.key}${suffixFor(issue.type, 'other')}`);
+    if (other === undefined) {
+      continue;
+    }
+
+    for (const category of issue.missing) {
+      const path = `${issue.key}${suffixFor(issue.type, category)}`;
+      setNestedValue(translation, path, other);
+      filled.push(path);
+    }
+  }
+
+  return filled;
+}
@@ -0,0 +1,207 @@
+/**
+ * Offline pseudo-localization for UI testing
+ *
+ * Pseudo-localized text stays readable but looks translated, so untranslated
+ * (hard-coded) strings, truncation and layout overflow stand out:
+ * `Hello {{name}}` → `[Ĥéļļö {{name}} ~~]`. Placeholders, ICU syntax, HTML tags
+ * and entities are kept as-is.
+ */
+
+import { isSameLanguageTag } from './languages';
+import { SkipOptions, isSkippedPath, isSkippedValue } from './skip';
+import { cloneJSON, flattenSegments, setSegments } from './utils';
+
+export interface PseudoLocalizeOptions {
+  /** Replace letters with accented look-alikes (default: true) */
+  accents?: boolean;
+  /** Extra length as a fraction of the text, added as `~` padding (default: 0.3) */
+  expansion?: number;
+  /** Markers around each value, to spot truncation, or `false` for none (default: ['[', ']']) */
+  brackets?: [string, string] | false;
+  /** Wrap text in right-to-left override marks, so it renders mirrored (default: false) */
+  mirror?: boolean;
+}
+
+/**
+ * Pseudo locales produced locally instead of by the API:
+ * - 'en-XA': accented, expanded and bracketed text
+ * - 'ar-XB': mirrored right-to-left text
+ */
+export const PSEUDO_LOCALES: Record<string, PseudoLocalizeOptions> = {
+  'en-XA': {},
+  'ar-XB': { accents: false, expansion: 0, brackets: false, mirror: true },
+};
+
+const ACCENTS: Record<string, string> = {
+  a: 'á', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'í', j: 'ĵ', k: 'ķ', l: 'ļ', m: 'ɱ',
+  n: 'ñ', o: 'ö', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'ú', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+  A: 'Á', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Í', J: 'Ĵ', K: 'Ķ', L: 'Ļ', M: 'Ṁ',
+  N: 'Ñ', O: 'Ö', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Ú', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž',
+};
+
+const RIGHT_TO_LEFT_OVERRIDE = '\u202E';
+const POP_DIRECTIONAL_FORMATTING = '\u202C';
+
+/** Kept as-is: {{name}}, %s, %1$d, <b>, </b>, &amp;, &#39; */
+const PROTECTED_TOKEN = /\{\{[^}]*\}\}|%(?:\d+\$)?[sdif@]|<[^>]+>|&(?:#\d+|#x[\da-f]+|\w+);/iy;
+/** ICU argument with sub-messages: `{count, plural,` / `{gender, select,` */
+const ICU_HEADER = /\{\s*[\w.]+\s*,\s*(?:plural|selectordinal|select)\s*,/y;
+/** ICU selector and the opening brace of its sub-message: ` one {`, ` =0 {`, ` offset:1 other {` */
+const ICU_SELECTOR = /\s*(?:offset:\s*\d+\s+)?=?[\w-]+\s*\{/y;
+const ICU_END = /\s*\}/y;
+/** Simple arguments: {name}, {count, number} */
+const SIMPLE_ARGUMENT = /\{[^{}]*\}/y;
+
+function matchAt(pattern: RegExp, text: string, index: number): string | undefined {
+  pattern.lastIndex = index;
+  return pattern.exec(text)?.[0];
+}
+
+/**
+ * Apply `transform` to the translatable runs of a message, from `start` until the
+ * closing brace of the enclosing ICU sub-message (or the end of the text)
+ */
+function transformMessage(
+  text: string,
+  start: number,
+  transform: (run: string) => string,
+  nested: boolean,
+  inPlural: boolean
+): { output: string; end: number } {
+  let output = '';
+  let run = '';
+  let index = start;
+
+  const flush = () => {
+    output += run ? transform(run) : '';
+    run = '';
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (nested && char === '}') {
+      break;
+    }
+    if (inPlural && char === '#') {
+      flush();
+      output += char;
+      index++;
+      continue;
+    }
+
+    const header = matchAt(ICU_HEADER, text, index);
+    if (header) {
+      flush();
+      output += header;
+      index += header.length;
+      const plural = !/\bselect\s*,$/.test(header);
+
+      for (;;) {
+        const end = matchAt(ICU_END, text, index);
+        if (end) {
+          output += end;
+          index += end.length;
+          break;
+        }
+
+        const selector = matchAt(ICU_SELECTOR, text, index);
+        if (!selector) {
+          // Malformed ICU: keep the rest untouched
+          return { output: output + text.slice(index), end: text.length };
+        }
+
+        const branch = transformMessage(text, index + selector.length, transform, true, plural);
+        output += `${selector}${branch.output}}`;
+        index = branch.end + 1;
+      }
+      continue;
+    }
+
+    const token = matchAt(PROTECTED_TOKEN, text, index) ?? matchAt(SIMPLE_ARGUMENT, text, index);
+    if (token) {
+      flush();
+      output += token;
+      index += token.length;
+      continue;
+    }
+
+    run += char;
+    index++;
+  }
+
+  flush();
+  return { output, end: index };
+}
+
+/**
+ * Pseudo-localize a single message
+ *
+ * @example
+ * ```typescript
+ * pseudoLocalize('Hello {{name}}');                     // '[Ĥéļļö {{name}} ~~]'
+ * pseudoLocalize('{n, plural, one {# file} other {# files}}', { expansion: 0 });
+ * // '[{n, plural, one {# ƒíļé} other {# ƒíļéš}}]'
+ * ```
+ */
+export function pseudoLocalize(text: string, options: PseudoLocalizeOptions = {}): string {
+  const { accents = true, expansion = 0.3, brackets = ['[', ']'], mirror = false } = options;
+  let translatable = 0;
+
+  const { output } = transformMessage(
+    text,
+    0,
+    (run) => {
+      translatable += run.length;
+      const accented = accents ? run.replace(/[a-zA-Z]/g, (char) => ACCENTS[char]) : run;
+      return mirror ? `${RIGHT_TO_LEFT_OVERRIDE}${accented}${POP_DIRECTIONAL_FORMATTING}` : accented;
+    },
+    false,
+    false
+  );
+
+  const padding = expansion > 0 && translatable > 0 ? ` ${'~'.repeat(Math.ceil(translatable * expansion))}` : '';
+  return brackets ? `${brackets[0]}${output}${padding}${brackets[1]}` : `${output}${padding}`;
+}
+
+/**
+ * Pseudo-localize every string in JSON content, except skipped keys and values
+ */
+export function pseudoLocalizeJSON<T extends Record<string, unknown>>(
+  content: T,
+  options: PseudoLocalizeOptions & SkipOptions = {}
+): T {
+  const { skipKeys = [], skipPaths = [], skipValues = [], ...pseudoOptions } = options;
+  const localized = cloneJSON(content);
+  const localize = (value: string) => (isSkippedValue(value, skipValues) ? value : pseudoLocalize(value, pseudoOptions));
+
+  for (const [segments, value] of flattenSegments(content)) {
+    if (isSkippedPath(segments.join('.'), skipKeys, skipPaths)) {
+      continue;
+    }
+
+    if (typeof value === 'string' && value !== '') {
+      setSegments(localized, segments, localize(value));
+    } else if (Array.isArray(value)) {
+      const items = value.map((item) => (typeof item === 'string' && item !== '' ? localize(item) : item));
+      setSegments(localized, segments, items);
+    }
+  }
+
+  return localized;
+}
+
+/**
+ * Whether a tag is one of the PSEUDO_LOCALES (any spelling, e.g. en_XA)
+ */
+export function isPseudoLocale(language: string): boolean {
+  return Object.keys(PSEUDO_LOCALES).some((pseudo) => isSameLanguageTag(pseudo, language));
+}
+
+/**
+ * Options for a pseudo-localized language: the preset of a pseudo locale over the given defaults
+ */
+export function getPseudoLocaleOptions(language: string, defaults: PseudoLocalizeOptions = {}): PseudoLocalizeOptions {
+  const preset = Object.keys(PSEUDO_LOCALES).find((pseudo) => isSameLanguageTag(pseudo, language));
+  return { ...defaults, ...(preset ? PSEUDO_LOCALES[preset] : {}) };
+}
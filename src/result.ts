@@ -0,0 +1,99 @@
+/**
+ * Conversion of raw API responses into typed translation results
+ */
+
+import type {
+  FileTranslationResult,
+  TextTranslationResult,
+  TranslateJSONResult,
+  TranslationPair,
+  TranslationResult,
+} from './index';
+
+/** Keys of a raw API response that carry metadata rather than a language */
+export const RESULT_METADATA_KEYS = [
+  'warnings',
+  'fallbackInfo',
+  'skipped',
+  'contextEnhanced',
+  'namespaceInfo',
+  'namespaceFiles',
+  'namespaceFileNames',
+  'cache',
+  'estimate',
+  'error',
+];
+
+/**
+ * Attach the raw response as a non-enumerable `legacy` accessor,
+ * so serializing a result only includes the typed shape
+ */
+function withLegacy<R extends object>(result: R, raw: TranslationResult): R & { readonly legacy: TranslationResult } {
+  Object.defineProperty(result, 'legacy', {
+    get: () => raw,
+    enumerable: false,
+  });
+  return result as R & { readonly legacy: TranslationResult };
+}
+
+function copyMetadata(raw: TranslationResult, result: Record<string, unknown>): void {
+  for (const key of RESULT_METADATA_KEYS) {
+    if (raw[key] !== undefined) {
+      result[key] = raw[key];
+    }
+  }
+}
+
+/**
+ * Build a typed JSON result from a raw API response
+ */
+export function createJSONResult<T, L extends string>(
+  raw: TranslationResult,
+  targetLanguages: L[]
+): TranslateJSONResult<T, L> {
+  const translations: Partial<Record<L, T>> = {};
+
+  for (const lang of targetLanguages) {
+    if (raw[lang] !== undefined) {
+      translations[lang] = raw[lang] as unknown as T;
+    }
+  }
+
+  const result: Record<string, unknown> = { translations };
+  copyMetadata(raw, result);
+
+  return withLegacy(result, raw) as unknown as TranslateJSONResult<T, L>;
+}
+
+/**
+ * Build a typed text result from a raw API response
+ */
+export function createTextResult<L extends string>(
+  raw: TranslationResult,
+  targetLanguages: L[]
+): TextTranslationResult<L> {
+  const translations: Partial<Record<L, TranslationPair[]>> = {};
+
+  for (const lang of targetLanguages) {
+    if (raw[lang] !== undefined) {
+      translations[lang] = raw[lang] as TranslationPair[];
+    }
+  }
+
+  const result: Record<string, unknown> = { translations };
+  copyMetadata(raw, result);
+
+  return withLegacy(result, raw) as unknown as TextTranslationResult<L>;
+}
+
+/**
+ * Build a file-format result from the JSON result it was produced from,
+ * keeping its metadata and legacy accessor
+ */
+export function createFileResult<L extends string>(
+  jsonResult: TranslateJSONResult<unknown, L>,
+  files: Partial<Record<L, string>>
+): FileTranslationResult<L> {
+  const { translations: _translations, ...metadata } = jsonResult;
+  return withLegacy({ ...metadata, translations: files }, jsonResult.legacy) as unknown as FileTranslationResult<L>;
+}
@@ -0,0 +1,144 @@
+/**
+ * Retry policy for transient API failures (rate limits, 5xx, timeouts, network errors)
+ */
+
+import { Shipi18nError } from './errors';
+
+export interface RetryAttempt {
+  /** The attempt that just failed (1-based) */
+  attempt: number;
+  /** Maximum number of attempts that will be made */
+  maxAttempts: number;
+  /** Delay before the next attempt in milliseconds */
+  delay: number;
+  /** The error that triggered the retry */
+  error: Shipi18nError;
+}
+
+export interface RetryOptions {
+  /** Total number of attempts, including the first request (default: 3) */
+  maxAttempts?: number;
+  /** Base delay in milliseconds, doubled on each attempt (default: 500) */
+  baseDelay?: number;
+  /**
+   * Upper bound for a single delay in milliseconds (default: 30000). A Retry-After
+   * longer than this is not waited out: the error is thrown instead.
+   */
+  maxDelay?: number;
+  /** Randomize delays to avoid thundering herds (default: true) */
+  jitter?: boolean;
+  /** HTTP status codes that are retried (default: [408, 429, 500, 502, 503, 504]) */
+  retryOnStatus?: number[];
+  /** Error codes that are retried (default: ['RATE_LIMITED', 'TIMEOUT', 'NETWORK_ERROR']) */
+  retryOnCodes?: string[];
+  /** Called before each retry, e.g. for logging */
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/** Error codes that are never retried, whatever the configured policy says */
+const NON_RETRYABLE_CODES = ['MISSING_API_KEY', 'INVALID_API_KEY', 'QUOTA_EXCEEDED', 'ABORTED'];
+
+/** 4xx status codes that indicate a transient condition */
+const RETRYABLE_CLIENT_STATUSES = [408, 429];
+
+export const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'onRetry'>> = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 30000,
+  jitter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnCodes: ['RATE_LIMITED', 'TIMEOUT', 'NETWORK_ERROR'],
+};
+
+/**
+ * Check whether an error may be retried under the given policy.
+ * Client errors (4xx) are never retried, except 408 and 429, and neither are
+ * errors whose Retry-After is longer than `maxDelay`.
+ */
+export function isRetryableError(error: Shipi18nError, options: RetryOptions = {}): boolean {
+  const {
+    maxDelay = DEFAULT_RETRY_OPTIONS.maxDelay,
+    retryOnStatus = DEFAULT_RETRY_OPTIONS.retryOnStatus,
+    retryOnCodes = DEFAULT_RETRY_OPTIONS.retryOnCodes,
+  } = options;
+
+  if (NON_RETRYABLE_CODES.includes(error.code)) {
+    return false;
+  }
+
+  if (error.retryAfter !== undefined && error.retryAfter > maxDelay) {
+    return false;
+  }
+
+  if (
+    error.statusCode >= 400 &&
+    error.statusCode < 500 &&
+    !RETRYABLE_CLIENT_STATUSES.includes(error.statusCode)
+  ) {
+    return false;
+  }
+
+  return retryOnCodes.includes(error.code) || retryOnStatus.includes(error.statusCode);
+}
+
+/**
+ * Compute the delay before the next attempt.
+ * A server-provided Retry-After is used as-is instead of exponential backoff.
+ */
+export function getRetryDelay(attempt: number, error: Shipi18nError, options: RetryOptions = {}): number {
+  const {
+    baseDelay = DEFAULT_RETRY_OPTIONS.baseDelay,
+    maxDelay = DEFAULT_RETRY_OPTIONS.maxDelay,
+    jitter = DEFAULT_RETRY_OPTIONS.jitter,
+  } = options;
+
+  if (error.retryAfter !== undefined) {
+    return error.retryAfter;
+  }
+
+  const exponential = Math.min(baseDelay * 2 ** (attempt - 1), maxDelay);
+
+  // Equal jitter keeps the delay within [exponential / 2, exponential]
+  return jitter ? Math.round(exponential / 2 + Math.random() * (exponential / 2)) : exponential;
+}
+
+/**
+ * Parse a Retry-After header value (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Wait for `ms` milliseconds, or until `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
@@ -0,0 +1,162 @@
+/**
+ * Client-side evaluation of skipKeys / skipPaths patterns
+ *
+ * Patterns use dot-separated segments:
+ * - `states.CA` matches the exact path
+ * - `*` matches any single segment (`states.*` → `states.CA`)
+ * - `**` matches any number of segments (`**.internal` → `a.b.internal`)
+ *
+ * A key is also skipped when one of its ancestors matches, so `skipKeys: ['config']`
+ * skips every key below `config`.
+ *
+ * Skipped values are stripped from the request before it is sent and re-inserted
+ * into every translation afterwards, so they never leave the client.
+ */
+
+import { cloneJSON, deleteSegments, flattenSegments, isPlainObject, setSegments } from './utils';
+
+/** Built-in value patterns for skipValues */
+export type SkipValuePreset = 'url' | 'email' | 'hexColor';
+
+export const SKIP_VALUE_PATTERNS: Record<SkipValuePreset, RegExp> = {
+  url: /^(?:[a-z][a-z0-9+.-]*:\/\/|www\.)\S+$/i,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  hexColor: /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i,
+};
+
+/** A skipped leaf: its key path as segments (so keys containing dots stay single keys) and value */
+export type SkippedValue = [segments: string[], value: unknown];
+
+export interface SkipOptions {
+  /** Exact key paths */
+  skipKeys?: string[];
+  /** Glob path patterns */
+  skipPaths?: string[];
+  /** Skip string values matching a pattern or preset, wherever they appear */
+  skipValues?: Array<RegExp | SkipValuePreset>;
+}
+
+function matchSegment(pattern: string, segment: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  if (!pattern.includes('*')) {
+    return pattern === segment;
+  }
+
+  const source = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(segment);
+}
+
+function matchSegments(pattern: string[], path: string[]): boolean {
+  if (pattern.length === 0) {
+    return path.length === 0;
+  }
+
+  if (pattern[0] === '**') {
+    return matchSegments(pattern.slice(1), path) || (path.length > 0 && matchSegments(pattern, path.slice(1)));
+  }
+
+  return path.length > 0 && matchSegment(pattern[0], path[0]) && matchSegments(pattern.slice(1), path.slice(1));
+}
+
+/**
+ * Check whether a dot path matches a skip pattern (or an ancestor of it does)
+ */
+export function matchesPathPattern(path: string, pattern: string): boolean {
+  const patternSegments = pattern.split('.');
+  const pathSegments = path.split('.');
+
+  for (let length = 1; length <= pathSegments.length; length++) {
+    if (matchSegments(patternSegments, pathSegments.slice(0, length))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check whether a dot path is excluded by skipKeys (exact paths) or skipPaths (glob patterns)
+ */
+export function isSkippedPath(path: string, skipKeys: string[] = [], skipPaths: string[] = []): boolean {
+  return (
+    skipKeys.some((key) => path === key || path.startsWith(`${key}.`)) ||
+    skipPaths.some((pattern) => matchesPathPattern(path, pattern))
+  );
+}
+
+/**
+ * Check whether a string value matches one of the skipValues patterns
+ */
+export function isSkippedValue(value: string, skipValues: Array<RegExp | SkipValuePreset> = []): boolean {
+  return skipValues.some((pattern) => {
+    const regex = typeof pattern === 'string' ? SKIP_VALUE_PATTERNS[pattern] : pattern;
+    // search() ignores the global flag and lastIndex
+    return regex !== undefined && value.search(regex) !== -1;
+  });
+}
+
+/**
+ * Separate skipped leaves from the content to send. Patterns match the dot-joined path;
+ * values are removed by key segments. The content is returned as-is when nothing is skipped.
+ */
+export function splitSkippedContent(
+  content: Record<string, unknown>,
+  options: SkipOptions
+): { content: Record<string, unknown>; skipped: SkippedValue[] } {
+  const { skipKeys = [], skipPaths = [], skipValues = [] } = options;
+  const skipped: SkippedValue[] = [];
+
+  for (const [segments, value] of flattenSegments(content)) {
+    const path = segments.join('.');
+    if (isSkippedPath(path, skipKeys, skipPaths) || (typeof value === 'string' && isSkippedValue(value, skipValues))) {
+      skipped.push([segments, value]);
+    }
+  }
+
+  if (skipped.length === 0) {
+    return { content, skipped };
+  }
+
+  const stripped = cloneJSON(content);
+  skipped.forEach(([segments]) => deleteSegments(stripped, segments));
+  return { content: stripped, skipped };
+}
+
+/**
+ * Copy `value` with object keys in the order of `reference`; keys not in the reference come last
+ */
+function orderLike(value: unknown, reference: unknown): unknown {
+  if (!isPlainObject(value) || !isPlainObject(reference)) {
+    return value;
+  }
+
+  const ordered: Record<string, unknown> = {};
+  for (const key of Object.keys(reference)) {
+    if (key in value) {
+      ordered[key] = orderLike(value[key], reference[key]);
+    }
+  }
+  for (const key of Object.keys(value)) {
+    if (!(key in ordered)) {
+      ordered[key] = value[key];
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Re-insert skipped source values into a translation, keeping the source key order
+ */
+export function restoreSkippedContent(
+  translation: Record<string, unknown>,
+  skipped: SkippedValue[],
+  source: Record<string, unknown>
+): Record<string, unknown> {
+  const restored = cloneJSON(translation);
+  for (const [segments, value] of skipped) {
+    setSegments(restored, segments, cloneJSON(value));
+  }
+  return orderLike(restored, source) as Record<string, unknown>;
+}
@@ -0,0 +1,214 @@
+/**
+ * Filesystem helpers for syncing a locales directory
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { FallbackInfo } from './index';
+import { cloneJSON, deleteNestedValue, flattenObject, isPlainObject, setNestedValue } from './utils';
+
+/**
+ * Supported locale directory layouts:
+ * - '{lng}/{ns}.json': locales/en/common.json
+ * - '{ns}.{lng}.json': locales/common.en.json
+ * - '{lng}.json': locales/en.json (a single file per language, no namespaces)
+ */
+export type LocaleLayout = '{lng}/{ns}.json' | '{ns}.{lng}.json' | '{lng}.json';
+
+export interface LocaleFile {
+  /** Namespace (undefined for the '{lng}.json' layout) */
+  namespace?: string;
+  /** Absolute file path */
+  filePath: string;
+}
+
+/** What syncLocales did with a target file */
+export type SyncFileStatus = 'created' | 'updated' | 'unchanged';
+
+export interface SyncFileReport {
+  /** File path relative to the locales directory */
+  file: string;
+  language: string;
+  namespace?: string;
+  status: SyncFileStatus;
+  /** Key paths written from the new translation */
+  translatedKeys: string[];
+  /** Key paths whose existing translation was kept */
+  preservedKeys: string[];
+  /** Key paths removed because they no longer exist in the source (with prune) */
+  removedKeys: string[];
+}
+
+function sameJSON(text: string, content: Record<string, unknown>): boolean {
+  try {
+    return JSON.stringify(JSON.parse(text)) === JSON.stringify(content);
+  } catch {
+    return false;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Path of a locale file relative to the locales directory
+ */
+export function getLocaleFileName(layout: LocaleLayout, language: string, namespace?: string): string {
+  switch (layout) {
+    case '{lng}/{ns}.json':
+      return path.join(language, `${namespace}.json`);
+    case '{ns}.{lng}.json':
+      return `${namespace}.${language}.json`;
+    case '{lng}.json':
+      return `${language}.json`;
+  }
+}
+
+/**
+ * Path of a locale file for a language and namespace
+ */
+export function getLocaleFilePath(dir: string, layout: LocaleLayout, language: string, namespace?: string): string {
+  return path.join(dir, getLocaleFileName(layout, language, namespace));
+}
+
+/**
+ * List the source language files of a locales directory
+ */
+export async function listLocaleFiles(dir: string, layout: LocaleLayout, language: string): Promise<LocaleFile[]> {
+  if (layout === '{lng}.json') {
+    const filePath = getLocaleFilePath(dir, layout, language);
+    return (await readLocaleFile(filePath)) ? [{ filePath }] : [];
+  }
+
+  const listDir = layout === '{lng}/{ns}.json' ? path.join(dir, language) : dir;
+  const pattern =
+    layout === '{lng}/{ns}.json' ? /^(.+)\.json$/ : new RegExp(`^(.+)\\.${escapeRegExp(language)}\\.json$`);
+
+  let names: string[];
+  try {
+    names = await fs.readdir(listDir);
+  } catch {
+    return [];
+  }
+
+  return names
+    .sort()
+    .map((name) => pattern.exec(name))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => ({ namespace: match[1], filePath: getLocaleFilePath(dir, layout, language, match[1]) }));
+}
+
+/**
+ * Read a JSON locale file, or undefined when it does not exist
+ */
+export async function readLocaleFile(filePath: string): Promise<Record<string, unknown> | undefined> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+
+  const content = JSON.parse(text);
+  return isPlainObject(content) ? content : undefined;
+}
+
+/**
+ * Drop content a language received as fallback (source text, a parent language or
+ * another fallback language) rather than as a translation, so those keys stay missing
+ * and are requested again on the next sync. `prefix` is the namespace path of a
+ * namespaced file (e.g. 'common.').
+ */
+export function omitFallbackContent(
+  translated: Record<string, unknown> | undefined,
+  fallbackInfo: FallbackInfo | undefined,
+  language: string,
+  prefix = ''
+): Record<string, unknown> | undefined {
+  if (!translated || !fallbackInfo) {
+    return translated;
+  }
+  if (fallbackInfo.languagesFallbackToSource.includes(language) || language in fallbackInfo.regionalFallbacks) {
+    return undefined;
+  }
+
+  const keys = (fallbackInfo.keysFallback[language] || [])
+    .filter((key) => key.startsWith(prefix))
+    .map((key) => key.slice(prefix.length));
+  if (keys.length === 0) {
+    return translated;
+  }
+
+  const content = cloneJSON(translated);
+  keys.forEach((key) => deleteNestedValue(content, key));
+  return content;
+}
+
+/**
+ * Merge a translation into an existing locale file. Existing values and key order
+ * are kept unless `overwrite` is set; new keys are added in source order, and keys
+ * missing from the source are kept unless `prune` is set.
+ */
+export function mergeLocaleContent(
+  source: Record<string, unknown>,
+  existing: Record<string, unknown> | undefined,
+  translated: Record<string, unknown> | undefined,
+  options: { overwrite?: boolean; prune?: boolean } = {}
+): { content: Record<string, unknown>; translatedKeys: string[]; preservedKeys: string[]; removedKeys: string[] } {
+  const sourceFlat = flattenObject(source);
+  const existingFlat = existing ? flattenObject(existing) : {};
+  const translatedFlat = translated ? flattenObject(translated) : {};
+
+  const content = existing ? cloneJSON(existing) : {};
+  const translatedKeys: string[] = [];
+  const preservedKeys: string[] = [];
+  const removedKeys: string[] = [];
+
+  if (options.prune) {
+    for (const key of Object.keys(existingFlat)) {
+      if (!(key in sourceFlat)) {
+        deleteNestedValue(content, key);
+        removedKeys.push(key);
+      }
+    }
+  }
+
+  for (const key of Object.keys(sourceFlat)) {
+    if (key in existingFlat && !(options.overwrite && key in translatedFlat)) {
+      preservedKeys.push(key);
+    } else if (key in translatedFlat) {
+      setNestedValue(content, key, translatedFlat[key]);
+      translatedKeys.push(key);
+    }
+  }
+
+  return { content, translatedKeys, preservedKeys, removedKeys };
+}
+
+/**
+ * Write a locale file unless its contents are unchanged
+ */
+export async function writeLocaleFile(
+  filePath: string,
+  content: Record<string, unknown>,
+  indent: number
+): Promise<SyncFileStatus> {
+  const text = `${JSON.stringify(content, null, indent)}\n`;
+
+  let current: string | undefined;
+  try {
+    current = await fs.readFile(filePath, 'utf8');
+  } catch {
+    current = undefined;
+  }
+
+  // Formatting-only differences don't count as changes
+  if (current !== undefined && (current === text || sameJSON(current, content))) {
+    return 'unchanged';
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, text);
+  return current === undefined ? 'created' : 'updated';
+}
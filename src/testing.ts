@@ -0,0 +1,355 @@
+/**
+ * Test helpers for apps using the SDK: a fake API server, a client wired to it,
+ * and record/replay fixtures for real API responses.
+ *
+ * Imported from `@shipi18n/api/testing`.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Shipi18nError } from './errors';
+import { Shipi18n, Shipi18nConfig, TranslationPair } from './index';
+import type { Middleware } from './middleware';
+import { pseudoLocalize } from './pseudo';
+import { deleteNestedValue, isPlainObject } from './utils';
+
+/** Failures the fake server can simulate */
+export type MockFailure =
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'QUOTA_EXCEEDED'
+  | 'INVALID_API_KEY'
+  | 'SERVER_ERROR';
+
+export interface MockServerOptions {
+  /** Translate one string (default: pseudo-localization, e.g. "Hello {name}" → "[Ĥéļļö {name}]") */
+  transform?: (text: string, language: string) => string;
+  /** Languages left out of every response, as if the API failed to translate them */
+  failLanguages?: string[];
+  /** Key paths left out of responses, for all languages or per language */
+  missingKeys?: string[] | Record<string, string[]>;
+  /** Response of /api/languages */
+  languages?: Array<{ code: string; name: string }>;
+}
+
+/** A request received by the fake server */
+export interface MockRequest {
+  endpoint: string;
+  method: string;
+  headers: Record<string, string>;
+  /** Parsed JSON body (POST only) */
+  body?: Record<string, unknown>;
+}
+
+const DEFAULT_LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ar', name: 'Arabic' },
+];
+
+/**
+ * A minimal Response, so fixtures and the fake server don't depend on a global Response class
+ */
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status < 400 ? 'OK' : 'Error',
+    headers: { get: (name: string) => lowerCased[name.toLowerCase()] ?? null },
+    json: () => Promise.resolve(JSON.parse(JSON.stringify(body))),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response;
+}
+
+/** Response with a body that is not JSON, e.g. a proxy's HTML error page */
+function textResponse(text: string, status: number, headers: Record<string, string> = {}): Response {
+  return {
+    ...jsonResponse(undefined, status, headers),
+    json: () => Promise.reject(new SyntaxError('Response body is not valid JSON')),
+    text: () => Promise.resolve(text),
+  } as unknown as Response;
+}
+
+function failureResponse(failure: MockFailure): Promise<Response> {
+  switch (failure) {
+    case 'RATE_LIMITED':
+      return Promise.resolve(
+        jsonResponse({ code: 'RATE_LIMITED', message: 'Too many requests' }, 429, { 'Retry-After': '0' })
+      );
+    case 'QUOTA_EXCEEDED':
+      return Promise.resolve(jsonResponse({ code: 'QUOTA_EXCEEDED', message: 'Monthly character limit reached' }, 402));
+    case 'INVALID_API_KEY':
+      return Promise.resolve(jsonResponse({ code: 'INVALID_API_KEY', message: 'API key is invalid' }, 401));
+    case 'SERVER_ERROR':
+      return Promise.resolve(jsonResponse({ message: 'Internal server error' }, 500));
+    case 'TIMEOUT': {
+      // What fetch rejects with when the client's timeout aborts it
+      const error = new Error('The operation was aborted');
+      error.name = 'AbortError';
+      return Promise.reject(error);
+    }
+    case 'NETWORK_ERROR':
+      return Promise.reject(new TypeError('fetch failed'));
+  }
+}
+
+/**
+ * Fake Shipi18n API. Translates deterministically, records every request and can
+ * be told to fail upcoming requests.
+ *
+ * @example
+ * ```typescript
+ * const server = new MockServer({ missingKeys: { fr: ['nav.about'] } });
+ * const shipi18n = new Shipi18n({ apiKey: 'test', fetch: server.fetch });
+ *
+ * server.fail('RATE_LIMITED', 2);
+ * await shipi18n.translateJSON({ ... }); // two 429 responses, then success (with retries)
+ * expect(server.requests).toHaveLength(3);
+ * ```
+ */
+export class MockServer {
+  /** Requests received so far, in order */
+  readonly requests: MockRequest[] = [];
+  private failures: MockFailure[] = [];
+  private options: MockServerOptions;
+
+  constructor(options: MockServerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Make the next `times` requests fail
+   */
+  fail(failure: MockFailure, times = 1): this {
+    for (let i = 0; i < times; i++) {
+      this.failures.push(failure);
+    }
+    return this;
+  }
+
+  /**
+   * Forget recorded requests and pending failures
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.failures = [];
+  }
+
+  /** fetch implementation to pass to the client */
+  readonly fetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const endpoint = url.replace(/^[a-z]+:\/\/[^/]+/i, '');
+    const body = typeof init.body === 'string' ? JSON.parse(init.body) : undefined;
+    this.requests.push({
+      endpoint,
+      method: init.method || 'GET',
+      headers: { ...(init.headers as Record<string, string>) },
+      body,
+    });
+
+    const failure = this.failures.shift();
+    if (failure) {
+      return failureResponse(failure);
+    }
+
+    if (endpoint === '/api/languages') {
+      return jsonResponse({ languages: this.options.languages || DEFAULT_LANGUAGES });
+    }
+    if (endpoint === '/api/translate' && body) {
+      return jsonResponse(this.translate(body));
+    }
+    return jsonResponse({ code: 'NOT_FOUND', message: `Unknown endpoint ${endpoint}` }, 404);
+  };
+
+  private translateString(text: string, language: string): string {
+    return this.options.transform ? this.options.transform(text, language) : pseudoLocalize(text, { expansion: 0 });
+  }
+
+  private translateValue(value: unknown, language: string): unknown {
+    if (typeof value === 'string') {
+      return this.translateString(value, language);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.translateValue(item, language));
+    }
+    if (isPlainObject(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.translateValue(item, language)]));
+    }
+    return value;
+  }
+
+  private missingKeysFor(language: string): string[] {
+    const { missingKeys = [] } = this.options;
+    return Array.isArray(missingKeys) ? missingKeys : missingKeys[language] || [];
+  }
+
+  private translate(body: Record<string, unknown>): Record<string, unknown> {
+    const languages = JSON.parse(String(body.targetLanguages)) as string[];
+    const text = String(body.text);
+    const result: Record<string, unknown> = {};
+
+    for (const language of languages) {
+      if (this.options.failLanguages?.includes(language)) {
+        continue;
+      }
+
+      if (body.outputFormat === 'text') {
+        result[language] = text
+          .split('\n')
+          .map((line): TranslationPair => ({ original: line, translated: this.translateString(line, language) }));
+        continue;
+      }
+
+      const translation = this.translateValue(JSON.parse(text), language) as Record<string, unknown>;
+      this.missingKeysFor(language).forEach((key) => deleteNestedValue(translation, key));
+      result[language] = translation;
+    }
+
+    if (body.exportPerNamespace === true) {
+      const namespaceFiles: Record<string, Record<string, unknown>> = {};
+      for (const language of Object.keys(result)) {
+        for (const [namespace, value] of Object.entries(result[language] as Record<string, unknown>)) {
+          if (isPlainObject(value)) {
+            (namespaceFiles[namespace] ||= {})[language] = value;
+          }
+        }
+      }
+      result.namespaceFiles = namespaceFiles;
+    }
+
+    return result;
+  }
+}
+
+export interface MockShipi18nOptions extends Partial<Shipi18nConfig>, MockServerOptions {}
+
+/**
+ * A Shipi18n client backed by a MockServer; no API key or network needed
+ *
+ * @example
+ * ```typescript
+ * const shipi18n = new MockShipi18n({ failLanguages: ['ja'] });
+ * const result = await shipi18n.translateJSON({ content: { hi: 'Hello' }, sourceLanguage: 'en', targetLanguages: ['es', 'ja'] });
+ * result.translations.es;                          // { hi: '[Ĥéļļö]' }
+ * result.fallbackInfo?.languagesFallbackToSource;  // ['ja']
+ * ```
+ */
+export class MockShipi18n extends Shipi18n {
+  readonly server: MockServer;
+
+  constructor(options: MockShipi18nOptions = {}) {
+    const { transform, failLanguages, missingKeys, languages, ...config } = options;
+    const server = new MockServer({ transform, failLanguages, missingKeys, languages });
+
+    super({ apiKey: 'test-key', ...config, fetch: server.fetch });
+    this.server = server;
+  }
+}
+
+/**
+ * - 'record': send requests and save each response as a fixture
+ * - 'replay': answer from fixtures only; a missing fixture fails with FIXTURE_NOT_FOUND
+ * - 'auto': replay when a fixture exists, record otherwise
+ */
+export type FixtureMode = 'record' | 'replay' | 'auto';
+
+export interface FixtureOptions {
+  /** Directory holding one JSON file per request */
+  dir: string;
+  /** Default: 'replay' */
+  mode?: FixtureMode;
+}
+
+interface Fixture {
+  request: { method: string; endpoint: string; body?: unknown };
+  /** `body` for JSON responses, `text` for anything else */
+  response: { status: number; headers: Record<string, string>; body?: unknown; text?: string };
+}
+
+function fixtureResponse({ status, headers, body, text }: Fixture['response']): Response {
+  return text !== undefined ? textResponse(text, status, headers) : jsonResponse(body, status, headers);
+}
+
+/**
+ * Fixture file for a request. Headers are not part of the name, so fixtures
+ * don't depend on the API key.
+ */
+function fixturePath(dir: string, method: string, endpoint: string, body: string | undefined): string {
+  const hash = createHash('sha256').update(`${method} ${endpoint}\n${body ?? ''}`).digest('hex').slice(0, 16);
+  const name = endpoint.replace(/^\/+/, '').replace(/[^a-zA-Z0-9]+/g, '-');
+  return path.join(dir, `${name}-${hash}.json`);
+}
+
+async function readFixture(filePath: string): Promise<Fixture | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Record real API responses to fixture files and replay them in offline test runs
+ *
+ * @example
+ * ```typescript
+ * const shipi18n = new Shipi18n({
+ *   apiKey: process.env.SHIPI18N_API_KEY || 'replay',
+ *   middleware: [fixtureMiddleware({ dir: '__fixtures__/shipi18n', mode: process.env.RECORD ? 'record' : 'replay' })],
+ * });
+ * ```
+ */
+export function fixtureMiddleware(options: FixtureOptions): Middleware {
+  const { dir, mode = 'replay' } = options;
+
+  return async (ctx, next) => {
+    const filePath = fixturePath(dir, ctx.method, ctx.endpoint, ctx.body);
+
+    if (mode !== 'record') {
+      const fixture = await readFixture(filePath);
+      if (fixture) {
+        return fixtureResponse(fixture.response);
+      }
+      if (mode === 'replay') {
+        throw new Shipi18nError(
+          `No fixture for ${ctx.method} ${ctx.endpoint} (${path.basename(filePath)}); record it with mode 'record'`,
+          0,
+          'FIXTURE_NOT_FOUND'
+        );
+      }
+    }
+
+    const response = await next();
+    const text = await response.text();
+    const retryAfter = response.headers?.get('retry-after');
+    const headers: Record<string, string> = retryAfter ? { 'Retry-After': retryAfter } : {};
+
+    // Error pages from proxies (e.g. a 502 in HTML) are recorded as text, so the client still sees the status
+    let recorded: Fixture['response'];
+    try {
+      recorded = { status: response.status, headers, body: JSON.parse(text) };
+    } catch {
+      recorded = { status: response.status, headers, text };
+    }
+
+    const fixture: Fixture = {
+      request: { method: ctx.method, endpoint: ctx.endpoint, body: ctx.body ? JSON.parse(ctx.body) : undefined },
+      response: recorded,
+    };
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`);
+
+    return fixtureResponse(recorded);
+  };
+}
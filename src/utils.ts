@@ -0,0 +1,184 @@
+/**
+ * Shared helpers for working with nested translation objects using dot-path keys or key segments
+ */
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Get a nested value from an object using dot notation
+ */
+export function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce((current: unknown, key: string) => {
+    if (current && typeof current === 'object' && key in (current as Record<string, unknown>)) {
+      return (current as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, obj);
+}
+
+/**
+ * Set a nested value in an object using dot notation
+ */
+export function setNestedValue(obj: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let current = obj;
+
+  for (let i = 0; i < keys.length - 1; i++) {
+    const key = keys[i];
+    if (!(key in current) || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+
+  current[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Flatten a nested object into dot-path leaf entries.
+ * Arrays and primitives are leaves; empty objects are omitted.
+ *
+ * @example
+ * flattenObject({ a: { b: 'x' }, c: 'y' }) // { 'a.b': 'x', c: 'y' }
+ */
+export function flattenObject(obj: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+
+  for (const key of Object.keys(obj)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    const value = obj[key];
+
+    if (isPlainObject(value)) {
+      Object.assign(flat, flattenObject(value, fullKey));
+    } else {
+      flat[fullKey] = value;
+    }
+  }
+
+  return flat;
+}
+
+/**
+ * Rebuild a nested object from dot-path leaf entries
+ */
+export function unflattenObject(flat: Record<string, unknown>): Record<string, unknown> {
+  const obj: Record<string, unknown> = {};
+
+  for (const path of Object.keys(flat)) {
+    setNestedValue(obj, path, flat[path]);
+  }
+
+  return obj;
+}
+
+/**
+ * Delete a nested value using dot notation, removing parent objects left empty
+ */
+export function deleteNestedValue(obj: Record<string, unknown>, path: string): void {
+  const [key, ...rest] = path.split('.');
+
+  if (!(key in obj)) {
+    return;
+  }
+
+  if (rest.length === 0) {
+    delete obj[key];
+    return;
+  }
+
+  const child = obj[key];
+  if (isPlainObject(child)) {
+    deleteNestedValue(child, rest.join('.'));
+    if (Object.keys(child).length === 0) {
+      delete obj[key];
+    }
+  }
+}
+
+/**
+ * Leaf entries of a nested object with their key path as segments, so keys containing
+ * dots stay single keys. Arrays and primitives are leaves; empty objects are omitted.
+ *
+ * @example
+ * flattenSegments({ a: { b: 'x' }, 'c.d': 'y' }) // [[['a', 'b'], 'x'], [['c.d'], 'y']]
+ */
+export function flattenSegments(obj: Record<string, unknown>, prefix: string[] = []): Array<[string[], unknown]> {
+  return Object.keys(obj).flatMap((key): Array<[string[], unknown]> => {
+    const value = obj[key];
+    return isPlainObject(value) ? flattenSegments(value, [...prefix, key]) : [[[...prefix, key], value]];
+  });
+}
+
+/**
+ * Get a nested value by key path segments
+ */
+export function getSegments(obj: Record<string, unknown>, segments: string[]): unknown {
+  let current: unknown = obj;
+  for (const key of segments) {
+    if (!isPlainObject(current) || !(key in current)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * Set a nested value by key path segments
+ */
+export function setSegments(obj: Record<string, unknown>, segments: string[], value: unknown): void {
+  let current = obj;
+  for (const key of segments.slice(0, -1)) {
+    if (!isPlainObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Delete a nested value by key path segments, removing parent objects left empty
+ */
+export function deleteSegments(obj: Record<string, unknown>, segments: string[]): void {
+  const [key, ...rest] = segments;
+
+  if (!(key in obj)) {
+    return;
+  }
+
+  if (rest.length === 0) {
+    delete obj[key];
+    return;
+  }
+
+  const child = obj[key];
+  if (isPlainObject(child)) {
+    deleteSegments(child, rest);
+    if (Object.keys(child).length === 0) {
+      delete obj[key];
+    }
+  }
+}
+
+/**
+ * Check whether a value is or contains a non-empty string
+ */
+export function containsText(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return value !== '';
+  }
+  if (Array.isArray(value)) {
+    return value.some(containsText);
+  }
+  return isPlainObject(value) && Object.values(value).some(containsText);
+}
+
+/**
+ * Deep clone JSON-compatible data
+ */
+export function cloneJSON<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}